@@ -1,58 +1,606 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Header from './components/Header';
 import UploadZone from './components/UploadZone';
 import Dashboard from './components/Dashboard';
-import { analyzeBankStatement } from './services/geminiService';
-import { AppState, ExtractedData } from './types';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import SessionList from './components/SessionList';
+import ExtractionSettingsModal from './components/ExtractionSettingsModal';
+import PhotoOrderModal from './components/PhotoOrderModal';
+import ExtractionProgressPanel from './components/ExtractionProgressPanel';
+import UploadPreflightModal from './components/UploadPreflightModal';
+import HolderSplitModal from './components/HolderSplitModal';
+import { analyzeBankStatement, AnalyzeOptions, UNKNOWN_HOLDER } from './services/statementExtractor';
+import { CANCELLED_REASON } from './services/chunkQueue';
+import {
+  applyExtractionEvent,
+  createExtractionProgress,
+  ExtractionEvent,
+  ExtractionProgress
+} from './services/extractionProgress';
+import {
+  ExtractionProvider,
+  ExtractionSettings,
+  getExtractionProvider,
+  loadExtractionSettings,
+  PROVIDER_OPTIONS,
+  saveExtractionSettings
+} from './services/extractionProvider';
+import { parseOfxFile } from './services/ofxService';
+import { PreparedFile } from './services/preflightService';
+import { buildStatementFromPhotos } from './services/scanService';
+import { applyCategoryRules, loadRules } from './services/categoryRulesService';
+import { reconcileStatement } from './services/reconciliationService';
+import { parseSessionFile } from './services/exportService';
+import { findHolderGroups, HolderGroup } from './services/accountService';
+import {
+  buildImportedSession,
+  createSession,
+  deleteSession,
+  describeFiles,
+  duplicateSession,
+  getSourceFile,
+  listSessions,
+  renameSession,
+  saveSession,
+  saveSourceFiles
+} from './services/sessionService';
+import {
+  applyColumnMapping,
+  getHeaderSignature,
+  guessColumnMapping,
+  loadSavedMapping,
+  readSpreadsheet,
+  saveMapping
+} from './services/spreadsheetService';
+import { detectStatementFormat, StatementFormat } from './utils/fileFormat';
+import { createId } from './utils/id';
+import {
+  AnalysisSession,
+  AppState,
+  ColumnMapping,
+  DashboardState,
+  ExtractedData,
+  FailedPageRange,
+  SessionFile,
+  SourceFileRef,
+  SpreadsheetData,
+  Transaction
+} from './types';
+
+interface FileResult {
+  fileId: string; // Id do arquivo no lote; nomes podem se repetir
+  fileName: string;
+  data: ExtractedData;
+}
+
+// Arquivo do lote com o id que o acompanha da leitura até a análise salva
+// (nomes podem se repetir no lote, ex: extrato.csv de dois bancos)
+type BatchFile = PreparedFile & { id: string };
+
+// Planilha lida e aguardando o usuário confirmar o mapeamento de colunas
+interface PendingSpreadsheet {
+  id: string; // Id do arquivo no lote
+  file: File;
+  sheet: SpreadsheetData;
+  signature: string;
+}
+
+// Intervalo para agrupar edições consecutivas do Dashboard em uma única gravação
+const AUTOSAVE_DELAY_MS = 800;
+
+// Arquivos OFX/QFX já são estruturados e dispensam a IA; PDFs seguem para o provedor escolhido
+const analyzeFile = async (
+  file: File,
+  format: StatementFormat,
+  provider: ExtractionProvider,
+  options: AnalyzeOptions
+): Promise<ExtractedData> => {
+  switch (format) {
+    case 'ofx': {
+      const data = await parseOfxFile(file);
+      options.onEvent?.({ type: 'pages-read', fileName: file.name, transactions: data.transactions });
+      return data;
+    }
+    case 'pdf':
+      return analyzeBankStatement(file, provider, options);
+    default:
+      throw new Error(`Formato não suportado: ${file.name}. Envie extratos em PDF, OFX, QFX, CSV, XLSX ou fotos (JPEG, PNG, HEIC).`);
+  }
+};
+
+// Marca o arquivo de origem (detecção de duplicatas), dá um id estável a cada transação e aplica
+// as regras do usuário, que prevalecem sobre a categoria sugerida pela IA
+const prepareTransactions = (results: FileResult[]): Transaction[] =>
+  applyCategoryRules(
+    results.flatMap(r =>
+      r.data.transactions.map(t => ({
+        ...t,
+        id: createId(),
+        source: {
+          fileName: r.fileName,
+          fileId: r.fileId,
+          bankName: r.data.bankName,
+          accountHolder: r.data.accountHolder !== UNKNOWN_HOLDER ? r.data.accountHolder : undefined,
+          accountNumber: r.data.accountNumber,
+          ...t.source
+        },
+        // Valores extraídos, preservados para auditoria mesmo após edições
+        original: { date: t.date, description: t.description, amount: t.amount, category: t.category }
+      }))
+    ),
+    loadRules()
+  );
+
+// Páginas não lidas, marcadas com o arquivo do lote para a nova tentativa
+const getFailedPages = (result: FileResult): FailedPageRange[] =>
+  (result.data.failedPages ?? []).map(f => ({ ...f, fileId: result.fileId }));
+
+// Consolida os arquivos de um lote (ou da parte de um titular) numa única análise
+const mergeResults = (results: FileResult[]): ExtractedData => {
+  const failedPages = results.flatMap(getFailedPages);
+
+  // Confere saldo de abertura + transações contra o saldo final de cada arquivo
+  const reconciliations = results.map(r => reconcileStatement(r.fileName, r.data));
+
+  // Coleta nomes únicos de bancos
+  const uniqueBanks = Array.from(new Set(results.map(r => r.data.bankName).filter(Boolean)));
+  const uniqueHolders = Array.from(new Set(results.map(r => r.data.accountHolder).filter(Boolean)));
+  const identifiedHolders = uniqueHolders.filter((h): h is string => !!h && h !== UNKNOWN_HOLDER);
+  const uniqueDocuments = Array.from(new Set(
+    results.map(r => r.data.holderDocument).filter((d): d is string => !!d)
+  ));
+
+  return {
+    transactions: prepareTransactions(results),
+    bankName: uniqueBanks.join(' + ') || 'Múltiplos Bancos',
+    accountHolder: identifiedHolders[0] || uniqueHolders[0] || undefined, // Titular principal; os demais ficam em accountHolders
+    accountHolders: identifiedHolders,
+    holderDocuments: uniqueDocuments,
+    reconciliations,
+    failedPages: failedPages.length > 0 ? failedPages : undefined
+  };
+};
+
+// Arquivos sem titular identificado (planilhas, OFX sem NAME) acompanham o primeiro titular
+const splitResultsByHolder = (results: FileResult[], groups: HolderGroup[]): FileResult[][] => {
+  const inGroup = (group: HolderGroup, result: FileResult) => group.files.some(f => f.id === result.fileId);
+  const byHolder = groups.map(g => results.filter(r => inGroup(g, r)));
+  const unassigned = results.filter(r => !groups.some(g => inGroup(g, r)));
+  byHolder[0].push(...unassigned);
+  return byHolder;
+};
+
+// Um arquivo ilegível ou cancelado não derruba o lote: ele entra na lista de páginas a tentar de novo
+const analyzeFileSafely = async (
+  file: File,
+  fileId: string,
+  format: StatementFormat,
+  provider: ExtractionProvider,
+  options: AnalyzeOptions = {}
+): Promise<FileResult> => {
+  const { signal, onEvent } = options;
+  const failWholeFile = (reason: string): FileResult =>
+    ({ fileId, fileName: file.name, data: { transactions: [], failedPages: [{ fileName: file.name, reason }] } });
+
+  if (signal?.aborted) {
+    onEvent?.({ type: 'file-finished', fileName: file.name, status: 'cancelled' });
+    return failWholeFile(CANCELLED_REASON);
+  }
+
+  onEvent?.({ type: 'file-started', fileName: file.name });
+  try {
+    const data = await analyzeFile(file, format, provider, options);
+    onEvent?.({ type: 'file-finished', fileName: file.name, status: signal?.aborted ? 'cancelled' : 'done' });
+    return { fileId, fileName: file.name, data };
+  } catch (err: any) {
+    const reason = err.message || "Falha ao processar o arquivo.";
+    onEvent?.({ type: 'file-finished', fileName: file.name, status: 'error', reason });
+    return failWholeFile(reason);
+  }
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [data, setData] = useState<ExtractedData | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Fila do assistente de mapeamento: planilhas pendentes, já importadas e os demais arquivos do lote
+  const [pendingSpreadsheets, setPendingSpreadsheets] = useState<PendingSpreadsheet[]>([]);
+  const [importedSpreadsheets, setImportedSpreadsheets] = useState<FileResult[]>([]);
+  const [queuedFiles, setQueuedFiles] = useState<BatchFile[]>([]);
+
+  // Arquivos aguardando a conferência antes do upload (senha, seleção de páginas, estimativa de chamadas)
+  const [pendingPreflight, setPendingPreflight] = useState<{ file: File; format: StatementFormat }[] | null>(null);
+
+  // Lote lido com mais de um titular, aguardando o usuário decidir se separa as análises
+  const [pendingHolderSplit, setPendingHolderSplit] = useState<{
+    results: FileResult[];
+    sourceFiles: SessionFile[];
+    groups: HolderGroup[];
+  } | null>(null);
+
+  // Fotos aguardando o usuário confirmar a ordem das páginas, com os demais arquivos do lote
+  const [pendingPhotos, setPendingPhotos] = useState<{ photos: File[]; others: PreparedFile[] } | null>(null);
+
+  // Sessões persistidas localmente (IndexedDB)
+  const [session, setSession] = useState<AnalysisSession | null>(null);
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [batchFiles, setBatchFiles] = useState<SessionFile[]>([]);
+  // Arquivos do lote atual por id, para a consulta de origem sem IndexedDB
+  const batchFileObjects = useRef(new Map<string, File>());
+  const autosaveTimer = useRef<number | undefined>(undefined);
+  // Alteração do painel ainda não gravada, à espera do fim do intervalo do salvamento automático
+  const pendingAutosave = useRef<AnalysisSession | undefined>(undefined);
+  const sessionImportInput = useRef<HTMLInputElement>(null);
+
+  // Progresso da leitura do lote e cancelamento por arquivo (chave: id do arquivo no lote)
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const abortControllers = useRef(new Map<string, AbortController>());
+
+  // Provedor de extração de PDFs (Gemini ou leitura local)
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(loadExtractionSettings);
+  const [isExtractionSettingsOpen, setIsExtractionSettingsOpen] = useState(false);
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.warn("Não foi possível carregar as análises salvas", err);
+    }
+  };
+
+  useEffect(() => {
+    refreshSessions();
+  }, []);
+
+  const handleError = (err: any) => {
+    console.error(err);
+    setAppState(AppState.ERROR);
+    setError(err.message || "Ocorreu um erro inesperado ao processar os arquivos.");
+  };
+
+  const processFiles = async (
+    files: BatchFile[],
+    imported: FileResult[],
+    sourceFiles: SessionFile[]
+  ) => {
+    try {
+      // Processa todos os arquivos em paralelo, acompanhando o progresso de cada um
+      const provider = getExtractionProvider(extractionSettings);
+      abortControllers.current = new Map(files.map(({ id }) => [id, new AbortController()]));
+      setProgress(createExtractionProgress(files.map(({ id, file }) => ({ id, fileName: file.name }))));
+
+      const promises = files.map(({ id, file, format, pageNumbers }) =>
+        analyzeFileSafely(file, id, format, provider, {
+          pageNumbers,
+          signal: abortControllers.current.get(id)!.signal,
+          onEvent: (event: ExtractionEvent) => setProgress(prev => prev && applyExtractionEvent(prev, id, event))
+        })
+      );
+      const results = [...(await Promise.all(promises)), ...imported];
+      abortControllers.current.clear();
+
+      if (results.every(r => r.data.transactions.length === 0)) {
+         // Sem nada lido, os motivos das falhas (ex: chave de API ausente) explicam melhor que a mensagem genérica
+         const failedPages = results.flatMap(r => r.data.failedPages ?? []);
+         const reasons = Array.from(new Set(failedPages.map(f => f.reason)));
+         throw new Error(reasons.length > 0 ? reasons.join(' ') : "Nenhuma transação foi encontrada nos arquivos fornecidos.");
+      }
+
+      // Titulares diferentes no mesmo lote (casal, empresa e sócio): o usuário decide se separa as análises
+      const holderGroups = findHolderGroups(results);
+      if (holderGroups.length > 1) {
+        setPendingHolderSplit({ results, sourceFiles, groups: holderGroups });
+        return;
+      }
+      await finishBatch([results], sourceFiles);
+
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Salva cada grupo como uma análise e abre a primeira; sem IndexedDB (ex: modo privado) a análise segue só em memória
+  const finishBatch = async (groups: FileResult[][], sourceFiles: SessionFile[]) => {
+    let first: { data: ExtractedData; session: AnalysisSession | null } | null = null;
+
+    for (const group of groups) {
+      const groupData = mergeResults(group);
+      const holderSuffix = groups.length > 1 && groupData.accountHolder ? ` — ${groupData.accountHolder}` : '';
+      const defaultName = `${groupData.bankName}${holderSuffix} — ${new Date().toLocaleDateString('pt-BR')}`;
+      let saved: AnalysisSession | null = null;
+      try {
+        // Arquivos do grupo pelo id do lote: dois "extrato.pdf" não se confundem
+        const members = group.flatMap(r => {
+          const described = sourceFiles.find(f => f.id === r.fileId);
+          const file = batchFileObjects.current.get(r.fileId);
+          return described && file ? [{ described, file }] : [];
+        });
+        const files = members.map(m => m.described);
+        saved = await createSession(defaultName, files, groupData);
+        await saveSourceFiles(members.map(m => m.file), files);
+      } catch (err) {
+        console.warn("Não foi possível salvar a análise localmente", err);
+      }
+      if (!first) first = { data: groupData, session: saved };
+    }
+
+    if (groups.length > 1) refreshSessions();
+    setSession(first?.session ?? null);
+    setData(first?.data ?? null);
+    setAppState(AppState.SUCCESS);
+  };
+
+  const handleHolderSplit = async (split: boolean) => {
+    if (!pendingHolderSplit) return;
+    const { results, sourceFiles, groups } = pendingHolderSplit;
+    setPendingHolderSplit(null);
+    try {
+      await finishBatch(split ? splitResultsByHolder(results, groups) : [results], sourceFiles);
+    } catch (err: any) {
+      handleError(err);
+    }
+  };
+
+  // Interrompe as chamadas em andamento; o que já foi lido é mantido
+  const handleCancelFile = (fileId: string) => {
+    abortControllers.current.get(fileId)?.abort();
+  };
+
+  const handleCancelBatch = () => {
+    abortControllers.current.forEach(controller => controller.abort());
+  };
+
+  // Monta o lote a partir dos arquivos já identificados; planilhas passam antes pelo mapeamento de colunas
+  const startBatch = async (detected: PreparedFile[]) => {
+    const batch: BatchFile[] = detected.map(d => ({ ...d, id: createId() }));
+    const sourceFiles = await describeFiles(batch);
+    batchFileObjects.current = new Map(batch.map(({ id, file }) => [id, file]));
+    const spreadsheets = batch.filter(f => f.format === 'csv' || f.format === 'xlsx');
+    const others = batch.filter(f => f.format !== 'csv' && f.format !== 'xlsx');
+
+    if (spreadsheets.length === 0) {
+      await processFiles(others, [], sourceFiles);
+      return;
+    }
+
+    // Planilhas precisam do mapeamento de colunas antes de o lote ser processado
+    const pending = await Promise.all(spreadsheets.map(async ({ id, file, format }) => {
+      const sheet = await readSpreadsheet(file, format as 'csv' | 'xlsx');
+      return { id, file, sheet, signature: getHeaderSignature(sheet.headers) };
+    }));
+
+    setQueuedFiles(others);
+    setBatchFiles(sourceFiles);
+    setImportedSpreadsheets([]);
+    setPendingSpreadsheets(pending);
+  };
+
   const handleFileSelect = async (files: File[]) => {
     setAppState(AppState.PROCESSING);
     setError(null);
-    
+
     try {
-      // Processa todos os arquivos em paralelo
-      const promises = files.map(file => analyzeBankStatement(file));
-      const results = await Promise.all(promises);
+      const detected = await Promise.all(
+        files.map(async file => ({ file, format: await detectStatementFormat(file) }))
+      );
 
-      // Mescla os resultados
-      const mergedTransactions = results.flatMap(r => r.transactions);
-      
-      // Remove duplicatas exatas se houver (opcional, mas boa prática ao juntar arquivos)
-      // Aqui assumimos que a IA retorna dados limpos.
-      
-      // Coleta nomes únicos de bancos
-      const uniqueBanks = Array.from(new Set(results.map(r => r.bankName).filter(Boolean)));
-      const uniqueHolders = Array.from(new Set(results.map(r => r.accountHolder).filter(Boolean)));
-
-      const finalData: ExtractedData = {
-        transactions: mergedTransactions,
-        bankName: uniqueBanks.join(' + ') || 'Múltiplos Bancos',
-        accountHolder: uniqueHolders[0] || undefined // Assume o mesmo titular, ou pega o primeiro
-      };
-
-      if (mergedTransactions.length === 0) {
-         throw new Error("Nenhuma transação foi encontrada nos arquivos fornecidos.");
+      // PDFs e arquivos não reconhecidos passam pela conferência antes de qualquer leitura
+      if (detected.some(f => f.format === 'pdf' || f.format === 'unknown')) {
+        setPendingPreflight(detected);
+        return;
       }
+      await continueWithFiles(detected);
+    } catch (err: any) {
+      handleError(err);
+    }
+  };
+
+  const continueWithFiles = async (prepared: PreparedFile[]) => {
+    const photos = prepared.filter(f => f.format === 'image').map(f => f.file);
+    const others = prepared.filter(f => f.format !== 'image');
+
+    // Fotos formam um único extrato; o usuário confirma a ordem das páginas antes da leitura
+    if (photos.length > 0) {
+      setPendingPhotos({ photos, others });
+      return;
+    }
+    await startBatch(others);
+  };
+
+  const handlePreflightConfirm = async (prepared: PreparedFile[]) => {
+    setPendingPreflight(null);
+    try {
+      await continueWithFiles(prepared);
+    } catch (err: any) {
+      handleError(err);
+    }
+  };
+
+  const handlePreflightCancel = () => {
+    setPendingPreflight(null);
+    setAppState(AppState.IDLE);
+  };
+
+  const handlePhotoOrderConfirm = async (ordered: File[]) => {
+    if (!pendingPhotos) return;
+    const { others } = pendingPhotos;
+    setPendingPhotos(null);
+
+    try {
+      const statementName = `Fotos do extrato (${ordered.length} ${ordered.length === 1 ? 'página' : 'páginas'}).pdf`;
+      const statement = await buildStatementFromPhotos(ordered, statementName);
+      await startBatch([...others, { file: statement, format: 'pdf' }]);
+    } catch (err: any) {
+      handleError(err);
+    }
+  };
 
-      setData(finalData);
-      setAppState(AppState.SUCCESS);
+  const handlePhotoOrderCancel = async () => {
+    if (!pendingPhotos) return;
+    const { others } = pendingPhotos;
+    setPendingPhotos(null);
 
+    if (others.length === 0) {
+      setAppState(AppState.IDLE);
+      return;
+    }
+    try {
+      await startBatch(others);
     } catch (err: any) {
-      console.error(err);
-      setAppState(AppState.ERROR);
-      setError(err.message || "Ocorreu um erro inesperado ao processar os arquivos.");
+      handleError(err);
     }
   };
 
-  const handleReset = () => {
+  const advanceMappingQueue = (remaining: PendingSpreadsheet[], imported: FileResult[]) => {
+    setPendingSpreadsheets(remaining);
+    setImportedSpreadsheets(imported);
+    if (remaining.length === 0) {
+      processFiles(queuedFiles, imported, batchFiles);
+    }
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping, remember: boolean) => {
+    const [current, ...remaining] = pendingSpreadsheets;
+    if (remember) saveMapping(current.signature, mapping);
+
+    const result: FileResult = {
+      fileId: current.id,
+      fileName: current.file.name,
+      data: {
+        transactions: applyColumnMapping(current.sheet, mapping, current.file.name),
+        bankName: mapping.bankName || undefined
+      }
+    };
+    advanceMappingQueue(remaining, [...importedSpreadsheets, result]);
+  };
+
+  const handleMappingSkip = () => {
+    advanceMappingQueue(pendingSpreadsheets.slice(1), importedSpreadsheets);
+  };
+
+  const currentSpreadsheet = pendingSpreadsheets[0];
+  const savedMapping = currentSpreadsheet && loadSavedMapping(currentSpreadsheet.signature);
+
+  const handleReset = async () => {
+    // A última alteração do painel é gravada antes de sair, e a lista de análises já a mostra
+    const flushing = flushAutosave();
+    batchFileObjects.current = new Map();
     setAppState(AppState.IDLE);
     setData(null);
+    setSession(null);
+    setError(null);
+    await flushing;
+    refreshSessions();
+  };
+
+  const handleSaveExtractionSettings = (settings: ExtractionSettings) => {
+    saveExtractionSettings(settings);
+    setExtractionSettings(settings);
+    setIsExtractionSettingsOpen(false);
+  };
+
+  // --- Sessões ---
+  // Grava agora a alteração pendente, se houver; devolve a sessão salva
+  const flushAutosave = async () => {
+    window.clearTimeout(autosaveTimer.current);
+    const pending = pendingAutosave.current;
+    pendingAutosave.current = undefined;
+    if (!pending) return undefined;
+    try {
+      return await saveSession(pending);
+    } catch (err) {
+      console.warn("Não foi possível salvar as alterações", err);
+      return undefined;
+    }
+  };
+
+  const handleDashboardChange = (state: DashboardState) => {
+    if (!session) return;
+    pendingAutosave.current = { ...session, dashboardState: state };
+    window.clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = window.setTimeout(async () => {
+      const saved = await flushAutosave();
+      // Só atualiza se a análise ainda estiver aberta (ex: não houve "Carregar Novo" durante a gravação)
+      if (saved) setSession(current => (current?.id === saved.id ? saved : current));
+    }, AUTOSAVE_DELAY_MS);
+  };
+
+  const handleOpenSession = (saved: AnalysisSession) => {
+    batchFileObjects.current = new Map();
+    setSession(saved);
+    setData(saved.data);
     setError(null);
+    setAppState(AppState.SUCCESS);
+  };
+
+  // Análise exportada em JSON: volta como uma nova sessão, com edições, regras e filtros
+  const handleImportSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const snapshot = parseSessionFile(await file.text());
+      let imported = buildImportedSession(snapshot.name, snapshot.files, snapshot.data, snapshot.state);
+      try {
+        imported = await saveSession(imported);
+        refreshSessions();
+      } catch (err) {
+        console.warn("Não foi possível salvar a análise importada localmente", err);
+      }
+      handleOpenSession(imported);
+    } catch (err: any) {
+      handleError(err);
+    }
+  };
+
+  // Arquivo original para o "ver origem": lote atual em memória ou cópia guardada com a análise
+  // Análises antigas não guardam o id dos arquivos e seguem pelo nome
+  const handleLoadSourceFile = async (source: SourceFileRef): Promise<Blob | undefined> => {
+    const inMemory = source.fileId ? batchFileObjects.current.get(source.fileId) : undefined;
+    if (inMemory) return inMemory;
+    const described = session?.files.find(f => (f.id && source.fileId ? f.id === source.fileId : f.name === source.fileName));
+    return described ? getSourceFile(described.hash) : undefined;
+  };
+
+  // Nova leitura só das páginas que falharam; o Dashboard incorpora o que vier
+  const handleRetryFailedPages = async (failure: FailedPageRange): Promise<{ transactions: Transaction[]; failedPages: FailedPageRange[] }> => {
+    const blob = await handleLoadSourceFile(failure);
+    if (!blob) throw new Error(`O arquivo ${failure.fileName} não está mais disponível. Envie-o novamente.`);
+
+    const file = blob instanceof File ? blob : new File([blob], failure.fileName);
+    // As linhas lidas de novo continuam sendo do mesmo arquivo; análises antigas não guardam o id
+    // e identificam o arquivo pelo nome, como getSourceFileKey
+    const fileId = failure.fileId ?? failure.fileName;
+    const provider = getExtractionProvider(extractionSettings);
+    let result: FileResult;
+    if (failure.pageStart !== undefined && failure.pageEnd !== undefined) {
+      const pages = Array.from({ length: failure.pageEnd - failure.pageStart + 1 }, (_, i) => failure.pageStart! + i);
+      result = { fileId, fileName: file.name, data: await analyzeBankStatement(file, provider, { pageNumbers: pages }) };
+    } else {
+      result = await analyzeFileSafely(file, fileId, await detectStatementFormat(file), provider);
+    }
+    return { transactions: prepareTransactions([result]), failedPages: getFailedPages(result) };
+  };
+
+  const handleRenameSession = async (saved: AnalysisSession, name: string) => {
+    await renameSession(saved.id, name);
+    refreshSessions();
+  };
+
+  const handleDuplicateSession = async (saved: AnalysisSession) => {
+    await duplicateSession(saved.id);
+    refreshSessions();
+  };
+
+  const handleDeleteSession = async (saved: AnalysisSession) => {
+    if (confirm(`Excluir a análise "${saved.name}"? As edições feitas nela serão perdidas.`)) {
+      await deleteSession(saved.id);
+      refreshSessions();
+    }
   };
 
   return (
@@ -76,18 +624,117 @@ const App: React.FC = () => {
               isProcessing={appState === AppState.PROCESSING} 
               error={error}
             />
+
+            {appState === AppState.PROCESSING && progress && (
+              <div className="mt-6 w-full">
+                <ExtractionProgressPanel
+                  progress={progress}
+                  onCancelFile={handleCancelFile}
+                  onCancelAll={handleCancelBatch}
+                />
+              </div>
+            )}
             
+            {appState !== AppState.PROCESSING && (
+              <button
+                onClick={() => setIsExtractionSettingsOpen(true)}
+                className="mt-4 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+              >
+                Leitura de PDFs: <strong>{PROVIDER_OPTIONS.find(o => o.id === extractionSettings.providerId)?.name}</strong> • Alterar
+              </button>
+            )}
+
+            {appState !== AppState.PROCESSING && (
+              <>
+                <button
+                  onClick={() => sessionImportInput.current?.click()}
+                  className="mt-2 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+                >
+                  Importar análise exportada (JSON)
+                </button>
+                <input ref={sessionImportInput} type="file" accept=".json,application/json" className="hidden" onChange={handleImportSession} />
+              </>
+            )}
+
             {/* Security Note */}
             <div className="mt-12 max-w-md text-center">
                 <p className="text-xs text-slate-400">
-                    🔒 Seus dados são processados de forma segura. Não armazenamos seus extratos bancários após a análise.
+                    🔒 Seus dados são processados de forma segura. Não armazenamos seus extratos bancários: as análises ficam salvas apenas neste navegador.
                 </p>
             </div>
+
+            {appState !== AppState.PROCESSING && sessions.length > 0 && (
+              <SessionList
+                sessions={sessions}
+                onOpen={handleOpenSession}
+                onRename={handleRenameSession}
+                onDuplicate={handleDuplicateSession}
+                onDelete={handleDeleteSession}
+              />
+            )}
           </div>
         ) : (
-            data && <Dashboard data={data} onReset={handleReset} />
+            data && (
+              <Dashboard
+                key={session?.id}
+                data={data}
+                savedState={session?.dashboardState}
+                onStateChange={handleDashboardChange}
+                onLoadSourceFile={handleLoadSourceFile}
+                onRetryFailedPages={handleRetryFailedPages}
+                sessionInfo={session ? { name: session.name, files: session.files } : undefined}
+                onReset={handleReset}
+              />
+            )
         )}
       </main>
+
+      {isExtractionSettingsOpen && (
+        <ExtractionSettingsModal
+          settings={extractionSettings}
+          onSave={handleSaveExtractionSettings}
+          onClose={() => setIsExtractionSettingsOpen(false)}
+        />
+      )}
+
+      {pendingPreflight && (
+        <UploadPreflightModal
+          files={pendingPreflight}
+          pagesPerChunk={getExtractionProvider(extractionSettings).pagesPerChunk}
+          usesCloud={!!PROVIDER_OPTIONS.find(o => o.id === extractionSettings.providerId)?.sendsDataToCloud}
+          onConfirm={handlePreflightConfirm}
+          onCancel={handlePreflightCancel}
+        />
+      )}
+
+      {pendingHolderSplit && (
+        <HolderSplitModal
+          groups={pendingHolderSplit.groups}
+          files={pendingHolderSplit.results.map(r => ({ id: r.fileId, name: r.fileName }))}
+          onKeepTogether={() => handleHolderSplit(false)}
+          onSplit={() => handleHolderSplit(true)}
+        />
+      )}
+
+      {pendingPhotos && (
+        <PhotoOrderModal
+          photos={pendingPhotos.photos}
+          onConfirm={handlePhotoOrderConfirm}
+          onCancel={handlePhotoOrderCancel}
+        />
+      )}
+
+      {currentSpreadsheet && (
+        <ColumnMappingWizard
+          key={currentSpreadsheet.id}
+          fileName={currentSpreadsheet.file.name}
+          sheet={currentSpreadsheet.sheet}
+          initialMapping={savedMapping || guessColumnMapping(currentSpreadsheet.sheet.headers)}
+          hasSavedMapping={!!savedMapping}
+          onConfirm={handleMappingConfirm}
+          onSkip={handleMappingSkip}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { AnalysisMode, GlobalStats } from '../types';
+import { AccountInfo } from '../services/accountService';
+import { formatCurrency } from '../utils/formatters';
+
+export interface AccountBreakdown {
+  account: AccountInfo;
+  stats: GlobalStats;
+  transactionCount: number;
+  color: string;
+}
+
+interface AccountBreakdownPanelProps {
+  breakdown: AccountBreakdown[];
+  mode: AnalysisMode;
+  selectedKey: string; // 'all' = todas as contas
+  onSelect: (key: string) => void;
+}
+
+const AccountBreakdownPanel: React.FC<AccountBreakdownPanelProps> = ({ breakdown, mode, selectedKey, onSelect }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center gap-2">
+        <Landmark className="w-5 h-5 text-slate-500" />
+        <h3 className="text-lg font-semibold text-slate-800">Por Conta</h3>
+      </div>
+      {selectedKey !== 'all' && (
+        <button onClick={() => onSelect('all')} className="text-xs text-indigo-600 hover:underline">
+          Ver todas as contas
+        </button>
+      )}
+    </div>
+
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+            <th className="py-2 pr-4 font-medium">Conta</th>
+            {mode !== 'expense' && <th className="py-2 pr-4 font-medium text-right">Média mensal (receita)</th>}
+            {mode !== 'expense' && <th className="py-2 pr-4 font-medium text-right">Total recebido</th>}
+            {mode !== 'income' && <th className="py-2 pr-4 font-medium text-right">Média mensal (despesa)</th>}
+            {mode !== 'income' && <th className="py-2 pr-4 font-medium text-right">Total gasto</th>}
+            <th className="py-2 font-medium text-right">Lançamentos</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {breakdown.map(({ account, stats, transactionCount, color }) => (
+            <tr
+              key={account.key}
+              onClick={() => onSelect(account.key)}
+              className={`cursor-pointer transition-colors ${selectedKey === account.key ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}
+            >
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+                  <div>
+                    <p className="font-medium text-slate-800">{account.label}</p>
+                    {account.accountHolder && <p className="text-xs text-slate-500">{account.accountHolder}</p>}
+                  </div>
+                </div>
+              </td>
+              {mode !== 'expense' && <td className="py-2 pr-4 text-right text-emerald-600">{formatCurrency(stats.averageMonthlyIncome)}</td>}
+              {mode !== 'expense' && <td className="py-2 pr-4 text-right text-slate-700">{formatCurrency(stats.totalIncome)}</td>}
+              {mode !== 'income' && <td className="py-2 pr-4 text-right text-red-600">{formatCurrency(stats.averageMonthlyExpense)}</td>}
+              {mode !== 'income' && <td className="py-2 pr-4 text-right text-slate-700">{formatCurrency(stats.totalExpense)}</td>}
+              <td className="py-2 text-right text-slate-500">{transactionCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default AccountBreakdownPanel;
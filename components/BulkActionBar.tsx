@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Tag, Ban, ArrowRightLeft, Trash2, X } from 'lucide-react';
+
+interface BulkActionBarProps {
+  count: number;
+  categories: string[];
+  canExcludeFromIncome: boolean; // Há entradas na seleção
+  onRecategorize: (category: string) => void;
+  onExcludeFromIncome: () => void;
+  onMarkAsTransfer: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  categories,
+  canExcludeFromIncome,
+  onRecategorize,
+  onExcludeFromIncome,
+  onMarkAsTransfer,
+  onDelete,
+  onClear
+}) => {
+  const [category, setCategory] = useState('');
+
+  const handleRecategorize = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!category.trim()) return;
+    onRecategorize(category.trim());
+    setCategory('');
+  };
+
+  return (
+    <div className="px-6 py-3 bg-indigo-50 border-b border-indigo-100 flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-indigo-800">
+        <button onClick={onClear} className="p-1 text-indigo-400 hover:text-indigo-700" title="Limpar seleção">
+          <X className="w-4 h-4" />
+        </button>
+        {count} selecionada(s)
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+        <form onSubmit={handleRecategorize} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            list="bulk-category-list"
+            placeholder="Nova categoria"
+            className="px-2 py-1.5 border border-indigo-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 w-36"
+          />
+          <datalist id="bulk-category-list">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!category.trim()}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-indigo-700 bg-white border border-indigo-200 hover:bg-indigo-100 rounded-lg disabled:opacity-50"
+          >
+            <Tag className="w-3.5 h-3.5" />
+            Recategorizar
+          </button>
+        </form>
+        {canExcludeFromIncome && (
+          <button
+            onClick={onExcludeFromIncome}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-orange-700 bg-white border border-orange-200 hover:bg-orange-50 rounded-lg"
+            title="As entradas selecionadas ficam fora das receitas e do comprovante de renda"
+          >
+            <Ban className="w-3.5 h-3.5" />
+            Excluir da renda
+          </button>
+        )}
+        <button
+          onClick={onMarkAsTransfer}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg"
+          title="Transferências entre contas próprias não são receita nem despesa"
+        >
+          <ArrowRightLeft className="w-3.5 h-3.5" />
+          Marcar como transferência
+        </button>
+        <button
+          onClick={onDelete}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-200 hover:bg-red-50 rounded-lg"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Excluir
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
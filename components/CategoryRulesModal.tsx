@@ -0,0 +1,362 @@
+import React, { useRef, useState } from 'react';
+import { Wand2, X, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Upload, Download, Save } from 'lucide-react';
+import { AmountSign, CategoryRule, Transaction } from '../types';
+import {
+  countRuleMatches,
+  exportRules,
+  isValidRegex,
+  mergeImportedRules,
+  parseRulesFile,
+  sortRules
+} from '../services/categoryRulesService';
+import { createId } from '../utils/id';
+import { downloadFile } from '../utils/download';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface CategoryRulesModalProps {
+  rules: CategoryRule[];
+  transactions: Transaction[];
+  categories: string[];
+  // Regra pré-preenchida a partir de uma linha da tabela
+  initialDraft?: CategoryRule | null;
+  onChange: (rules: CategoryRule[]) => void;
+  onClose: () => void;
+}
+
+const SIGN_LABELS: Record<AmountSign, string> = {
+  any: 'Entradas e saídas',
+  positive: 'Somente entradas',
+  negative: 'Somente saídas'
+};
+
+const describeRule = (rule: CategoryRule) => {
+  const { match } = rule;
+  const parts: string[] = [];
+  if (match.descriptionText) parts.push(`contém "${match.descriptionText}"`);
+  if (match.descriptionRegex) parts.push(`regex /${match.descriptionRegex}/`);
+  if (match.sign !== 'any') parts.push(SIGN_LABELS[match.sign].toLowerCase());
+  if (match.minAmount !== undefined) parts.push(`≥ ${formatCurrency(match.minAmount)}`);
+  if (match.maxAmount !== undefined) parts.push(`≤ ${formatCurrency(match.maxAmount)}`);
+  if (match.bank) parts.push(`banco ${match.bank}`);
+  if (match.dateFrom) parts.push(`de ${formatDate(match.dateFrom)}`);
+  if (match.dateTo) parts.push(`até ${formatDate(match.dateTo)}`);
+  return parts.join(' • ') || 'todas as transações';
+};
+
+const emptyRule = (priority: number): CategoryRule => ({
+  id: createId(),
+  name: '',
+  priority,
+  enabled: true,
+  match: { sign: 'any' },
+  category: ''
+});
+
+const parseOptionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+const CategoryRulesModal: React.FC<CategoryRulesModalProps> = ({
+  rules, transactions, categories, initialDraft, onChange, onClose
+}) => {
+  const [draft, setDraft] = useState<CategoryRule | null>(initialDraft ?? null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sortedRules = sortRules(rules);
+
+  const renumber = (list: CategoryRule[]) => list.map((r, idx) => ({ ...r, priority: idx + 1 }));
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sortedRules.length) return;
+    const reordered = [...sortedRules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(renumber(reordered));
+  };
+
+  const handleToggle = (rule: CategoryRule) => {
+    onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)));
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    if (confirm(`Excluir a regra "${rule.name}"? As transações voltam à categoria original.`)) {
+      onChange(renumber(sortedRules.filter(r => r.id !== rule.id)));
+    }
+  };
+
+  const handleSaveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const named = { ...draft, name: draft.name.trim() || draft.category };
+    const exists = rules.some(r => r.id === named.id);
+    onChange(exists ? rules.map(r => (r.id === named.id ? named : r)) : [...rules, named]);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadFile('regras_categorizacao.json', exportRules(rules), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRulesFile(await file.text());
+      onChange(mergeImportedRules(rules, imported));
+      alert(`${imported.length} regra(s) importada(s).`);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const updateMatch = (changes: Partial<CategoryRule['match']>) => {
+    if (draft) setDraft({ ...draft, match: { ...draft.match, ...changes } });
+  };
+
+  const regexInvalid = !!draft?.match.descriptionRegex && !isValidRegex(draft.match.descriptionRegex);
+  const draftMatches = draft && !regexInvalid ? countRuleMatches(draft, transactions) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-slate-500" />
+            <h3 className="text-lg font-semibold text-slate-800">Regras de Categorização</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSaveDraft} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Nome da regra</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Ex: Salário Empresa X"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Tipo</label>
+                <select
+                  value={draft.match.sign}
+                  onChange={(e) => updateMatch({ sign: e.target.value as AmountSign })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {(Object.keys(SIGN_LABELS) as AmountSign[]).map(sign => (
+                    <option key={sign} value={sign}>{SIGN_LABELS[sign]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Descrição contém</label>
+                <input
+                  type="text"
+                  value={draft.match.descriptionText || ''}
+                  onChange={(e) => updateMatch({ descriptionText: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">ou Expressão regular</label>
+                <input
+                  type="text"
+                  value={draft.match.descriptionRegex || ''}
+                  onChange={(e) => updateMatch({ descriptionRegex: e.target.value || undefined })}
+                  className={`w-full px-3 py-2 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500 ${regexInvalid ? 'border-red-400' : 'border-slate-300'}`}
+                  placeholder="^pix recebido.*silva"
+                />
+                {regexInvalid && <p className="text-xs text-red-600 mt-1">Expressão regular inválida.</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Valor mínimo</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.match.minAmount ?? ''}
+                  onChange={(e) => updateMatch({ minAmount: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Valor máximo</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.match.maxAmount ?? ''}
+                  onChange={(e) => updateMatch({ maxAmount: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Banco</label>
+                <input
+                  type="text"
+                  value={draft.match.bank || ''}
+                  onChange={(e) => updateMatch({ bank: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Ex: Nubank"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">A partir de</label>
+                <input
+                  type="date"
+                  value={draft.match.dateFrom || ''}
+                  onChange={(e) => updateMatch({ dateFrom: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Até</label>
+                <input
+                  type="date"
+                  value={draft.match.dateTo || ''}
+                  onChange={(e) => updateMatch({ dateTo: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 pt-2 border-t border-slate-100">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Categorizar como</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  list="rule-category-list"
+                />
+                <datalist id="rule-category-list">
+                  {categories.map(c => <option key={c} value={c} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Etiqueta de pagador (opcional)</label>
+                <input
+                  type="text"
+                  value={draft.payerTag || ''}
+                  onChange={(e) => setDraft({ ...draft, payerTag: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Ex: Empregador"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+              Esta regra afeta <strong>{draftMatches}</strong> transação(ões) desta análise
+              (regras com prioridade maior podem prevalecer).
+            </p>
+
+            <div className="pt-2 flex gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={regexInvalid}
+                className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-medium flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Salvar Regra
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6">
+            <p className="text-sm text-slate-500 mb-4">
+              Regras são avaliadas em ordem de prioridade e a primeira que casar define a categoria,
+              substituindo a sugerida pela IA. Categorias editadas manualmente não são alteradas.
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={() => setDraft(emptyRule(rules.length + 1))}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg"
+              >
+                <Plus className="w-4 h-4" />
+                Nova regra
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg"
+              >
+                <Upload className="w-4 h-4" />
+                Importar JSON
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={rules.length === 0}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-lg"
+              >
+                <Download className="w-4 h-4" />
+                Exportar JSON
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+              {sortedRules.map((rule, idx) => (
+                <div key={rule.id} className={`p-3 flex items-center gap-3 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <div className="flex flex-col">
+                    <button onClick={() => handleMove(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Aumentar prioridade">
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => handleMove(idx, 1)} disabled={idx === sortedRules.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Diminuir prioridade">
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} title="Ativar/desativar" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800 truncate">
+                      {rule.name} <span className="text-slate-400">→</span> <span className="text-indigo-700">{rule.category}</span>
+                      {rule.payerTag && <span className="ml-2 text-xs text-slate-500">[{rule.payerTag}]</span>}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">{describeRule(rule)}</p>
+                  </div>
+                  <span className="text-xs text-slate-500 bg-slate-50 px-2 py-0.5 rounded-full border border-slate-100 whitespace-nowrap">
+                    {countRuleMatches(rule, transactions)} transações
+                  </span>
+                  <button onClick={() => setDraft(rule)} className="p-1 text-slate-400 hover:text-indigo-600" title="Editar">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(rule)} className="p-1 text-slate-400 hover:text-red-600" title="Excluir">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {rules.length === 0 && (
+                <p className="text-xs text-slate-400 p-6 italic text-center">
+                  Nenhuma regra criada. Use "Sempre categorizar assim" em uma linha da tabela ou crie uma nova regra.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryRulesModal;
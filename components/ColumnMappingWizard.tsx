@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, Check, Bookmark } from 'lucide-react';
+import { ColumnMapping, SpreadsheetData } from '../types';
+import { applyColumnMapping, isMappingComplete } from '../services/spreadsheetService';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  sheet: SpreadsheetData;
+  initialMapping: ColumnMapping;
+  hasSavedMapping: boolean;
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+  onSkip: () => void;
+}
+
+type ColumnField = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'category';
+
+const FIELDS: { key: ColumnField; label: string; required?: boolean }[] = [
+  { key: 'date', label: 'Data', required: true },
+  { key: 'description', label: 'Descrição', required: true },
+  { key: 'amount', label: 'Valor (coluna única)' },
+  { key: 'debit', label: 'Débito / Saída' },
+  { key: 'credit', label: 'Crédito / Entrada' },
+  { key: 'category', label: 'Categoria' }
+];
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName, sheet, initialMapping, hasSavedMapping, onConfirm, onSkip
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [remember, setRemember] = useState(true);
+
+  const preview = useMemo(
+    () => (isMappingComplete(mapping) ? applyColumnMapping(sheet, mapping) : []),
+    [sheet, mapping]
+  );
+
+  const updateField = (key: ColumnField, value: number) => {
+    setMapping({ ...mapping, [key]: value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-slate-500" />
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800">Mapear Colunas da Planilha</h3>
+              <p className="text-xs text-slate-500">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onSkip} className="text-slate-400 hover:text-slate-600" title="Pular arquivo">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          {hasSavedMapping && (
+            <p className="flex items-center gap-2 text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 px-3 py-2 rounded-lg">
+              <Bookmark className="w-3.5 h-3.5" />
+              Mapeamento salvo encontrado para este layout. Confira a prévia e importe.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  {field.label}{field.required && ' *'}
+                </label>
+                <select
+                  value={mapping[field.key]}
+                  onChange={(e) => updateField(field.key, parseInt(e.target.value, 10))}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value={-1}>— Não usar —</option>
+                  {sheet.headers.map((header, idx) => (
+                    <option key={idx} value={idx}>{header}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Sinal da coluna de valor</label>
+              <select
+                value={mapping.signConvention}
+                disabled={mapping.amount < 0}
+                onChange={(e) => setMapping({ ...mapping, signConvention: e.target.value as ColumnMapping['signConvention'] })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-slate-50 disabled:text-slate-400"
+              >
+                <option value="signed">Negativo = saída (conta corrente)</option>
+                <option value="inverted">Positivo = saída (fatura de cartão)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Banco</label>
+              <input
+                type="text"
+                value={mapping.bankName || ''}
+                onChange={(e) => setMapping({ ...mapping, bankName: e.target.value })}
+                placeholder="Ex: Nubank"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 mb-2">
+              Prévia {isMappingComplete(mapping) && `(${preview.length} transações reconhecidas)`}
+            </h4>
+            <div className="border border-slate-100 rounded-lg overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2">Data</th>
+                    <th className="px-3 py-2">Descrição</th>
+                    <th className="px-3 py-2">Categoria</th>
+                    <th className="px-3 py-2 text-right">Valor</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.slice(0, PREVIEW_ROWS).map((t, idx) => (
+                    <tr key={idx}>
+                      <td className="px-3 py-2 font-mono text-slate-600">{formatDate(t.date)}</td>
+                      <td className="px-3 py-2 text-slate-800">{t.description}</td>
+                      <td className="px-3 py-2 text-slate-500">{t.category}</td>
+                      <td className={`px-3 py-2 text-right font-semibold ${t.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {formatCurrency(t.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                  {preview.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-slate-400">
+                        Selecione as colunas de data, descrição e valor para ver a prévia.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+            Lembrar este mapeamento para planilhas com as mesmas colunas
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex gap-3">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+          >
+            Pular arquivo
+          </button>
+          <button
+            type="button"
+            disabled={preview.length === 0}
+            onClick={() => onConfirm(mapping, remember)}
+            className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium flex items-center justify-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            Importar {preview.length} transações
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
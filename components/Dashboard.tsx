@@ -1,123 +1,413 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import { ExtractedData, MonthlyStats, GlobalStats, Transaction } from '../types';
-import { ArrowUpCircle, Calendar, Search, Filter, Download, Plus, Pencil, Trash2, X, Save, Settings, RotateCcw } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import html2canvas from 'html2canvas';
-
-// Lista padrão de termos para exclusão automática
-const DEFAULT_IGNORED_TERMS = [
-  // Jogos e Apostas
-  'bet', 'bet365', 'blaze', 'sportingbet', 'pagsmile', 'cassino', 'casino', 
-  'aposta', 'jogo', 'play', 'steam', 'google play', 'apple.com/bill', 
-  'stake', 'tigrinho', 'pagseguro internet', 'adyen', 'smartpay',
-  
-  // Clientes / Vendas / Próprios (Conforme solicitado)
-  'recebimento de venda', 'venda'
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { AnalysisMode, CategoryRule, EditableField, IncomeMetric, PeriodSelection, DashboardFilters, DashboardState, SavedView, SortField, TableFilters, ExclusionRule, ExtractedData, FailedPageRange, SessionFile, SourceFileRef, Transaction, TransferDecision } from '../types';
+import { ArrowUpCircle, ArrowDownCircle, Calendar, Search, Filter, Download, Plus, Trash2, X, Save, Settings, Wallet, Wand2, Repeat, FileSearch, ScanLine, CheckCircle2, FileCheck, FileOutput, AlertTriangle, Undo2, Redo2, RotateCcw, SlidersHorizontal, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { ComposedChart, Bar, Cell, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import ReconciliationPanel from './ReconciliationPanel';
+import DuplicateReviewPanel from './DuplicateReviewPanel';
+import TransferReviewPanel from './TransferReviewPanel';
+import FailedPagesPanel from './FailedPagesPanel';
+import CategoryRulesModal from './CategoryRulesModal';
+import ExclusionRulesModal from './ExclusionRulesModal';
+import SourceViewerModal from './SourceViewerModal';
+import ExportModal, { ExportScope } from './ExportModal';
+import AccountBreakdownPanel, { AccountBreakdown } from './AccountBreakdownPanel';
+import IncomeSourcesPanel from './IncomeSourcesPanel';
+import PeriodPicker from './PeriodPicker';
+import InlineEditCell from './InlineEditCell';
+import BulkActionBar from './BulkActionBar';
+import TableFiltersPanel from './TableFiltersPanel';
+import SavedViewsMenu from './SavedViewsMenu';
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicateGroup, findDuplicateGroups } from '../services/deduplicationService';
+import { AnalysisOptions, computeAnalysis, getExclusionReason, getIncomeByMetric, getMonthKey, INCOME_METRIC_LABELS } from '../services/analysisService';
+import { computeAccountMonths, getAccountKey, listAccounts } from '../services/accountService';
+import { computeRecurringIncome, detectIncomeSources } from '../services/incomeSourceService';
+import { DEFAULT_PERIOD_SELECTION, describePartialHandling, describePeriod, findPartialMonths, getDataRange, listYears, resolvePeriod } from '../services/periodService';
+import { buildIncomeReport, renderIncomeReportPdf } from '../services/incomeReportService';
+import { renderAnalysisReportPdf } from '../services/reportPdfService';
+import { CsvOptions, ExportFormat, EXPORT_MIME_TYPES, exportCsv, exportOfx, exportSessionJson, ExportTable, exportXlsx } from '../services/exportService';
+import { downloadFile } from '../utils/download';
+import { findInternalTransfers, TransferMatch } from '../services/transferService';
+import { getDefaultExclusionRules, migrateIgnoredTerms } from '../services/exclusionService';
+import { EDITABLE_FIELD_LABELS, loadReviewerName, needsReadingReview, saveReviewerName } from '../services/auditService';
+import {
+  clearManualMarks,
+  confirmReadings,
+  editField,
+  ensureTransactionIds,
+  excludeFromIncome,
+  markAsTransfer,
+  recategorize,
+  removeTransactions
+} from '../services/transactionEditService';
+import { parseBrazilianNumber } from '../services/spreadsheetService';
+import {
+  countAdvancedFilters,
+  DEFAULT_TABLE_FILTERS,
+  describeFilters,
+  filterTransactions,
+  findActiveView,
+  loadSavedViews,
+  nextSort,
+  QUERY_SYNTAX_HELP,
+  saveSavedViews,
+  upsertView
+} from '../services/tableQueryService';
+import { applyCategoryRules, createRuleFromTransaction, loadRules, saveRules } from '../services/categoryRulesService';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { createId } from '../utils/id';
+import { createHistory, mapHistory, recordChange, redoChange, undoChange, UndoHistory } from '../utils/history';
+import { useVirtualRows } from '../utils/virtualRows';
+
+// Textos que mudam conforme o modo de análise
+const MODE_LABELS: Record<AnalysisMode, {
+  tab: string;
+  title: string;
+  reportTitle: string;
+  chartTitle: string;
+  tableTitle: string;
+  emptyMessage: string;
+  fileName: string;
+}> = {
+  income: {
+    tab: 'Receitas',
+    title: 'Resumo de Receitas',
+    reportTitle: 'Relatório de Receitas - ExtratoAI Pro',
+    chartTitle: 'Fluxo Mensal (Entradas Filtradas)',
+    tableTitle: 'Detalhamento das Entradas',
+    emptyMessage: 'Nenhuma transação de entrada encontrada (filtros aplicados).',
+    fileName: 'relatorio_receitas_ai.pdf'
+  },
+  expense: {
+    tab: 'Despesas',
+    title: 'Resumo de Despesas',
+    reportTitle: 'Relatório de Despesas - ExtratoAI Pro',
+    chartTitle: 'Fluxo Mensal (Saídas)',
+    tableTitle: 'Detalhamento das Saídas',
+    emptyMessage: 'Nenhuma transação de saída encontrada (filtros aplicados).',
+    fileName: 'relatorio_despesas_ai.pdf'
+  },
+  full: {
+    tab: 'Fluxo completo',
+    title: 'Fluxo de Caixa',
+    reportTitle: 'Relatório de Fluxo de Caixa - ExtratoAI Pro',
+    chartTitle: 'Fluxo Mensal (Entradas x Saídas)',
+    tableTitle: 'Detalhamento das Transações',
+    emptyMessage: 'Nenhuma transação encontrada (filtros aplicados).',
+    fileName: 'relatorio_fluxo_caixa_ai.pdf'
+  }
+};
+
+// Uma cor por conta de origem, na tabela por conta e nas barras empilhadas
+const ACCOUNT_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#0ea5e9', '#ec4899', '#8b5cf6', '#14b8a6', '#f97316'];
+
+// Altura estimada de uma linha da tabela (px) para a renderização virtualizada
+const TABLE_ROW_HEIGHT = 53;
+
+const TABLE_COLUMNS: { field: SortField; label: string; align?: 'right' }[] = [
+  { field: 'date', label: 'Data' },
+  { field: 'description', label: 'Descrição' },
+  { field: 'category', label: 'Categoria' },
+  { field: 'amount', label: 'Valor', align: 'right' }
 ];
 
 interface DashboardProps {
   data: ExtractedData;
+  // Edições de uma sessão salva, restauradas ao reabrir a análise
+  savedState?: DashboardState;
+  onStateChange?: (state: DashboardState) => void;
+  // Recupera o arquivo original para o "ver origem"
+  onLoadSourceFile?: (source: SourceFileRef) => Promise<Blob | undefined>;
+  // Lê de novo as páginas que falharam na extração
+  onRetryFailedPages?: (failure: FailedPageRange) => Promise<{ transactions: Transaction[]; failedPages: FailedPageRange[] }>;
+  // Nome e arquivos da análise salva, levados na exportação em JSON
+  sessionInfo?: { name: string; files: SessionFile[] };
   onReset: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
-  // Estado local para permitir edição das transações
-  const [localTransactions, setLocalTransactions] = useState<Transaction[]>(data.transactions);
+const Dashboard: React.FC<DashboardProps> = ({ data, savedState, onStateChange, onLoadSourceFile, onRetryFailedPages, sessionInfo, onReset }) => {
+  // Regras de categorização (globais, salvas no navegador)
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(loadRules);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [ruleDraft, setRuleDraft] = useState<CategoryRule | null>(null);
+
+  // Estado local para permitir edição das transações; as regras já entram na abertura, que não é uma edição
+  const [localTransactions, setLocalTransactions] = useState<Transaction[]>(
+    () => applyCategoryRules(ensureTransactionIds(savedState?.transactions ?? data.transactions), categoryRules)
+  );
+  // Desfazer/refazer das edições na tabela (não é salvo com a sessão)
+  const [history, setHistory] = useState<UndoHistory<Transaction[]>>(createHistory);
+  // Linhas marcadas para as ações em lote, por id
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   
-  // Estado para os termos ignorados (Filtro Editável)
-  const [ignoredTerms, setIgnoredTerms] = useState<string[]>(DEFAULT_IGNORED_TERMS);
+  // Regras de exclusão de entradas (Filtro Editável)
+  // Sessões antigas guardavam uma lista de termos; convertemos para regras na abertura
+  const [exclusionRules, setExclusionRules] = useState<ExclusionRule[]>(() =>
+    savedState?.exclusionRules
+      ?? (savedState?.ignoredTerms ? migrateIgnoredTerms(savedState.ignoredTerms) : getDefaultExclusionRules())
+  );
   
-  // Sincroniza se a prop data mudar (ex: novo upload)
+  // Revisão de duplicatas: tolerância de datas e grupos que o usuário confirmou serem distintos
+  const [duplicateTolerance, setDuplicateTolerance] = useState(DEFAULT_DUPLICATE_OPTIONS.dateToleranceDays);
+  const [keptDuplicateGroups, setKeptDuplicateGroups] = useState<string[]>(savedState?.keptDuplicateGroups ?? []);
+
+  // Transferências entre contas próprias confirmadas ou rejeitadas pelo usuário
+  const [transferDecisions, setTransferDecisions] = useState<Record<string, TransferDecision>>(savedState?.transferDecisions ?? {});
+
+  // Páginas que a extração não leu e as que estão sendo lidas de novo
+  const [failedPages, setFailedPages] = useState<FailedPageRange[]>(savedState?.failedPages ?? data.failedPages ?? []);
+  const [retryingPages, setRetryingPages] = useState<FailedPageRange[]>([]);
+
+  // Modo de análise: apenas receitas (padrão, comprovação de renda), apenas despesas ou fluxo completo
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(savedState?.analysisMode ?? 'income');
+  const labels = MODE_LABELS[analysisMode];
+  // Métrica exibida como "Renda Apurada" (média, mediana, média aparada ou sem meses atípicos)
+  const [incomeMetric, setIncomeMetric] = useState<IncomeMetric>(savedState?.incomeMetric ?? 'mean');
+  // Período analisado (atalhos ou datas livres) e tratamento dos meses parciais nas bordas
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>(savedState?.period ?? DEFAULT_PERIOD_SELECTION);
+
+  // Busca, filtros e ordenação da tabela (restaurados com a sessão)
+  const [tableFilters, setTableFilters] = useState<TableFilters>(() => {
+    const { accountKey, ...filters }: DashboardFilters = savedState?.filters ?? DEFAULT_TABLE_FILTERS;
+    return filters;
+  });
+  const { searchTerm, categoryFilter, showReadingReview } = tableFilters;
+  const updateFilters = (changes: Partial<TableFilters>) => setTableFilters(prev => ({ ...prev, ...changes }));
+  const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+  // Combinações de filtros com nome (globais, salvas no navegador)
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
+  // Conta de origem em análise quando o lote junta extratos de várias contas ou titulares
+  const [accountFilter, setAccountFilter] = useState<string>(savedState?.filters?.accountKey ?? 'all');
+
+  // Sincroniza se a prop data mudar (ex: novo upload); os dados da abertura já estão no estado inicial
+  const loadedData = useRef(data);
   useEffect(() => {
-    setLocalTransactions(data.transactions);
+    if (data === loadedData.current) return;
+    loadedData.current = data;
+    setLocalTransactions(ensureTransactionIds(savedState?.transactions ?? data.transactions));
+    setHistory(createHistory());
+    setSelectedIds(new Set());
+    setKeptDuplicateGroups(savedState?.keptDuplicateGroups ?? []);
+    setTransferDecisions(savedState?.transferDecisions ?? {});
+    setFailedPages(savedState?.failedPages ?? data.failedPages ?? []);
   }, [data]);
 
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState<string>('Todas');
+  const getDashboardState = (): DashboardState => ({
+    transactions: localTransactions,
+    exclusionRules,
+    keptDuplicateGroups,
+    analysisMode,
+    transferDecisions,
+    failedPages,
+    filters: { ...tableFilters, accountKey: accountFilter === 'all' ? undefined : accountFilter },
+    incomeMetric,
+    period: periodSelection
+  });
+
+  // Notifica o App para persistir as edições na sessão (a montagem inicial não é uma edição)
+  const hasMounted = useRef(false);
+  useEffect(() => {
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      return;
+    }
+    onStateChange?.(getDashboardState());
+  }, [localTransactions, exclusionRules, keptDuplicateGroups, analysisMode, transferDecisions, failedPages, tableFilters, accountFilter, incomeMetric, periodSelection]);
+
+  // Reaplica as regras quando são criadas, editadas, reordenadas ou importadas.
+  // Sem mudança de categoria a lista continua a mesma e nada é notificado (ex: na montagem)
+  useEffect(() => {
+    saveRules(categoryRules);
+    setLocalTransactions(prev => applyCategoryRules(prev, categoryRules));
+  }, [categoryRules]);
 
   // Modal States
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [editingIndex, setEditingIndex] = useState<number | null>(null); // null = creating
+  const [formIsExpense, setFormIsExpense] = useState(false);
+  const [reviewerName, setReviewerName] = useState(loadReviewerName);
+  const [sourceTransaction, setSourceTransaction] = useState<Transaction | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [formData, setFormData] = useState<Transaction>({
     date: new Date().toISOString().split('T')[0],
     description: '',
     category: 'Geral',
     amount: 0
   });
-  
-  // Estado para adicionar novo termo no modal de configurações
-  const [newFilterTerm, setNewFilterTerm] = useState('');
 
-  // --- Calculations based on localTransactions (INCOME ONLY & FILTERED) ---
-  const processedData = useMemo(() => {
-    const monthlyData: Record<string, MonthlyStats> = {};
-    let totalInc = 0;
-    
-    // 1. Filtrar apenas ENTRADAS (> 0)
-    // 2. Excluir termos proibidos (Jogos, Clientes) baseados no estado ignoredTerms
-    const incomeTransactions = localTransactions.filter(t => {
-      if (t.amount <= 0) return false;
-
-      const desc = t.description.toLowerCase();
-      // Verifica se a descrição contém algum termo proibido da lista dinâmica
-      const isIgnored = ignoredTerms.some(term => desc.includes(term.toLowerCase()));
-      
-      return !isIgnored;
-    });
-    
-    const sortedData = [...incomeTransactions].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
 
-    sortedData.forEach(t => {
-      const date = new Date(t.date);
-      // Use UTC to avoid timezone shifts
-      const monthKey = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  // --- Transferências entre contas próprias (sugeridas ficam fora dos totais até serem rejeitadas) ---
+  const transferMatches = useMemo(() => findInternalTransfers(localTransactions, {
+    names: data.accountHolders ?? (data.accountHolder ? [data.accountHolder] : []),
+    documents: data.holderDocuments ?? []
+  }), [localTransactions, data]);
 
-      if (!monthlyData[monthKey]) {
-        monthlyData[monthKey] = { month: monthKey, income: 0, expense: 0, balance: 0 };
-      }
+  const internalTransfers = useMemo(
+    () => new Set(transferMatches.filter(m => transferDecisions[m.key] !== 'rejected').flatMap(m => m.transactions)),
+    [transferMatches, transferDecisions]
+  );
+
+  // --- Contas de origem (banco + titular + agência/conta) ---
+  const accounts = useMemo(() => listAccounts(localTransactions), [localTransactions]);
+  const hasMultipleAccounts = accounts.length > 1;
+  // Uma conta salva que deixou de existir (ex: transações apagadas) volta para "todas"
+  const currentAccount = accounts.find(a => a.key === accountFilter);
+  const selectedAccount = currentAccount ? accountFilter : 'all';
+
+  const accountTransactions = useMemo(
+    () => selectedAccount === 'all' ? localTransactions : localTransactions.filter(t => getAccountKey(t) === selectedAccount),
+    [localTransactions, selectedAccount]
+  );
+
+  // --- Período: o mesmo para todas as contas, a partir das datas de todo o lote ---
+  const dataRange = useMemo(() => getDataRange(localTransactions), [localTransactions]);
+  const period = useMemo(() => resolvePeriod(periodSelection, dataRange), [periodSelection, dataRange]);
+  const partialMonths = useMemo(() => findPartialMonths(period), [period]);
+
+  const analysisOptions = useMemo((): AnalysisOptions => ({
+    mode: analysisMode,
+    exclusionRules,
+    internalTransfers,
+    // Seleção sem nenhuma data com transação: nada entra na análise
+    period: period ?? { from: '', to: '' },
+    partialMonths,
+    partialMonthHandling: periodSelection.partialMonths
+  }), [analysisMode, exclusionRules, internalTransfers, period, partialMonths, periodSelection.partialMonths]);
+
+  // --- Calculations based on localTransactions (modo de análise + regras de exclusão + período) ---
+  const processedData = useMemo(
+    () => computeAnalysis(accountTransactions, analysisOptions),
+    [accountTransactions, analysisOptions]
+  );
 
-      monthlyData[monthKey].income += t.amount;
-      totalInc += t.amount;
-      monthlyData[monthKey].balance += t.amount;
+  // Fontes de renda por pagador: a parte recorrente pesa mais na análise de crédito que o total
+  const incomeSources = useMemo(
+    () => analysisMode === 'expense' ? [] : detectIncomeSources(processedData.sortedTransactions),
+    [processedData.sortedTransactions, analysisMode]
+  );
+  const recurringIncome = useMemo(() => computeRecurringIncome(incomeSources), [incomeSources]);
+
+  const accountBreakdown = useMemo((): AccountBreakdown[] => {
+    if (!hasMultipleAccounts) return [];
+    return accounts.map((account, idx) => {
+      const analysis = computeAnalysis(
+        localTransactions.filter(t => getAccountKey(t) === account.key),
+        analysisOptions
+      );
+      return {
+        account,
+        stats: analysis.stats,
+        transactionCount: analysis.sortedTransactions.length,
+        color: ACCOUNT_COLORS[idx % ACCOUNT_COLORS.length]
+      };
     });
+  }, [accounts, hasMultipleAccounts, localTransactions, analysisOptions]);
 
-    const months = Object.values(monthlyData).sort((a, b) => a.month.localeCompare(b.month));
-    const monthCount = months.length || 1;
+  // Com todas as contas em tela, as barras se dividem por conta de origem
+  const stackByAccount = hasMultipleAccounts && selectedAccount === 'all';
 
-    const stats: GlobalStats = {
-      totalIncome: totalInc,
-      totalExpense: 0, // Despesas ignoradas
-      averageMonthlyIncome: totalInc / monthCount,
-      averageMonthlyExpense: 0,
-      netBalance: totalInc
-    };
+  // Saídas negativas para empilhar abaixo do eixo no fluxo completo
+  const chartData = useMemo(() => {
+    const byAccount = stackByAccount ? computeAccountMonths(processedData.sortedTransactions, getMonthKey) : {};
+    return processedData.months.map(m => {
+      const row: Record<string, string | number | boolean | undefined> = { ...m, negativeExpense: -m.expense };
+      accounts.forEach((account, idx) => {
+        const entry = byAccount[m.month]?.[account.key];
+        row[`in_${idx}`] = entry?.income ?? 0;
+        row[`out_${idx}`] = analysisMode === 'full' ? -(entry?.expense ?? 0) : entry?.expense ?? 0;
+      });
+      return row;
+    });
+  }, [processedData, stackByAccount, accounts, analysisMode]);
 
-    return { months, stats, sortedTransactions: sortedData };
-  }, [localTransactions, ignoredTerms]);
+  // --- Duplicates (todas as transações, antes dos filtros de receita) ---
+  const duplicateGroups = useMemo(() => {
+    const groups = findDuplicateGroups(localTransactions, {
+      ...DEFAULT_DUPLICATE_OPTIONS,
+      dateToleranceDays: duplicateTolerance
+    });
+    return groups.filter(g => !keptDuplicateGroups.includes(g.key));
+  }, [localTransactions, duplicateTolerance, keptDuplicateGroups]);
 
   // --- Filtering ---
   const categories = useMemo(() => {
-    // Categorias baseadas apenas nas transações de entrada filtradas
+    // Categorias baseadas apenas nas transações do modo atual
     const cats = new Set(processedData.sortedTransactions.map(t => t.category));
     return ['Todas', ...Array.from(cats).sort()];
   }, [processedData.sortedTransactions]);
 
-  const filteredTransactions = useMemo(() => {
-    return processedData.sortedTransactions.filter(t => {
-      const matchesSearch = t.description.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = categoryFilter === 'Todas' || t.category === categoryFilter;
-      // Filtro de tipo removido pois só existem entradas agora
-      return matchesSearch && matchesCategory;
-    });
-  }, [processedData.sortedTransactions, searchTerm, categoryFilter]);
+  // Regras de exclusão só atuam sobre entradas
+  const incomeCandidates = useMemo(() => localTransactions.filter(t => t.amount > 0), [localTransactions]);
+
+  const filteredTransactions = useMemo(
+    () => filterTransactions(processedData.sortedTransactions, tableFilters),
+    [processedData.sortedTransactions, tableFilters]
+  );
+  const advancedFilterCount = countAdvancedFilters(tableFilters);
+  const activeView = findActiveView(savedViews, tableFilters);
+
+  // Extratos grandes: só as linhas próximas da área visível são renderizadas
+  const tableScrollRef = useRef<HTMLDivElement>(null);
+  const rowWindow = useVirtualRows(tableScrollRef, filteredTransactions.length, TABLE_ROW_HEIGHT);
+
+  const readingReviewCount = useMemo(
+    () => processedData.sortedTransactions.filter(needsReadingReview).length,
+    [processedData.sortedTransactions]
+  );
+
+  const selectedTransactions = useMemo(
+    () => filteredTransactions.filter(t => t.id && selectedIds.has(t.id)),
+    [filteredTransactions, selectedIds]
+  );
+  const allVisibleSelected = filteredTransactions.length > 0 && selectedTransactions.length === filteredTransactions.length;
+
+  // Marcadas na tabela somem dos totais; a contagem permite restaurá-las
+  const manualMarkCount = useMemo(
+    () => accountTransactions.filter(t => t.excludedFromIncome || t.markedAsTransfer).length,
+    [accountTransactions]
+  );
 
   // --- CRUD Handlers ---
 
+  // Toda edição feita pelo usuário passa por aqui para poder ser desfeita
+  const commitTransactions = (next: Transaction[], label: string) => {
+    setHistory(recordChange(history, label, localTransactions));
+    setLocalTransactions(next);
+  };
+
+  // O instantâneo restaurado passa pelas regras atuais: uma regra criada depois continua valendo
+  const handleUndo = () => {
+    const result = undoChange(history, localTransactions);
+    if (!result) return;
+    setHistory(result.history);
+    setLocalTransactions(applyCategoryRules(result.snapshot, categoryRules));
+  };
+
+  const handleRedo = () => {
+    const result = redoChange(history, localTransactions);
+    if (!result) return;
+    setHistory(result.history);
+    setLocalTransactions(applyCategoryRules(result.snapshot, categoryRules));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (ou Ctrl+Y); dentro de campos de texto vale o desfazer do próprio campo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleAddNew = () => {
     setFormData({
       date: new Date().toISOString().split('T')[0],
@@ -125,172 +415,232 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
       category: 'Geral',
       amount: 0
     });
-    setEditingIndex(null);
-    setIsModalOpen(true);
-  };
-
-  const handleEdit = (transaction: Transaction) => {
-    const index = localTransactions.indexOf(transaction);
-    setEditingIndex(index);
-    setFormData({ ...transaction, amount: Math.abs(transaction.amount) });
+    setFormIsExpense(analysisMode === 'expense');
     setIsModalOpen(true);
   };
 
   const handleDelete = (transaction: Transaction) => {
-    if (confirm('Tem certeza que deseja excluir esta transação?')) {
-      const newTransactions = localTransactions.filter(t => t !== transaction);
-      setLocalTransactions(newTransactions);
-    }
+    if (!transaction.id) return;
+    commitTransactions(removeTransactions(localTransactions, new Set([transaction.id])), 'excluir transação');
   };
 
+  // O formulário só cria transações; as correções são feitas direto na tabela
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Força valor positivo (Receita)
-    const finalAmount = Math.abs(formData.amount);
-
-    const newTransaction: Transaction = {
-      ...formData,
-      amount: finalAmount
-    };
-
-    if (editingIndex !== null && editingIndex >= 0) {
-      // Editando
-      const updated = [...localTransactions];
-      updated[editingIndex] = newTransaction;
-      setLocalTransactions(updated);
-    } else {
-      // Criando
-      setLocalTransactions([newTransaction, ...localTransactions]);
-    }
+    // O sinal vem do tipo escolhido no formulário (Entrada/Saída)
+    const finalAmount = formIsExpense ? -Math.abs(formData.amount) : Math.abs(formData.amount);
+    const newTransaction: Transaction = { ...formData, id: createId(), amount: finalAmount, manualCategory: true };
+    commitTransactions([newTransaction, ...localTransactions], 'nova transação');
     setIsModalOpen(false);
   };
 
-  // --- Filter Settings Handlers ---
-  const handleAddFilterTerm = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newFilterTerm && !ignoredTerms.includes(newFilterTerm.toLowerCase())) {
-        setIgnoredTerms([...ignoredTerms, newFilterTerm.toLowerCase()]);
-        setNewFilterTerm('');
+  // Edição na própria célula; devolve false quando o valor digitado não é válido
+  const handleInlineEdit = (transaction: Transaction, field: EditableField, raw: string): boolean => {
+    if (!transaction.id) return false;
+    let value: string | number = raw;
+    if (field === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(raw)) return false;
+    if ((field === 'description' || field === 'category') && !raw) return false;
+    if (field === 'amount') {
+      const parsed = parseBrazilianNumber(raw);
+      if (!Number.isFinite(parsed)) return false;
+      // Sem sinal digitado, o valor mantém o sinal que tinha (corrigir o valor não vira entrada em saída)
+      value = /^[-+]/.test(raw) ? parsed : Math.sign(transaction.amount || 1) * Math.abs(parsed);
     }
+    saveReviewerName(reviewerName);
+    commitTransactions(
+      editField(localTransactions, transaction.id, field, value, reviewerName.trim()),
+      `editar ${EDITABLE_FIELD_LABELS[field].toLowerCase()}`
+    );
+    return true;
   };
 
-  const handleRemoveFilterTerm = (termToRemove: string) => {
-      setIgnoredTerms(ignoredTerms.filter(t => t !== termToRemove));
+  const handleConfirmReading = (transaction: Transaction) => {
+    if (!transaction.id) return;
+    commitTransactions(confirmReadings(localTransactions, new Set([transaction.id])), 'conferir leitura');
   };
 
-  const handleResetFilters = () => {
-      if(confirm('Isso restaurará a lista padrão de termos ignorados. Continuar?')) {
-          setIgnoredTerms(DEFAULT_IGNORED_TERMS);
-      }
+  // --- Seleção e ações em lote (sobre as linhas visíveis com os filtros atuais) ---
+  const toggleSelected = (transaction: Transaction) => {
+    if (!transaction.id) return;
+    const next = new Set(selectedIds);
+    if (next.has(transaction.id)) next.delete(transaction.id);
+    else next.add(transaction.id);
+    setSelectedIds(next);
   };
 
+  const handleBulkAction = (apply: (transactions: Transaction[], ids: Set<string>) => Transaction[], label: string) => {
+    const ids = new Set(selectedTransactions.map(t => t.id!));
+    commitTransactions(apply(localTransactions, ids), `${label} (${ids.size})`);
+    setSelectedIds(new Set());
+  };
 
-  // --- Formatters ---
-  const formatCurrency = (val: number) => 
-    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+  const handleClearManualMarks = () => {
+    commitTransactions(clearManualMarks(localTransactions), 'restaurar marcações manuais');
+  };
 
-  const formatDate = (dateStr: string) => {
-    const [y, m, d] = dateStr.split('-');
-    return `${d}/${m}/${y}`;
+  // --- Failed Pages Handlers ---
+  // O que for lido entra na lista; o que falhar de novo volta para o painel com o novo motivo
+  const handleRetryFailedPages = async (failure: FailedPageRange) => {
+    if (!onRetryFailedPages) return;
+    setRetryingPages(prev => [...prev, failure]);
+    try {
+      const result = await onRetryFailedPages(failure);
+      const appendRead = (transactions: Transaction[]) => [...transactions, ...result.transactions];
+      setLocalTransactions(appendRead);
+      setHistory(prev => mapHistory(prev, appendRead));
+      setFailedPages(prev => [...prev.filter(f => f !== failure), ...result.failedPages]);
+    } catch (err: any) {
+      alert(err.message || 'Não foi possível ler as páginas novamente.');
+    } finally {
+      setRetryingPages(prev => prev.filter(f => f !== failure));
+    }
   };
 
-  // --- PDF Export ---
-  const handleExportPDF = async () => {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.width;
-
-    // Header
-    doc.setFontSize(18);
-    doc.setTextColor(40);
-    doc.text('Relatório de Receitas - ExtratoAI Pro', 14, 20);
-
-    // Sub Header
-    doc.setFontSize(12);
-    doc.setTextColor(100);
-    const bankText = data.bankName ? `${data.bankName} ${data.accountHolder ? `| ${data.accountHolder}` : ''}` : 'Extrato Bancário';
-    doc.text(bankText, 14, 30);
-    doc.text(`Gerado em: ${new Date().toLocaleDateString('pt-BR')}`, 14, 36);
-
-    // Renda Média Line
-    doc.setFontSize(11);
-    doc.setTextColor(70);
-    doc.text(`Renda Média Apurada: ${formatCurrency(processedData.stats.averageMonthlyIncome)}`, 14, 44);
-
-    // Capture Chart
-    let chartImage = null;
-    const chartElement = document.getElementById('monthly-chart');
-    if (chartElement) {
-      try {
-        const canvas = await html2canvas(chartElement, { scale: 2 });
-        chartImage = canvas.toDataURL('image/png');
-      } catch (err) {
-        console.error("Erro ao capturar gráfico", err);
-      }
+  const handleRetryAllFailedPages = async () => {
+    for (const failure of failedPages) {
+      await handleRetryFailedPages(failure);
     }
+  };
 
-    let currentY = 50;
+  // --- Category Rules Handlers ---
+  const handleOpenRules = () => {
+    setRuleDraft(null);
+    setIsRulesOpen(true);
+  };
 
-    // Insert Chart if available
-    if (chartImage) {
-      const imgProps = doc.getImageProperties(chartImage);
-      const pdfWidth = pageWidth - 28;
-      const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-      
-      doc.addImage(chartImage, 'PNG', 14, currentY, pdfWidth, pdfHeight);
-      currentY += pdfHeight + 10;
-    } else {
-      currentY += 10;
+  const handleCreateRuleFrom = (transaction: Transaction) => {
+    setRuleDraft(createRuleFromTransaction(transaction, categoryRules.length + 1));
+    setIsRulesOpen(true);
+  };
+
+  // --- Duplicate Handlers ---
+  // Mesclar mantém o lançamento mais antigo do grupo e remove as cópias
+  const handleMergeDuplicates = (group: DuplicateGroup) => {
+    const copies = group.transactions.slice(1);
+    commitTransactions(localTransactions.filter(t => !copies.includes(t)), 'mesclar duplicatas');
+  };
+
+  const handleKeepDuplicates = (group: DuplicateGroup) => {
+    setKeptDuplicateGroups([...keptDuplicateGroups, group.key]);
+  };
+
+  const handleMergeAllDuplicates = () => {
+    if (confirm(`Mesclar ${duplicateGroups.length} grupo(s) de duplicatas?`)) {
+      const copies = duplicateGroups.flatMap(g => g.transactions.slice(1));
+      commitTransactions(localTransactions.filter(t => !copies.includes(t)), 'mesclar todas as duplicatas');
     }
+  };
+
+  // --- Internal Transfer Handlers ---
+  const handleTransferDecision = (match: TransferMatch, decision: TransferDecision) => {
+    setTransferDecisions({ ...transferDecisions, [match.key]: decision });
+  };
 
-    // Summary Section (Below Chart)
-    const totalIncome = filteredTransactions.reduce((acc, t) => acc + t.amount, 0);
+  const handleConfirmAllTransfers = () => {
+    const pending = transferMatches.filter(m => !transferDecisions[m.key]);
+    setTransferDecisions({
+      ...transferDecisions,
+      ...Object.fromEntries(pending.map(m => [m.key, 'confirmed' as TransferDecision]))
+    });
+  };
 
-    doc.setDrawColor(200);
-    doc.line(14, currentY, pageWidth - 14, currentY);
-    currentY += 8;
+  // --- Saved Views Handlers ---
+  const updateSavedViews = (views: SavedView[]) => {
+    setSavedViews(views);
+    saveSavedViews(views);
+  };
 
-    doc.setFontSize(10);
-    doc.setTextColor(40);
-    doc.text('Resumo do Período (Filtrado):', 14, currentY);
-    currentY += 8;
-    
-    doc.setFontSize(12);
-    doc.setTextColor(16, 185, 129); // Emerald Green
-    doc.text(`Receitas Totais: ${formatCurrency(totalIncome)}`, 14, currentY);
-    
-    currentY += 10;
-
-    // Table
-    const tableBody = filteredTransactions.map(t => [
-      formatDate(t.date),
-      t.description,
-      t.category,
-      formatCurrency(t.amount)
-    ]);
-
-    autoTable(doc, {
-      startY: currentY,
-      head: [['Data', 'Descrição', 'Categoria', 'Valor']],
-      body: tableBody,
-      headStyles: { fillColor: [16, 185, 129] }, // Emerald Green for Income
-      styles: { fontSize: 9 },
-      columnStyles: {
-        0: { cellWidth: 25 },
-        1: { cellWidth: 'auto' },
-        2: { cellWidth: 40 },
-        3: { cellWidth: 40, halign: 'right' },
-      },
-      didParseCell: (data) => {
-        if (data.section === 'body') {
-            if (data.column.index === 3 && data.cell.raw) {
-                data.cell.styles.textColor = [22, 163, 74]; // Green text
-            }
-        }
+  const handleSaveView = (name: string) => updateSavedViews(upsertView(savedViews, name, tableFilters));
+
+  const handleDeleteView = (id: string) => updateSavedViews(savedViews.filter(v => v.id !== id));
+
+  // A visão traz todos os filtros que salvou; os demais voltam ao padrão
+  const handleApplyView = (view: SavedView) => {
+    setTableFilters({ ...DEFAULT_TABLE_FILTERS, ...view.filters });
+    setIsFiltersOpen(countAdvancedFilters(view.filters) > 0);
+  };
+
+  // --- Exclusion Rules Handlers ---
+  const handleResetExclusionRules = () => {
+      if(confirm('Isso restaurará as regras de exclusão padrão. Continuar?')) {
+          setExclusionRules(getDefaultExclusionRules());
       }
+  };
+
+
+  const periodDescription = [describePeriod(period), describePartialHandling(partialMonths, periodSelection.partialMonths)]
+    .filter(Boolean)
+    .join(' • ');
+
+  // --- PDF Export ---
+  const handleExportPDF = () => {
+    const activeFilters = [
+      currentAccount && `conta ${currentAccount.label}`,
+      ...describeFilters(tableFilters)
+    ].filter(Boolean);
+
+    const doc = renderAnalysisReportPdf({
+      mode: analysisMode,
+      title: labels.reportTitle,
+      chartTitle: labels.chartTitle,
+      tableTitle: labels.tableTitle,
+      bankName: currentAccount?.bankName ?? data.bankName,
+      accountHolder: currentAccount?.accountHolder ?? data.accountHolder,
+      months: processedData.months,
+      stats: processedData.stats,
+      incomeMetric,
+      periodDescription,
+      transactions: filteredTransactions,
+      filterDescription: activeFilters.length > 0 ? `Filtros da tabela: ${activeFilters.join(', ')}` : undefined
     });
+    doc.save(labels.fileName);
+  };
+
+  // --- Exportação de dados ---
+  const handleExportData = (format: ExportFormat, scope: ExportScope, csvOptions: CsvOptions) => {
+    const baseName = 'extrato_transacoes';
+    if (format === 'json') {
+      const name = sessionInfo?.name || `${data.bankName || 'Análise'} — ${new Date().toLocaleDateString('pt-BR')}`;
+      const json = exportSessionJson({ name, files: sessionInfo?.files ?? [], data, state: getDashboardState() });
+      downloadFile('analise_extratoai.json', json, EXPORT_MIME_TYPES.json);
+      setIsExportOpen(false);
+      return;
+    }
+
+    const table: ExportTable = scope === 'filtered'
+      ? { rows: filteredTransactions.map(transaction => ({ transaction })), withExclusion: false }
+      : {
+        rows: [...localTransactions]
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map(transaction => ({ transaction, excludedReason: getExclusionReason(transaction, analysisOptions) })),
+        withExclusion: true
+      };
+
+    if (format === 'csv') downloadFile(`${baseName}.csv`, exportCsv(table, csvOptions), EXPORT_MIME_TYPES.csv);
+    if (format === 'xlsx') downloadFile(`${baseName}.xlsx`, exportXlsx(table), EXPORT_MIME_TYPES.xlsx);
+    if (format === 'ofx') {
+      downloadFile(`${baseName}.ofx`, exportOfx(table, { bankName: data.bankName, accountHolder: data.accountHolder }), EXPORT_MIME_TYPES.ofx);
+    }
+    setIsExportOpen(false);
+  };
 
-    doc.save('relatorio_receitas_ai.pdf');
+  // --- Comprovante de Renda ---
+  // Usa todas as entradas consideradas da conta selecionada, independentemente da busca e do filtro de categoria da tabela
+  // O código de verificação depende do crypto.subtle, que não existe fora de contextos seguros
+  const handleExportIncomeReport = async () => {
+    try {
+      const report = buildIncomeReport(accountTransactions, { ...analysisOptions, incomeMetric });
+      const doc = await renderIncomeReportPdf(report, {
+        accountHolder: currentAccount?.accountHolder ?? data.accountHolder,
+        holderDocuments: data.holderDocuments,
+        bankName: currentAccount?.bankName ?? data.bankName,
+        reviewerName: reviewerName.trim() || undefined
+      });
+      doc.save('comprovante_de_renda.pdf');
+    } catch (err: any) {
+      alert(err.message || 'Não foi possível gerar o comprovante de renda.');
+    }
   };
 
   return (
@@ -299,20 +649,59 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
       {/* Header Info */}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
         <div>
-          <h2 className="text-2xl font-bold text-slate-800">Resumo de Receitas</h2>
-          {data.bankName && <p className="text-slate-500 text-sm font-medium mt-1">{data.bankName} • {data.accountHolder}</p>}
+          <h2 className="text-2xl font-bold text-slate-800">{labels.title}</h2>
+          {data.bankName && (
+            <p className="text-slate-500 text-sm font-medium mt-1">
+              {data.bankName} • {(data.accountHolders && data.accountHolders.length > 1 ? data.accountHolders : [data.accountHolder]).join(' + ')}
+            </p>
+          )}
           <div className="flex items-center gap-2 mt-2">
             <p className="text-xs text-orange-600 bg-orange-50 inline-block px-2 py-1 rounded-md border border-orange-100">
-                Filtro Ativo: {ignoredTerms.length} termos ignorados
+                Filtro Ativo: {exclusionRules.filter(r => r.enabled).length} regras de exclusão
             </p>
             <button 
                 onClick={() => setIsSettingsOpen(true)}
                 className="text-slate-400 hover:text-indigo-600 transition-colors"
-                title="Configurar Filtros"
+                title="Configurar Regras de Exclusão"
             >
                 <Settings className="w-4 h-4" />
             </button>
+            <button 
+                onClick={handleOpenRules}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+                title="Regras de Categorização"
+            >
+                <Wand2 className="w-4 h-4" />
+                {categoryRules.length} regra(s)
+            </button>
+          </div>
+          {/* Modo de análise */}
+          <div className="inline-flex mt-3 p-1 bg-slate-100 rounded-lg">
+            {(Object.keys(MODE_LABELS) as AnalysisMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => { setAnalysisMode(mode); updateFilters({ categoryFilter: 'Todas' }); }}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                  analysisMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {MODE_LABELS[mode].tab}
+              </button>
+            ))}
           </div>
+          {hasMultipleAccounts && (
+            <select
+              value={selectedAccount}
+              onChange={(e) => { setAccountFilter(e.target.value); updateFilters({ categoryFilter: 'Todas' }); }}
+              className="block mt-2 px-3 py-1.5 border border-slate-200 rounded-lg text-xs text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              title="Conta de origem"
+            >
+              <option value="all">Todas as contas ({accounts.length})</option>
+              {accounts.map(account => (
+                <option key={account.key} value={account.key}>{account.label}</option>
+              ))}
+            </select>
+          )}
         </div>
         <div className="flex gap-3 flex-wrap">
             <button 
@@ -320,7 +709,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
             >
                 <Plus className="w-4 h-4" />
-                Nova Entrada
+                {analysisMode === 'income' ? 'Nova Entrada' : 'Nova Transação'}
             </button>
             <button 
               onClick={handleExportPDF}
@@ -329,37 +718,163 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                 <Download className="w-4 h-4" />
                 Exportar PDF
             </button>
+            <button 
+              onClick={() => setIsExportOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+            >
+                <FileOutput className="w-4 h-4" />
+                Exportar Dados
+            </button>
+            {analysisMode !== 'expense' && (
+              <button 
+                onClick={handleExportIncomeReport}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-lg transition-colors"
+                title="Relatório para locação e análise de crédito"
+              >
+                  <FileCheck className="w-4 h-4" />
+                  Comprovante de Renda
+              </button>
+            )}
             <button onClick={onReset} className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
                 Carregar Novo
             </button>
         </div>
       </div>
 
-      {/* KPI Cards - REMOVED EXPENSES */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <StatsCard 
-          title="Média Mensal (Receita)" 
-          value={processedData.stats.averageMonthlyIncome} 
-          icon={<ArrowUpCircle className="w-5 h-5 text-emerald-500" />}
-          trend="Baseado no histórico filtrado"
-          colorClass="text-emerald-600"
-        />
+      {/* Período analisado */}
+      <PeriodPicker
+        selection={periodSelection}
+        onChange={setPeriodSelection}
+        period={period}
+        years={listYears(dataRange)}
+        partialMonths={partialMonths}
+      />
+
+      {/* KPI Cards - conforme o modo de análise */}
+      <div className={`grid grid-cols-1 gap-4 ${
+        analysisMode === 'full' ? 'md:grid-cols-3 xl:grid-cols-5' : analysisMode === 'income' ? 'md:grid-cols-3' : 'md:grid-cols-2'
+      }`}>
+        {analysisMode !== 'expense' && (
+          <StatsCard 
+            title="Renda Apurada" 
+            value={getIncomeByMetric(processedData.stats, incomeMetric)} 
+            icon={<ArrowUpCircle className="w-5 h-5 text-emerald-500" />}
+            trend={[
+              `Desvio padrão de ${formatCurrency(processedData.stats.incomeStandardDeviation)}`,
+              processedData.stats.outlierMonths.length > 0 && `${processedData.stats.outlierMonths.length} mês(es) atípico(s)`
+            ].filter(Boolean).join(' • ')}
+            colorClass="text-emerald-600"
+            action={
+              <select
+                value={incomeMetric}
+                onChange={(e) => setIncomeMetric(e.target.value as IncomeMetric)}
+                className="mt-2 w-full px-2 py-1 border border-slate-200 rounded-md text-xs text-slate-600 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                title={INCOME_METRIC_LABELS[incomeMetric].description}
+              >
+                {(Object.keys(INCOME_METRIC_LABELS) as IncomeMetric[]).map(metric => (
+                  <option key={metric} value={metric}>{INCOME_METRIC_LABELS[metric].label}</option>
+                ))}
+              </select>
+            }
+          />
+        )}
+        {analysisMode !== 'expense' && (
+          <StatsCard 
+            title="Renda Recorrente" 
+            value={recurringIncome} 
+            icon={<Repeat className="w-5 h-5 text-emerald-500" />}
+            trend="Só pagadores mensais e quinzenais"
+            colorClass="text-emerald-700"
+          />
+        )}
+        {analysisMode !== 'income' && (
+          <StatsCard 
+            title="Média Mensal (Despesa)" 
+            value={processedData.stats.averageMonthlyExpense} 
+            icon={<ArrowDownCircle className="w-5 h-5 text-red-500" />}
+            trend={`Total de ${formatCurrency(processedData.stats.totalExpense)}`}
+            colorClass="text-red-600"
+          />
+        )}
+        {analysisMode === 'full' && (
+          <StatsCard 
+            title="Saldo Líquido" 
+            value={processedData.stats.netBalance} 
+            icon={<Wallet className="w-5 h-5 text-indigo-500" />}
+            trend="Receitas menos despesas no período"
+            colorClass={processedData.stats.netBalance < 0 ? 'text-red-600' : 'text-slate-800'}
+          />
+        )}
          <StatsCard 
           title="Período Analisado" 
           value={`${processedData.months.length} Meses`} 
           icon={<Calendar className="w-5 h-5 text-blue-500" />}
-          trend="Duração do extrato"
+          trend={periodDescription}
           isCurrency={false}
           colorClass="text-slate-800"
         />
       </div>
 
-      {/* Chart Section - Only Income */}
-      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100" id="monthly-chart">
-        <h3 className="text-lg font-semibold text-slate-800 mb-6">Fluxo Mensal (Entradas Filtradas)</h3>
+      {/* Indicadores por conta de origem */}
+      {hasMultipleAccounts && (
+        <AccountBreakdownPanel
+          breakdown={accountBreakdown}
+          mode={analysisMode}
+          selectedKey={selectedAccount}
+          onSelect={(key) => { setAccountFilter(key); updateFilters({ categoryFilter: 'Todas' }); }}
+        />
+      )}
+
+      {/* Fontes de renda e sua regularidade */}
+      {incomeSources.length > 0 && (
+        <IncomeSourcesPanel sources={incomeSources} recurringIncome={recurringIncome} />
+      )}
+
+      {/* Conciliação de saldos por extrato */}
+      {data.reconciliations && data.reconciliations.length > 0 && (
+        <ReconciliationPanel reconciliations={data.reconciliations} />
+      )}
+
+      {/* Trechos que a extração não conseguiu ler */}
+      {failedPages.length > 0 && (
+        <FailedPagesPanel
+          failures={failedPages}
+          retrying={retryingPages}
+          canRetry={!!onRetryFailedPages}
+          onRetry={handleRetryFailedPages}
+          onRetryAll={handleRetryAllFailedPages}
+        />
+      )}
+
+      {/* Revisão de duplicatas entre blocos de páginas e arquivos sobrepostos */}
+      {(duplicateGroups.length > 0 || duplicateTolerance !== DEFAULT_DUPLICATE_OPTIONS.dateToleranceDays) && (
+        <DuplicateReviewPanel
+          groups={duplicateGroups}
+          dateToleranceDays={duplicateTolerance}
+          onToleranceChange={setDuplicateTolerance}
+          onMerge={handleMergeDuplicates}
+          onKeep={handleKeepDuplicates}
+          onMergeAll={handleMergeAllDuplicates}
+        />
+      )}
+
+      {/* Transferências entre contas próprias do titular */}
+      {transferMatches.length > 0 && (
+        <TransferReviewPanel
+          matches={transferMatches}
+          decisions={transferDecisions}
+          onConfirm={(match) => handleTransferDecision(match, 'confirmed')}
+          onReject={(match) => handleTransferDecision(match, 'rejected')}
+          onConfirmAll={handleConfirmAllTransfers}
+        />
+      )}
+
+      {/* Chart Section - barras empilhadas (entradas acima, saídas abaixo) no fluxo completo */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-semibold text-slate-800 mb-6">{labels.chartTitle}</h3>
         <div className="h-[350px] w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={processedData.months} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
               <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} dy={10} />
               <YAxis 
@@ -374,39 +889,144 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                 cursor={{fill: '#f8fafc'}}
               />
               <Legend wrapperStyle={{paddingTop: '20px'}} />
-              <Bar name="Entradas" dataKey="income" fill="#10b981" radius={[4, 4, 0, 0]} maxBarSize={60} />
-            </BarChart>
+              {stackByAccount && accounts.map((account, idx) => (
+                <React.Fragment key={account.key}>
+                  {analysisMode !== 'expense' && (
+                    <Bar name={`${account.label} (entradas)`} dataKey={`in_${idx}`} stackId="in" fill={ACCOUNT_COLORS[idx % ACCOUNT_COLORS.length]} maxBarSize={60} />
+                  )}
+                  {analysisMode !== 'income' && (
+                    <Bar name={`${account.label} (saídas)`} dataKey={`out_${idx}`} stackId={analysisMode === 'full' ? 'in' : 'out'} fill={ACCOUNT_COLORS[idx % ACCOUNT_COLORS.length]} fillOpacity={0.55} maxBarSize={60} />
+                  )}
+                </React.Fragment>
+              ))}
+              {!stackByAccount && analysisMode === 'income' && (
+                <Bar name="Entradas" dataKey="income" fill="#10b981" radius={[4, 4, 0, 0]} maxBarSize={60}>
+                  {/* Meses atípicos em laranja */}
+                  {chartData.map(m => <Cell key={String(m.month)} fill={m.incomeOutlier ? '#f97316' : '#10b981'} />)}
+                </Bar>
+              )}
+              {!stackByAccount && analysisMode === 'expense' && (
+                <Bar name="Saídas" dataKey="expense" fill="#ef4444" radius={[4, 4, 0, 0]} maxBarSize={60} />
+              )}
+              {analysisMode === 'full' && (
+                <>
+                  {!stackByAccount && (
+                    <>
+                      <Bar name="Entradas" dataKey="income" stackId="flow" fill="#10b981" maxBarSize={60} />
+                      <Bar name="Saídas" dataKey="negativeExpense" stackId="flow" fill="#ef4444" maxBarSize={60} />
+                    </>
+                  )}
+                  <Line name="Saldo do mês" dataKey="balance" type="monotone" stroke="#4f46e5" strokeWidth={2} dot={{ r: 3 }} />
+                </>
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
 
-      {/* Transactions Table - Income Only */}
+      {/* Transactions Table */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row gap-4 md:items-center justify-between">
-            <h3 className="text-lg font-semibold text-slate-800">Detalhamento das Entradas</h3>
+            <h3 className="text-lg font-semibold text-slate-800">{labels.tableTitle}</h3>
             
             <div className="flex flex-col sm:flex-row gap-3 flex-wrap">
+                {/* Desfazer / refazer */}
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleUndo}
+                    disabled={history.past.length === 0}
+                    className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={history.past.length > 0 ? `Desfazer: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nada para desfazer'}
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={history.future.length === 0}
+                    className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={history.future.length > 0 ? `Refazer: ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nada para refazer'}
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                  <input
+                    type="text"
+                    value={reviewerName}
+                    onChange={(e) => setReviewerName(e.target.value)}
+                    placeholder="Responsável pelas edições"
+                    title="Nome registrado no histórico de auditoria das edições feitas na tabela"
+                    className="ml-1 w-40 px-2 py-1.5 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+
+                {/* Excluídas da renda ou marcadas como transferência na tabela */}
+                {manualMarkCount > 0 && (
+                  <button
+                    onClick={handleClearManualMarks}
+                    className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100"
+                    title="Devolve aos totais as transações excluídas da renda ou marcadas como transferência na tabela"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {manualMarkCount} marcada(s) à mão
+                  </button>
+                )}
+
                 {/* Search Input */}
                 <div className="relative flex-grow sm:flex-grow-0">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                     <input 
                         type="text" 
-                        placeholder="Buscar..." 
+                        placeholder="Buscar (ex: valor>1000 -tarifa)" 
                         value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        className="pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 w-full sm:w-48"
+                        onChange={(e) => updateFilters({ searchTerm: e.target.value })}
+                        title={QUERY_SYNTAX_HELP}
+                        className="pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 w-full sm:w-64"
                     />
                 </div>
 
+                {/* Valor, datas e tipo */}
+                <button
+                  onClick={() => setIsFiltersOpen(!isFiltersOpen)}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    isFiltersOpen || advancedFilterCount > 0 ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+                  }`}
+                  title="Faixa de valor, intervalo de datas e entradas/saídas"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  Filtros{advancedFilterCount > 0 && ` (${advancedFilterCount})`}
+                </button>
+
+                <SavedViewsMenu
+                  views={savedViews}
+                  activeViewId={activeView?.id}
+                  onApply={handleApplyView}
+                  onSave={handleSaveView}
+                  onDelete={handleDeleteView}
+                />
+
+                {/* Leituras de baixa confiança */}
+                {(readingReviewCount > 0 || showReadingReview) && (
+                  <button
+                    onClick={() => updateFilters({ showReadingReview: !showReadingReview })}
+                    className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                      showReadingReview ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100'
+                    }`}
+                    title="Linhas lidas de fotos ou PDFs digitalizados com baixa confiança"
+                  >
+                    <ScanLine className="w-4 h-4" />
+                    Conferir leitura ({readingReviewCount})
+                  </button>
+                )}
+
                 {/* Category Filter */}
                 <div className="relative flex-grow sm:flex-grow-0">
                      <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                     <select 
                         value={categoryFilter}
-                        onChange={(e) => setCategoryFilter(e.target.value)}
+                        onChange={(e) => updateFilters({ categoryFilter: e.target.value })}
                         className="pl-10 pr-8 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 appearance-none w-full sm:w-40 cursor-pointer"
                     >
-                        {categories.map(cat => (
+                        {/* Uma visão salva pode trazer uma categoria que não existe neste extrato */}
+                        {(categories.includes(categoryFilter) ? categories : [...categories, categoryFilter]).map(cat => (
                             <option key={cat} value={cat}>{cat}</option>
                         ))}
                     </select>
@@ -414,34 +1034,135 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
             </div>
         </div>
 
-        <div className="overflow-x-auto">
+        {isFiltersOpen && (
+          <TableFiltersPanel
+            filters={tableFilters}
+            onChange={setTableFilters}
+            onClear={() => setTableFilters({ ...DEFAULT_TABLE_FILTERS, sort: tableFilters.sort })}
+          />
+        )}
+
+        {selectedTransactions.length > 0 && (
+          <BulkActionBar
+            count={selectedTransactions.length}
+            categories={categories.filter(c => c !== 'Todas')}
+            canExcludeFromIncome={analysisMode !== 'expense' && selectedTransactions.some(t => t.amount > 0)}
+            onRecategorize={(category) => handleBulkAction(
+              (transactions, ids) => recategorize(transactions, ids, category, reviewerName.trim()),
+              `recategorizar como ${category}`
+            )}
+            onExcludeFromIncome={() => handleBulkAction(excludeFromIncome, 'excluir da renda')}
+            onMarkAsTransfer={() => handleBulkAction(markAsTransfer, 'marcar como transferência')}
+            onDelete={() => handleBulkAction(removeTransactions, 'excluir transações')}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        <div ref={tableScrollRef} className={`overflow-x-auto ${rowWindow.virtualized ? 'max-h-[70vh] overflow-y-auto' : ''}`}>
           <table className="w-full text-left text-sm">
-            <thead className="bg-slate-50 text-slate-500 font-medium">
+            <thead className={`bg-slate-50 text-slate-500 font-medium ${rowWindow.virtualized ? 'sticky top-0 z-10' : ''}`}>
               <tr>
-                <th className="px-6 py-3">Data</th>
-                <th className="px-6 py-3">Descrição</th>
-                <th className="px-6 py-3">Categoria</th>
-                <th className="px-6 py-3 text-right">Valor</th>
+                <th className="pl-6 py-3 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={() => setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredTransactions.map(t => t.id!).filter(Boolean)))}
+                    title="Selecionar todas as linhas visíveis"
+                  />
+                </th>
+                {TABLE_COLUMNS.map(column => {
+                  const sorted = tableFilters.sort?.field === column.field ? tableFilters.sort.direction : undefined;
+                  const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown;
+                  return (
+                    <th key={column.field} className={`px-6 py-3 ${column.align === 'right' ? 'text-right' : ''}`}>
+                      <button
+                        onClick={() => updateFilters({ sort: nextSort(tableFilters.sort, column.field) })}
+                        className={`inline-flex items-center gap-1 hover:text-slate-700 ${sorted ? 'text-indigo-600' : ''}`}
+                        title="Ordenar (o terceiro clique volta à ordem por data)"
+                      >
+                        {column.label}
+                        <SortIcon className={`w-3.5 h-3.5 ${sorted ? '' : 'opacity-40'}`} />
+                      </button>
+                    </th>
+                  );
+                })}
                 <th className="px-6 py-3 text-right">Ações</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {filteredTransactions.map((t, idx) => (
-                <tr key={idx} className="hover:bg-slate-50 transition-colors group">
-                  <td className="px-6 py-4 text-slate-600 font-mono text-xs">{formatDate(t.date)}</td>
-                  <td className="px-6 py-4 text-slate-800 font-medium">{t.description}</td>
+              {rowWindow.paddingTop > 0 && (
+                <tr aria-hidden style={{ height: rowWindow.paddingTop }}><td colSpan={6} /></tr>
+              )}
+              {filteredTransactions.slice(rowWindow.start, rowWindow.end).map((t, idx) => (
+                <tr
+                  key={t.id ?? rowWindow.start + idx}
+                  className={`transition-colors group ${t.id && selectedIds.has(t.id) ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="pl-6 py-4">
+                    <input type="checkbox" checked={!!t.id && selectedIds.has(t.id)} onChange={() => toggleSelected(t)} />
+                  </td>
+                  <td className="px-6 py-4 text-slate-600 font-mono text-xs">
+                    <InlineEditCell value={t.date} type="date" onSave={(value) => handleInlineEdit(t, 'date', value)}>
+                      {formatDate(t.date)}
+                    </InlineEditCell>
+                  </td>
+                  <td className="px-6 py-4 text-slate-800 font-medium">
+                    <InlineEditCell value={t.description} onSave={(value) => handleInlineEdit(t, 'description', value)}>
+                      {t.description}
+                    </InlineEditCell>
+                    {needsReadingReview(t) && (
+                      <button
+                        onClick={() => setSourceTransaction(t)}
+                        className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 hover:bg-amber-100"
+                        title="Leitura de baixa confiança: compare com o documento"
+                      >
+                        <ScanLine className="w-3 h-3" />
+                        Leitura incerta
+                      </button>
+                    )}
+                    {processedData.outlierTransactions.has(t) && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-50 text-orange-700"
+                        title="Sozinha, esta entrada deixa o mês fora do padrão do período"
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        Atípica
+                      </span>
+                    )}
+                  </td>
                   <td className="px-6 py-4">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700">
-                        {t.category}
-                    </span>
+                    <InlineEditCell
+                      value={t.category}
+                      suggestions={categories.filter(c => c !== 'Todas')}
+                      onSave={(value) => handleInlineEdit(t, 'category', value)}
+                    >
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700">
+                          {t.category}
+                      </span>
+                    </InlineEditCell>
                   </td>
-                  <td className="px-6 py-4 text-right font-semibold text-emerald-600">
-                    {formatCurrency(t.amount)}
+                  <td className={`px-6 py-4 text-right font-semibold ${t.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                    <InlineEditCell
+                      value={t.amount.toFixed(2).replace('.', ',')}
+                      inputClassName="text-right"
+                      title="Clique para editar; sem sinal, o valor mantém o tipo (entrada/saída)"
+                      onSave={(value) => handleInlineEdit(t, 'amount', value)}
+                    >
+                      {formatCurrency(t.amount)}
+                    </InlineEditCell>
                   </td>
                   <td className="px-6 py-4 text-right">
                     <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button onClick={() => handleEdit(t)} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors" title="Editar">
-                            <Pencil className="w-4 h-4" />
+                        {needsReadingReview(t) && (
+                          <button onClick={() => handleConfirmReading(t)} className="p-1 text-slate-400 hover:text-emerald-600 transition-colors" title="Leitura conferida">
+                              <CheckCircle2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => setSourceTransaction(t)} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors" title="Ver origem">
+                            <FileSearch className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleCreateRuleFrom(t)} className="p-1 text-slate-400 hover:text-indigo-600 transition-colors" title="Sempre categorizar assim">
+                            <Wand2 className="w-4 h-4" />
                         </button>
                         <button onClick={() => handleDelete(t)} className="p-1 text-slate-400 hover:text-red-600 transition-colors" title="Excluir">
                             <Trash2 className="w-4 h-4" />
@@ -450,10 +1171,13 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                   </td>
                 </tr>
               ))}
+              {rowWindow.paddingBottom > 0 && (
+                <tr aria-hidden style={{ height: rowWindow.paddingBottom }}><td colSpan={6} /></tr>
+              )}
               {filteredTransactions.length === 0 && (
                   <tr>
-                      <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
-                          Nenhuma transação de entrada encontrada (filtros aplicados).
+                      <td colSpan={6} className="px-6 py-12 text-center text-slate-400">
+                          {labels.emptyMessage}
                       </td>
                   </tr>
               )}
@@ -468,7 +1192,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
             <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
                 <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
                     <h3 className="text-lg font-semibold text-slate-800">
-                        {editingIndex !== null ? 'Editar Entrada' : 'Nova Entrada'}
+                        Nova Transação
                     </h3>
                     <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
                         <X className="w-5 h-5" />
@@ -515,7 +1239,19 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                         </div>
                     </div>
 
-                    <div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Tipo</label>
+                        <select
+                            value={formIsExpense ? 'expense' : 'income'}
+                            onChange={(e) => setFormIsExpense(e.target.value === 'expense')}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            <option value="income">Entrada</option>
+                            <option value="expense">Saída</option>
+                        </select>
+                      </div>
+                      <div>
                         <label className="block text-sm font-medium text-slate-700 mb-1">Valor (R$)</label>
                         <input 
                             type="number" 
@@ -526,6 +1262,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                             onChange={(e) => setFormData({...formData, amount: parseFloat(e.target.value)})}
                             className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
                         />
+                      </div>
                     </div>
 
                     <div className="pt-4 flex gap-3">
@@ -549,81 +1286,46 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
         </div>
       )}
 
-      {/* Filter Settings Modal */}
-      {isSettingsOpen && (
-          <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
-              <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
-                  <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
-                      <div className="flex items-center gap-2">
-                          <Settings className="w-5 h-5 text-slate-500" />
-                          <h3 className="text-lg font-semibold text-slate-800">
-                              Configurar Termos Ignorados
-                          </h3>
-                      </div>
-                      <button onClick={() => setIsSettingsOpen(false)} className="text-slate-400 hover:text-slate-600">
-                          <X className="w-5 h-5" />
-                      </button>
-                  </div>
-                  
-                  <div className="p-6">
-                      <p className="text-sm text-slate-500 mb-4">
-                          Transações que contenham qualquer um dos termos abaixo na descrição serão automaticamente <strong>excluídas</strong> do cálculo de renda média e da lista.
-                      </p>
-
-                      <form onSubmit={handleAddFilterTerm} className="flex gap-2 mb-6">
-                          <input 
-                              type="text" 
-                              value={newFilterTerm}
-                              onChange={(e) => setNewFilterTerm(e.target.value)}
-                              placeholder="Adicionar novo termo (ex: pix enviado)"
-                              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
-                          />
-                          <button 
-                              type="submit"
-                              disabled={!newFilterTerm}
-                              className="px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium"
-                          >
-                              Adicionar
-                          </button>
-                      </form>
-
-                      <div className="max-h-60 overflow-y-auto mb-4 border border-slate-100 rounded-lg p-2 bg-slate-50">
-                          <div className="flex flex-wrap gap-2">
-                              {ignoredTerms.map((term, idx) => (
-                                  <span key={idx} className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-white border border-slate-200 text-slate-700 shadow-sm">
-                                      {term}
-                                      <button 
-                                          onClick={() => handleRemoveFilterTerm(term)}
-                                          className="text-slate-400 hover:text-red-500 ml-1"
-                                      >
-                                          <X className="w-3 h-3" />
-                                      </button>
-                                  </span>
-                              ))}
-                              {ignoredTerms.length === 0 && (
-                                  <p className="text-xs text-slate-400 p-2 italic w-full text-center">Nenhum termo sendo ignorado no momento.</p>
-                              )}
-                          </div>
-                      </div>
+      {/* Category Rules Modal */}
+      {isRulesOpen && (
+        <CategoryRulesModal
+          rules={categoryRules}
+          transactions={localTransactions}
+          categories={categories.filter(c => c !== 'Todas')}
+          initialDraft={ruleDraft}
+          onChange={setCategoryRules}
+          onClose={() => setIsRulesOpen(false)}
+        />
+      )}
 
-                      <div className="flex justify-between items-center pt-2 border-t border-slate-100 mt-4">
-                          <button 
-                              onClick={handleResetFilters}
-                              className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
-                          >
-                              <RotateCcw className="w-3 h-3" />
-                              Restaurar Padrão
-                          </button>
-                          <button 
-                              onClick={() => setIsSettingsOpen(false)}
-                              className="px-4 py-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg font-medium text-sm"
-                          >
-                              Concluir
-                          </button>
-                      </div>
-                  </div>
-              </div>
-          </div>
+      {/* Source Viewer Modal */}
+      {sourceTransaction && (
+        <SourceViewerModal
+          transaction={sourceTransaction}
+          onLoadSourceFile={onLoadSourceFile}
+          onClose={() => setSourceTransaction(null)}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportModal
+          filteredCount={filteredTransactions.length}
+          allCount={localTransactions.length}
+          onExport={handleExportData}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {/* Exclusion Rules Modal */}
+      {isSettingsOpen && (
+        <ExclusionRulesModal
+          rules={exclusionRules}
+          transactions={incomeCandidates}
+          categories={categories.filter(c => c !== 'Todas')}
+          onChange={setExclusionRules}
+          onResetDefaults={handleResetExclusionRules}
+          onClose={() => setIsSettingsOpen(false)}
+        />
       )}
 
     </div>
@@ -637,11 +1339,12 @@ interface StatsCardProps {
   trend?: string;
   colorClass: string;
   isCurrency?: boolean;
+  action?: React.ReactNode;
 }
 
-const StatsCard: React.FC<StatsCardProps> = ({ title, value, icon, trend, colorClass, isCurrency = true }) => {
+const StatsCard: React.FC<StatsCardProps> = ({ title, value, icon, trend, colorClass, isCurrency = true, action }) => {
   const formattedValue = isCurrency && typeof value === 'number' 
-    ? new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+    ? formatCurrency(value)
     : value;
 
   return (
@@ -653,6 +1356,7 @@ const StatsCard: React.FC<StatsCardProps> = ({ title, value, icon, trend, colorC
       <div>
         <h4 className={`text-2xl font-bold tracking-tight ${colorClass}`}>{formattedValue}</h4>
         {trend && <p className="text-xs text-slate-400 mt-1 font-medium">{trend}</p>}
+        {action}
       </div>
     </div>
   );
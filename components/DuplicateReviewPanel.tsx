@@ -0,0 +1,115 @@
+import React from 'react';
+import { Copy, Merge, Check } from 'lucide-react';
+import { DuplicateGroup, DuplicateReason } from '../services/deduplicationService';
+import { Transaction } from '../types';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface DuplicateReviewPanelProps {
+  groups: DuplicateGroup[];
+  dateToleranceDays: number;
+  onToleranceChange: (days: number) => void;
+  onMerge: (group: DuplicateGroup) => void;
+  onKeep: (group: DuplicateGroup) => void;
+  onMergeAll: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  'page-boundary': 'Repetida na quebra de páginas',
+  'overlapping-files': 'Extratos com períodos sobrepostos'
+};
+
+const TOLERANCE_OPTIONS = [0, 1, 2, 3];
+
+const formatSource = (t: Transaction) => {
+  if (!t.source) return 'Lançamento manual';
+  const { fileName, pageStart, pageEnd } = t.source;
+  if (pageStart === undefined) return fileName;
+  return pageStart === pageEnd ? `${fileName} • p. ${pageStart}` : `${fileName} • p. ${pageStart}–${pageEnd}`;
+};
+
+const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({
+  groups, dateToleranceDays, onToleranceChange, onMerge, onKeep, onMergeAll
+}) => {
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-amber-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Copy className="w-5 h-5 text-amber-500" />
+          <h3 className="text-lg font-semibold text-slate-800">Possíveis Duplicatas</h3>
+          <span className="text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full border border-amber-100">
+            {groups.length} grupo(s)
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-slate-500 flex items-center gap-2">
+            Tolerância de data
+            <select
+              value={dateToleranceDays}
+              onChange={(e) => onToleranceChange(parseInt(e.target.value, 10))}
+              className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {TOLERANCE_OPTIONS.map(days => (
+                <option key={days} value={days}>{days === 0 ? 'Mesmo dia' : `D+${days}`}</option>
+              ))}
+            </select>
+          </label>
+          {groups.length > 0 && (
+            <button
+              onClick={onMergeAll}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 rounded-lg transition-colors"
+            >
+              <Merge className="w-3.5 h-3.5" />
+              Mesclar todos
+            </button>
+          )}
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">Nenhuma duplicata pendente de revisão.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {groups.map(group => (
+            <div key={group.key} className="border border-slate-100 rounded-xl p-3 bg-slate-50">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-slate-500">{REASON_LABELS[group.reason]}</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onMerge(group)}
+                    className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-md transition-colors"
+                    title="Mantém apenas o primeiro lançamento"
+                  >
+                    <Merge className="w-3.5 h-3.5" />
+                    Mesclar
+                  </button>
+                  <button
+                    onClick={() => onKeep(group)}
+                    className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-md transition-colors"
+                    title="São lançamentos distintos"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                    Manter todas
+                  </button>
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {group.transactions.map((t, idx) => (
+                    <tr key={idx} className={idx > 0 ? 'text-slate-400' : 'text-slate-700'}>
+                      <td className="py-1 pr-3 font-mono w-24">{formatDate(t.date)}</td>
+                      <td className="py-1 pr-3">{t.description}</td>
+                      <td className="py-1 pr-3 text-slate-400">{formatSource(t)}</td>
+                      <td className="py-1 text-right font-semibold w-28">{formatCurrency(t.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateReviewPanel;
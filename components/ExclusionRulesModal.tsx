@@ -0,0 +1,353 @@
+import React, { useMemo, useState } from 'react';
+import { Settings, X, Plus, Pencil, Trash2, RotateCcw, ChevronDown, ChevronRight, Save, Check } from 'lucide-react';
+import { AmountOperator, ExclusionCondition, ExclusionRule, TextMatchMode, Transaction } from '../types';
+import {
+  EXCLUSION_PRESETS,
+  getExclusionMatches,
+  instantiatePreset,
+  isValidCondition
+} from '../services/exclusionService';
+import { createId } from '../utils/id';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface ExclusionRulesModalProps {
+  rules: ExclusionRule[];
+  // Entradas candidatas à exclusão (as regras não afetam saídas)
+  transactions: Transaction[];
+  categories: string[];
+  onChange: (rules: ExclusionRule[]) => void;
+  onResetDefaults: () => void;
+  onClose: () => void;
+}
+
+const TEXT_MODE_LABELS: Record<TextMatchMode, string> = {
+  contains: 'contém',
+  word: 'palavra inteira',
+  regex: 'expressão regular'
+};
+
+const OPERATOR_LABELS: Record<AmountOperator, string> = {
+  gt: 'maior que',
+  gte: 'maior ou igual a',
+  lt: 'menor que',
+  lte: 'menor ou igual a'
+};
+
+// Limite de linhas exibidas ao expandir uma regra
+const MAX_PREVIEW_ROWS = 50;
+
+const describeCondition = (condition: ExclusionCondition) => {
+  const prefix = condition.negate ? 'NÃO ' : '';
+  switch (condition.type) {
+    case 'text':
+      return `${prefix}descrição ${TEXT_MODE_LABELS[condition.mode]} "${condition.value}"`;
+    case 'amount':
+      return `${prefix}valor ${OPERATOR_LABELS[condition.operator]} ${formatCurrency(condition.value)}`;
+    case 'category':
+      return `${prefix}categoria = ${condition.value}`;
+  }
+};
+
+const newCondition = (type: ExclusionCondition['type']): ExclusionCondition => {
+  if (type === 'amount') return { type, operator: 'gt', value: 0 };
+  if (type === 'category') return { type, value: '' };
+  return { type, mode: 'word', value: '' };
+};
+
+const ExclusionRulesModal: React.FC<ExclusionRulesModalProps> = ({
+  rules, transactions, categories, onChange, onResetDefaults, onClose
+}) => {
+  const [draft, setDraft] = useState<ExclusionRule | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const matches = useMemo(() => getExclusionMatches(transactions, rules), [transactions, rules]);
+  const draftMatches = useMemo(
+    () => (draft && draft.conditions.every(isValidCondition) ? getExclusionMatches(transactions, [draft])[0].transactions : []),
+    [draft, transactions]
+  );
+
+  const handleToggle = (rule: ExclusionRule) => {
+    onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)));
+  };
+
+  const handleDelete = (rule: ExclusionRule) => {
+    onChange(rules.filter(r => r.id !== rule.id));
+  };
+
+  const handleAddPreset = (presetId: string) => {
+    const preset = EXCLUSION_PRESETS.find(p => p.id === presetId);
+    if (preset) onChange([...rules, ...instantiatePreset(preset)]);
+  };
+
+  const handleSaveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const exists = rules.some(r => r.id === draft.id);
+    onChange(exists ? rules.map(r => (r.id === draft.id ? draft : r)) : [...rules, draft]);
+    setDraft(null);
+  };
+
+  const updateCondition = (index: number, condition: ExclusionCondition) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((c, i) => (i === index ? condition : c)) });
+  };
+
+  const removeCondition = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) });
+  };
+
+  const draftValid = !!draft && draft.name.trim() !== '' && draft.conditions.length > 0 && draft.conditions.every(isValidCondition);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <Settings className="w-5 h-5 text-slate-500" />
+            <h3 className="text-lg font-semibold text-slate-800">Regras de Exclusão</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSaveDraft} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Nome da regra</label>
+              <input
+                type="text"
+                required
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="Ex: Pix da própria empresa"
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">Excluir quando TODAS as condições forem verdadeiras:</p>
+              <div className="space-y-2">
+                {draft.conditions.map((condition, idx) => (
+                  <div key={idx} className={`flex flex-wrap items-center gap-2 p-2 rounded-lg border ${isValidCondition(condition) ? 'border-slate-200' : 'border-red-300 bg-red-50'}`}>
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={!!condition.negate}
+                        onChange={(e) => updateCondition(idx, { ...condition, negate: e.target.checked })}
+                      />
+                      NÃO
+                    </label>
+                    <select
+                      value={condition.type}
+                      onChange={(e) => updateCondition(idx, { ...newCondition(e.target.value as ExclusionCondition['type']), negate: condition.negate })}
+                      className="px-2 py-1 border border-slate-300 rounded-md text-xs"
+                    >
+                      <option value="text">Descrição</option>
+                      <option value="amount">Valor</option>
+                      <option value="category">Categoria</option>
+                    </select>
+
+                    {condition.type === 'text' && (
+                      <>
+                        <select
+                          value={condition.mode}
+                          onChange={(e) => updateCondition(idx, { ...condition, mode: e.target.value as TextMatchMode })}
+                          className="px-2 py-1 border border-slate-300 rounded-md text-xs"
+                        >
+                          {(Object.keys(TEXT_MODE_LABELS) as TextMatchMode[]).map(mode => (
+                            <option key={mode} value={mode}>{TEXT_MODE_LABELS[mode]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={condition.value}
+                          onChange={(e) => updateCondition(idx, { ...condition, value: e.target.value })}
+                          className={`flex-1 min-w-[8rem] px-2 py-1 border border-slate-300 rounded-md text-xs ${condition.mode === 'regex' ? 'font-mono' : ''}`}
+                        />
+                      </>
+                    )}
+
+                    {condition.type === 'amount' && (
+                      <>
+                        <select
+                          value={condition.operator}
+                          onChange={(e) => updateCondition(idx, { ...condition, operator: e.target.value as AmountOperator })}
+                          className="px-2 py-1 border border-slate-300 rounded-md text-xs"
+                        >
+                          {(Object.keys(OPERATOR_LABELS) as AmountOperator[]).map(op => (
+                            <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={isNaN(condition.value) ? '' : condition.value}
+                          onChange={(e) => updateCondition(idx, { ...condition, value: parseFloat(e.target.value) })}
+                          className="w-32 px-2 py-1 border border-slate-300 rounded-md text-xs"
+                        />
+                      </>
+                    )}
+
+                    {condition.type === 'category' && (
+                      <>
+                        <input
+                          type="text"
+                          value={condition.value}
+                          onChange={(e) => updateCondition(idx, { ...condition, value: e.target.value })}
+                          className="flex-1 min-w-[8rem] px-2 py-1 border border-slate-300 rounded-md text-xs"
+                          list="exclusion-category-list"
+                        />
+                        <datalist id="exclusion-category-list">
+                          {categories.map(c => <option key={c} value={c} />)}
+                        </datalist>
+                      </>
+                    )}
+
+                    <button type="button" onClick={() => removeCondition(idx)} className="ml-auto text-slate-400 hover:text-red-500" title="Remover condição">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, newCondition('text')] })}
+                className="mt-2 flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Adicionar condição
+              </button>
+            </div>
+
+            <div className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+              <p className="mb-1">Esta regra removeria <strong>{draftMatches.length}</strong> entrada(s):</p>
+              <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                {draftMatches.slice(0, MAX_PREVIEW_ROWS).map((t, idx) => (
+                  <li key={idx} className="flex justify-between gap-2">
+                    <span className="truncate">{formatDate(t.date)} • {t.description}</span>
+                    <span className="font-medium">{formatCurrency(t.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="pt-2 flex gap-3">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={!draftValid}
+                className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                Salvar Regra
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6">
+            <p className="text-sm text-slate-500 mb-4">
+              Entradas que casarem com qualquer regra ativa são <strong>excluídas</strong> do cálculo de renda média e da lista.
+              A comparação de texto ignora maiúsculas e acentos.
+            </p>
+
+            {/* Presets */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {EXCLUSION_PRESETS.map(preset => {
+                const active = rules.some(r => r.presetId === preset.id);
+                return (
+                  <button
+                    key={preset.id}
+                    onClick={() => handleAddPreset(preset.id)}
+                    disabled={active}
+                    title={preset.description}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      active ? 'bg-emerald-50 text-emerald-700 border-emerald-100 cursor-default' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300 hover:text-indigo-600'
+                    }`}
+                  >
+                    {active ? <Check className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                    {preset.name}
+                  </button>
+                );
+              })}
+              <button
+                onClick={() => setDraft({ id: createId(), name: '', enabled: true, conditions: [newCondition('text')] })}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                <Plus className="w-3 h-3" />
+                Nova regra
+              </button>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+              {matches.map(({ rule, transactions: removed }) => (
+                <div key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                  <div className="p-3 flex items-center gap-3">
+                    <button onClick={() => setExpandedId(expandedId === rule.id ? null : rule.id)} className="text-slate-400 hover:text-slate-600">
+                      {expandedId === rule.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} title="Ativar/desativar" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-800 truncate">{rule.name}</p>
+                      <p className="text-xs text-slate-500 truncate">{rule.conditions.map(describeCondition).join(' E ')}</p>
+                    </div>
+                    <span className="text-xs text-orange-700 bg-orange-50 px-2 py-0.5 rounded-full border border-orange-100 whitespace-nowrap">
+                      remove {removed.length}
+                    </span>
+                    <button onClick={() => setDraft(rule)} className="p-1 text-slate-400 hover:text-indigo-600" title="Editar">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(rule)} className="p-1 text-slate-400 hover:text-red-600" title="Excluir">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {expandedId === rule.id && (
+                    <ul className="px-10 pb-3 text-xs text-slate-600 space-y-0.5">
+                      {removed.slice(0, MAX_PREVIEW_ROWS).map((t, idx) => (
+                        <li key={idx} className="flex justify-between gap-2">
+                          <span className="truncate">{formatDate(t.date)} • {t.description}</span>
+                          <span className="font-medium">{formatCurrency(t.amount)}</span>
+                        </li>
+                      ))}
+                      {removed.length === 0 && <li className="italic text-slate-400">Nenhuma entrada removida por esta regra.</li>}
+                      {removed.length > MAX_PREVIEW_ROWS && <li className="italic text-slate-400">e mais {removed.length - MAX_PREVIEW_ROWS}...</li>}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              {rules.length === 0 && (
+                <p className="text-xs text-slate-400 p-4 italic text-center">Nenhuma regra de exclusão no momento.</p>
+              )}
+            </div>
+
+            <div className="flex justify-between items-center pt-2 border-t border-slate-100 mt-4">
+              <button
+                onClick={onResetDefaults}
+                className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Restaurar Padrão
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg font-medium text-sm"
+              >
+                Concluir
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExclusionRulesModal;
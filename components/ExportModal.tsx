@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { FileOutput, X, Download, FileText, FileSpreadsheet, Landmark, FileJson } from 'lucide-react';
+import { BRAZILIAN_CSV_OPTIONS, CsvOptions, ExportFormat } from '../services/exportService';
+
+export type ExportScope = 'filtered' | 'all';
+
+interface ExportModalProps {
+  filteredCount: number;
+  allCount: number;
+  onExport: (format: ExportFormat, scope: ExportScope, csvOptions: CsvOptions) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { id: ExportFormat; name: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'csv', name: 'CSV', description: 'Texto separado por colunas, para qualquer planilha ou sistema.', icon: <FileText className="w-4 h-4 text-slate-400" /> },
+  { id: 'xlsx', name: 'Excel (XLSX)', description: 'Transações e uma aba com o resumo mensal.', icon: <FileSpreadsheet className="w-4 h-4 text-slate-400" /> },
+  { id: 'ofx', name: 'OFX', description: 'Para importar em softwares contábeis e financeiros. Leva só as transações consideradas.', icon: <Landmark className="w-4 h-4 text-slate-400" /> },
+  { id: 'json', name: 'Análise completa (JSON)', description: 'Transações, edições, regras e filtros. Pode ser importada de volta para restaurar a análise.', icon: <FileJson className="w-4 h-4 text-slate-400" /> }
+];
+
+const ExportModal: React.FC<ExportModalProps> = ({ filteredCount, allCount, onExport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(BRAZILIAN_CSV_OPTIONS);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onExport(format, scope, csvOptions);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <FileOutput className="w-5 h-5 text-slate-500" />
+            <h3 className="text-lg font-semibold text-slate-800">Exportar Dados</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                  format === option.id ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="format"
+                  className="mt-1"
+                  checked={format === option.id}
+                  onChange={() => setFormat(option.id)}
+                />
+                <div>
+                  <p className="text-sm font-medium text-slate-800 flex items-center gap-1.5">
+                    {option.icon}
+                    {option.name}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-0.5">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {format !== 'json' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Transações</label>
+              <div className="space-y-1 text-sm text-slate-700">
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="scope" checked={scope === 'filtered'} onChange={() => setScope('filtered')} />
+                  Como na tabela, com os filtros atuais ({filteredCount})
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="scope" checked={scope === 'all'} onChange={() => setScope('all')} />
+                  Todas, com a coluna "Excluída" e o motivo ({allCount})
+                </label>
+              </div>
+            </div>
+          )}
+
+          {format === 'csv' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Separador</label>
+                <select
+                  value={csvOptions.delimiter}
+                  onChange={(e) => setCsvOptions({ ...csvOptions, delimiter: e.target.value as CsvOptions['delimiter'] })}
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value=";">Ponto e vírgula (;)</option>
+                  <option value=",">Vírgula (,)</option>
+                  <option value={'\t'}>Tabulação</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Decimal</label>
+                <select
+                  value={csvOptions.decimalSeparator}
+                  onChange={(e) => setCsvOptions({ ...csvOptions, decimalSeparator: e.target.value as CsvOptions['decimalSeparator'] })}
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value=",">1234,56</option>
+                  <option value=".">1234.56</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Datas</label>
+                <select
+                  value={csvOptions.dateFormat}
+                  onChange={(e) => setCsvOptions({ ...csvOptions, dateFormat: e.target.value as CsvOptions['dateFormat'] })}
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="br">DD/MM/AAAA</option>
+                  <option value="iso">AAAA-MM-DD</option>
+                </select>
+              </div>
+              {csvOptions.delimiter === ',' && csvOptions.decimalSeparator === ',' && (
+                <p className="col-span-3 text-xs text-amber-700">
+                  Vírgula como separador e como decimal: os valores irão entre aspas.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="pt-2 flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Exportar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
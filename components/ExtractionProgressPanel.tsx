@@ -0,0 +1,119 @@
+import React from 'react';
+import { FileText, X, CheckCircle2, XCircle, Loader2, Clock, Ban, StopCircle } from 'lucide-react';
+import { ExtractionProgress, FileProgress, FileProgressStatus } from '../services/extractionProgress';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface ExtractionProgressPanelProps {
+  progress: ExtractionProgress;
+  onCancelFile: (fileId: string) => void;
+  onCancelAll: () => void;
+}
+
+// Quantas transações da prévia ao vivo ficam visíveis
+const PREVIEW_ROWS = 8;
+
+const STATUS_ICONS: Record<FileProgressStatus, React.ReactNode> = {
+  queued: <Clock className="w-4 h-4 text-slate-400" />,
+  processing: <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-emerald-500" />,
+  error: <XCircle className="w-4 h-4 text-red-500" />,
+  cancelled: <Ban className="w-4 h-4 text-slate-400" />
+};
+
+const describeFile = (file: FileProgress) => {
+  if (file.status === 'queued') return 'Na fila';
+  if (file.status === 'error') return file.reason || 'Falha na leitura';
+  const pages = file.pagesTotal !== undefined
+    ? `${file.pagesRead} de ${file.pagesTotal} páginas`
+    : file.status === 'processing' ? 'Abrindo arquivo...' : '';
+  const failed = file.pagesFailed > 0 ? ` • ${file.pagesFailed} não lidas` : '';
+  const cancelled = file.status === 'cancelled' ? ' • cancelado' : '';
+  return `${pages}${failed}${cancelled}`;
+};
+
+const ExtractionProgressPanel: React.FC<ExtractionProgressPanelProps> = ({ progress, onCancelFile, onCancelAll }) => {
+  const isActive = (file: FileProgress) => file.status === 'queued' || file.status === 'processing';
+  const activeCount = progress.files.filter(isActive).length;
+  const totalFound = progress.files.reduce((acc, f) => acc + f.transactionsFound, 0);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto px-4 space-y-4">
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-800">
+              Lendo {progress.files.length} {progress.files.length === 1 ? 'arquivo' : 'arquivos'}
+            </h3>
+            <p className="text-xs text-slate-500">{totalFound} transações encontradas até agora</p>
+          </div>
+          {activeCount > 0 && (
+            <button
+              onClick={onCancelAll}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+            >
+              <StopCircle className="w-3.5 h-3.5" />
+              Cancelar tudo
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {progress.files.map(file => {
+            const percent = file.pagesTotal
+              ? Math.round(((file.pagesRead + file.pagesFailed) / file.pagesTotal) * 100)
+              : file.status === 'done' ? 100 : 0;
+            return (
+              <div key={file.id}>
+                <div className="flex items-center gap-2 text-sm">
+                  {STATUS_ICONS[file.status]}
+                  <FileText className="w-4 h-4 text-slate-300 flex-shrink-0" />
+                  <span className="flex-1 truncate text-slate-700">{file.fileName}</span>
+                  <span className="text-xs text-slate-500 flex-shrink-0">{file.transactionsFound} transações</span>
+                  {isActive(file) && (
+                    <button
+                      onClick={() => onCancelFile(file.id)}
+                      className="p-0.5 text-slate-400 hover:text-red-600"
+                      title="Cancelar este arquivo"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="ml-12 mt-1">
+                  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all duration-300 ${file.status === 'error' ? 'bg-red-400' : file.pagesFailed > 0 ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                  <p className={`text-xs mt-1 ${file.status === 'error' ? 'text-red-600' : 'text-slate-400'}`}>{describeFile(file)}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {progress.preview.length > 0 && (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+          <h3 className="text-sm font-semibold text-slate-800 mb-3">Prévia ao vivo</h3>
+          <table className="w-full text-xs">
+            <tbody className="divide-y divide-slate-100">
+              {progress.preview.slice(0, PREVIEW_ROWS).map((t, idx) => (
+                <tr key={idx} className="animate-fadeIn">
+                  <td className="py-1.5 pr-3 text-slate-500 font-mono whitespace-nowrap">{formatDate(t.date)}</td>
+                  <td className="py-1.5 pr-3 text-slate-700 truncate max-w-[16rem]">{t.description}</td>
+                  <td className={`py-1.5 text-right font-medium whitespace-nowrap ${t.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {formatCurrency(t.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionProgressPanel;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Cpu, X, Save, Cloud, HardDrive } from 'lucide-react';
+import { ExtractionSettings, PROVIDER_OPTIONS } from '../services/extractionProvider';
+import { GEMINI_MODELS } from '../services/geminiService';
+
+interface ExtractionSettingsModalProps {
+  settings: ExtractionSettings;
+  onSave: (settings: ExtractionSettings) => void;
+  onClose: () => void;
+}
+
+const ExtractionSettingsModal: React.FC<ExtractionSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ExtractionSettings>(settings);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-slate-500" />
+            <h3 className="text-lg font-semibold text-slate-800">Leitura dos Extratos em PDF</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="space-y-2">
+            {PROVIDER_OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                  draft.providerId === option.id ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  className="mt-1"
+                  checked={draft.providerId === option.id}
+                  onChange={() => setDraft({ ...draft, providerId: option.id })}
+                />
+                <div>
+                  <p className="text-sm font-medium text-slate-800 flex items-center gap-1.5">
+                    {option.sendsDataToCloud ? <Cloud className="w-4 h-4 text-slate-400" /> : <HardDrive className="w-4 h-4 text-slate-400" />}
+                    {option.name}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-0.5">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {draft.providerId === 'gemini' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Modelo</label>
+              <select
+                value={draft.geminiModel}
+                onChange={(e) => setDraft({ ...draft, geminiModel: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {GEMINI_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-400">
+            Arquivos OFX, CSV e XLSX são sempre lidos localmente, qualquer que seja a opção.
+          </p>
+
+          <div className="pt-2 flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              Salvar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionSettingsModal;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { FileWarning, RotateCcw, Loader2 } from 'lucide-react';
+import { FailedPageRange } from '../types';
+
+interface FailedPagesPanelProps {
+  failures: FailedPageRange[];
+  retrying: FailedPageRange[];
+  canRetry: boolean;
+  onRetry: (failure: FailedPageRange) => void;
+  onRetryAll: () => void;
+}
+
+const formatPages = (failure: FailedPageRange) => {
+  if (failure.pageStart === undefined || failure.pageEnd === undefined) return 'Arquivo inteiro';
+  return failure.pageStart === failure.pageEnd
+    ? `Página ${failure.pageStart}`
+    : `Páginas ${failure.pageStart}–${failure.pageEnd}`;
+};
+
+const FailedPagesPanel: React.FC<FailedPagesPanelProps> = ({ failures, retrying, canRetry, onRetry, onRetryAll }) => {
+  const isBusy = retrying.length > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-amber-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2">
+          <FileWarning className="w-5 h-5 text-amber-500" />
+          <h3 className="text-lg font-semibold text-slate-800">Páginas Não Lidas</h3>
+          <span className="text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full border border-amber-100">
+            {failures.length} {failures.length === 1 ? 'trecho' : 'trechos'}
+          </span>
+        </div>
+        {canRetry && failures.length > 1 && (
+          <button
+            onClick={onRetryAll}
+            disabled={isBusy}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Tentar todas
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        O restante dos arquivos foi lido normalmente. Os totais abaixo ainda não incluem estes trechos.
+      </p>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {failures.map((failure, idx) => {
+          const isRetrying = retrying.includes(failure);
+          return (
+            <div key={`${failure.fileName}-${failure.pageStart ?? 'all'}-${idx}`} className="flex items-center justify-between gap-3 border border-slate-100 rounded-xl p-3 bg-slate-50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">
+                  {failure.fileName} <span className="text-slate-500 font-normal">• {formatPages(failure)}</span>
+                </p>
+                <p className="text-xs text-amber-700">{failure.reason}</p>
+              </div>
+              {canRetry && (
+                <button
+                  onClick={() => onRetry(failure)}
+                  disabled={isRetrying}
+                  className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-amber-700 bg-white border border-amber-200 hover:bg-amber-50 disabled:opacity-60 rounded-md flex-shrink-0"
+                >
+                  {isRetrying ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                  {isRetrying ? 'Lendo...' : 'Tentar novamente'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FailedPagesPanel;
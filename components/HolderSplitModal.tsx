@@ -0,0 +1,69 @@
+import React from 'react';
+import { Users, Split, Merge, FileText } from 'lucide-react';
+import { BatchFileRef, HolderGroup } from '../services/accountService';
+
+interface HolderSplitModalProps {
+  groups: HolderGroup[];
+  files: BatchFileRef[]; // Todos os arquivos do lote
+  onKeepTogether: () => void;
+  onSplit: () => void;
+}
+
+const HolderSplitModal: React.FC<HolderSplitModalProps> = ({ groups, files, onKeepTogether, onSplit }) => {
+  const unassigned = files.filter(file => !groups.some(g => g.files.some(f => f.id === file.id)));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2 bg-amber-50">
+          <Users className="w-5 h-5 text-amber-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Titulares diferentes no mesmo lote</h3>
+            <p className="text-xs text-slate-500">Juntos, os extratos somam a renda de {groups.length} pessoas ou empresas.</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+          {groups.map(group => (
+            <div key={group.key} className="border border-slate-200 rounded-xl p-3">
+              <p className="text-sm font-medium text-slate-800">{group.holder}</p>
+              {group.document && <p className="text-xs text-slate-500">{group.document}</p>}
+              <ul className="mt-2 space-y-0.5">
+                {group.files.map(file => (
+                  <li key={file.id} className="flex items-center gap-1.5 text-xs text-slate-600">
+                    <FileText className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
+                    <span className="truncate">{file.name}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {unassigned.length > 0 && (
+            <p className="text-xs text-slate-500">
+              Sem titular identificado ({unassigned.map(f => f.name).join(', ')}): {unassigned.length === 1 ? 'fica' : 'ficam'} com {groups[0].holder} ao separar.
+            </p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={onKeepTogether}
+            className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium flex items-center justify-center gap-2"
+          >
+            <Merge className="w-4 h-4" />
+            Analisar juntos
+          </button>
+          <button
+            onClick={onSplit}
+            className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg font-medium flex items-center justify-center gap-2"
+          >
+            <Split className="w-4 h-4" />
+            Separar em {groups.length} análises
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HolderSplitModal;
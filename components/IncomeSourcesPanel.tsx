@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { HandCoins } from 'lucide-react';
+import { IncomeSource, isRecurring, RECURRENCE_LABELS, RecurrenceType } from '../services/incomeSourceService';
+import { formatCurrency } from '../utils/formatters';
+
+interface IncomeSourcesPanelProps {
+  sources: IncomeSource[];
+  recurringIncome: number;
+}
+
+const RECURRENCE_BADGE: Record<RecurrenceType, string> = {
+  monthly: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  biweekly: 'bg-sky-50 text-sky-700 border-sky-100',
+  irregular: 'bg-amber-50 text-amber-700 border-amber-100',
+  'one-off': 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+// Pagamentos avulsos ficam recolhidos: costumam ser muitos e pouco dizem sobre a renda
+const IncomeSourcesPanel: React.FC<IncomeSourcesPanelProps> = ({ sources, recurringIncome }) => {
+  const [showOneOff, setShowOneOff] = useState(false);
+  const oneOff = sources.filter(s => s.recurrence === 'one-off');
+  const visible = showOneOff ? sources : sources.filter(s => s.recurrence !== 'one-off');
+  const recurringCount = sources.filter(isRecurring).length;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <HandCoins className="w-5 h-5 text-slate-500" />
+          <h3 className="text-lg font-semibold text-slate-800">Fontes de Renda</h3>
+        </div>
+        <span className="text-xs text-slate-500">
+          {recurringCount} fonte(s) recorrente(s) somando {formatCurrency(recurringIncome)}/mês
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+              <th className="py-2 pr-4 font-medium">Pagador</th>
+              <th className="py-2 pr-4 font-medium">Recorrência</th>
+              <th className="py-2 pr-4 font-medium text-center">Dia típico</th>
+              <th className="py-2 pr-4 font-medium text-right">Valor médio</th>
+              <th className="py-2 pr-4 font-medium text-right">Pagamentos</th>
+              <th className="py-2 font-medium text-right">Por mês</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.map(source => (
+              <tr key={source.payer}>
+                <td className="py-2 pr-4 font-medium text-slate-800">{source.payer}</td>
+                <td className="py-2 pr-4">
+                  <span className={`text-xs px-2 py-0.5 rounded-md border ${RECURRENCE_BADGE[source.recurrence]}`}>
+                    {RECURRENCE_LABELS[source.recurrence]}
+                  </span>
+                </td>
+                <td className="py-2 pr-4 text-center text-slate-600">
+                  {source.recurrence === 'monthly' ? source.typicalDay : '—'}
+                </td>
+                <td className="py-2 pr-4 text-right text-slate-700">
+                  {formatCurrency(source.averageAmount)}
+                  {source.count > 1 && (
+                    <span className="block text-xs text-slate-400" title={`Desvio padrão de ${formatCurrency(source.amountDeviation)}`}>
+                      ± {(source.amountVariation * 100).toFixed(0)}%
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right text-slate-600">
+                  {source.count}
+                  {source.count > 1 && <span className="text-xs text-slate-400"> em {source.months} mês(es)</span>}
+                </td>
+                <td className={`py-2 text-right font-medium ${isRecurring(source) ? 'text-emerald-600' : 'text-slate-400'}`}>
+                  {source.recurrence === 'one-off' ? '—' : formatCurrency(source.monthlyEquivalent)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {oneOff.length > 0 && (
+        <button onClick={() => setShowOneOff(!showOneOff)} className="mt-3 text-xs text-indigo-600 hover:underline">
+          {showOneOff
+            ? 'Ocultar pagamentos avulsos'
+            : `Mostrar ${oneOff.length} pagamento(s) avulso(s) (${formatCurrency(oneOff.reduce((acc, s) => acc + s.total, 0))})`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default IncomeSourcesPanel;
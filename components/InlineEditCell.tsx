@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+interface InlineEditCellProps {
+  value: string; // Valor inicial do campo de edição
+  type?: 'text' | 'date';
+  suggestions?: string[]; // Opções do datalist (ex: categorias existentes)
+  inputClassName?: string;
+  title?: string;
+  // Devolve false quando o valor não é aceito; o campo continua aberto
+  onSave: (value: string) => boolean;
+  children: React.ReactNode; // Exibição fora da edição
+}
+
+// Clique para editar; Enter ou sair do campo salva, Esc cancela
+const InlineEditCell: React.FC<InlineEditCellProps> = ({ value, type = 'text', suggestions, inputClassName = '', title, onSave, children }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const listId = suggestions ? `inline-suggestions-${type}` : undefined;
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() === value || onSave(draft.trim())) {
+      setDraft(null);
+      setInvalid(false);
+    } else {
+      setInvalid(true);
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <div
+        onClick={() => setDraft(value)}
+        className="cursor-text rounded -mx-1 px-1 hover:bg-indigo-50/60"
+        title={title ?? 'Clique para editar'}
+      >
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <input
+        autoFocus
+        type={type}
+        value={draft}
+        list={listId}
+        onChange={(e) => { setDraft(e.target.value); setInvalid(false); }}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') { setDraft(null); setInvalid(false); }
+        }}
+        className={`w-full px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 ${
+          invalid ? 'border-red-300 focus:ring-red-400' : 'border-indigo-300 focus:ring-indigo-500'
+        } ${inputClassName}`}
+      />
+      {suggestions && (
+        <datalist id={listId}>
+          {suggestions.map(s => <option key={s} value={s} />)}
+        </datalist>
+      )}
+    </>
+  );
+};
+
+export default InlineEditCell;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { CalendarRange, AlertCircle } from 'lucide-react';
+import { AnalysisPeriod, PartialMonth, PartialMonthHandling, PeriodPreset, PeriodSelection } from '../types';
+import { describePeriod, PERIOD_PRESET_LABELS } from '../services/periodService';
+
+interface PeriodPickerProps {
+  selection: PeriodSelection;
+  onChange: (selection: PeriodSelection) => void;
+  period?: AnalysisPeriod; // Intervalo resolvido a partir da seleção
+  years: number[];
+  partialMonths: PartialMonth[];
+}
+
+const HANDLING_OPTIONS: { id: PartialMonthHandling; label: string; description: string }[] = [
+  { id: 'include', label: 'Manter', description: 'Entram com o que foi lançado nos dias cobertos' },
+  { id: 'exclude', label: 'Excluir', description: 'Ficam fora das médias, do gráfico e das exportações' },
+  { id: 'prorate', label: 'Proporcionalizar', description: 'Valores projetados para o mês inteiro pelos dias cobertos' }
+];
+
+const formatMonth = (month: string) => {
+  const [y, m] = month.split('-');
+  return `${m}/${y}`;
+};
+
+const PeriodPicker: React.FC<PeriodPickerProps> = ({ selection, onChange, period, years, partialMonths }) => {
+  const selectPreset = (preset: PeriodPreset) => {
+    if (preset === 'year') onChange({ ...selection, preset, year: selection.year ?? years[0] });
+    else if (preset === 'custom') onChange({ ...selection, preset, from: selection.from ?? period?.from, to: selection.to ?? period?.to });
+    else onChange({ ...selection, preset });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100 space-y-3">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <CalendarRange className="w-4 h-4 text-slate-500" />
+          Período
+        </div>
+        <div className="inline-flex flex-wrap p-1 bg-slate-100 rounded-lg">
+          {(Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => selectPreset(preset)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                selection.preset === preset ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {PERIOD_PRESET_LABELS[preset]}
+            </button>
+          ))}
+        </div>
+
+        {selection.preset === 'year' && (
+          <select
+            value={selection.year ?? ''}
+            onChange={(e) => onChange({ ...selection, year: Number(e.target.value) })}
+            className="px-2 py-1 border border-slate-200 rounded-lg text-xs text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {years.map(year => <option key={year} value={year}>{year}</option>)}
+          </select>
+        )}
+
+        {selection.preset === 'custom' && (
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="date"
+              value={selection.from ?? ''}
+              onChange={(e) => onChange({ ...selection, from: e.target.value || undefined })}
+              className="px-2 py-1 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            a
+            <input
+              type="date"
+              value={selection.to ?? ''}
+              onChange={(e) => onChange({ ...selection, to: e.target.value || undefined })}
+              className="px-2 py-1 border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        )}
+
+        <span className="text-xs text-slate-500 lg:ml-auto">{describePeriod(period)}</span>
+      </div>
+
+      {partialMonths.length > 0 && (
+        <div className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-xl bg-amber-50 border border-amber-100">
+          <div className="flex items-start gap-2 text-xs text-amber-800 flex-grow">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              Mês(es) parcial(is):{' '}
+              {partialMonths.map(p => `${formatMonth(p.month)} (${p.coveredDays} de ${p.totalDays} dias)`).join(', ')}
+            </span>
+          </div>
+          <div className="inline-flex p-1 bg-white/70 rounded-lg flex-shrink-0">
+            {HANDLING_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onChange({ ...selection, partialMonths: option.id })}
+                title={option.description}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                  selection.partialMonths === option.id ? 'bg-white text-amber-700 shadow-sm' : 'text-amber-600/70 hover:text-amber-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodPicker;
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Images, X, ChevronUp, ChevronDown, Trash2, ImageOff, ScanLine } from 'lucide-react';
+
+interface PhotoOrderModalProps {
+  photos: File[];
+  onConfirm: (ordered: File[]) => void;
+  onCancel: () => void;
+}
+
+// Miniatura da foto; formatos que o navegador não exibe (HEIC fora do Safari) mostram só o nome
+const PhotoThumbnail: React.FC<{ url: string; name: string }> = ({ url, name }) => {
+  const [failed, setFailed] = useState(false);
+  return failed ? (
+    <div className="w-16 h-20 rounded-md bg-slate-100 flex items-center justify-center flex-shrink-0" title={name}>
+      <ImageOff className="w-5 h-5 text-slate-400" />
+    </div>
+  ) : (
+    <img src={url} alt={name} onError={() => setFailed(true)} className="w-16 h-20 rounded-md object-cover bg-slate-100 flex-shrink-0" />
+  );
+};
+
+const PhotoOrderModal: React.FC<PhotoOrderModalProps> = ({ photos, onConfirm, onCancel }) => {
+  // Ordem inicial pelo nome: câmeras numeram as fotos na sequência em que foram tiradas
+  const [order, setOrder] = useState<File[]>(() =>
+    [...photos].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR', { numeric: true }))
+  );
+
+  const urls = useMemo(() => new Map(photos.map(photo => [photo, URL.createObjectURL(photo)])), [photos]);
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setOrder(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <Images className="w-5 h-5 text-slate-500" />
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800">Organizar Fotos do Extrato</h3>
+              <p className="text-xs text-slate-500">As fotos viram um único extrato, uma página por foto, nesta ordem.</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" title="Ignorar fotos">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2 max-h-[60vh] overflow-y-auto">
+          {order.map((photo, idx) => (
+            <div key={`${photo.name}-${photo.lastModified}-${photo.size}`} className="flex items-center gap-3 p-2 rounded-xl border border-slate-200">
+              <PhotoThumbnail url={urls.get(photo)!} name={photo.name} />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-slate-500 uppercase">Página {idx + 1}</p>
+                <p className="text-sm text-slate-800 truncate">{photo.name}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => move(idx, -1)}
+                  disabled={idx === 0}
+                  className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                  title="Subir"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(idx, 1)}
+                  disabled={idx === order.length - 1}
+                  className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                  title="Descer"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setOrder(order.filter(p => p !== photo))}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Remover foto"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {order.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-6">Nenhuma foto selecionada.</p>
+          )}
+        </div>
+
+        <div className="px-6 pb-6 space-y-3">
+          <p className="text-xs text-slate-400">
+            As imagens são endireitadas, recortadas e têm o contraste ajustado antes da leitura.
+            Linhas pouco legíveis ficam marcadas para conferência no painel.
+          </p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+            >
+              Ignorar fotos
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(order)}
+              disabled={order.length === 0}
+              className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <ScanLine className="w-4 h-4" />
+              Ler {order.length} {order.length === 1 ? 'página' : 'páginas'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoOrderModal;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { CheckCircle2, XCircle, HelpCircle, Scale } from 'lucide-react';
+import { ReconciliationResult, ReconciliationStatus } from '../types';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface ReconciliationPanelProps {
+  reconciliations: ReconciliationResult[];
+}
+
+const STATUS_BADGE: Record<ReconciliationStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  ok: {
+    label: 'Saldos conferem',
+    className: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+    icon: <CheckCircle2 className="w-3.5 h-3.5" />
+  },
+  mismatch: {
+    label: 'Divergência',
+    className: 'bg-red-50 text-red-700 border-red-100',
+    icon: <XCircle className="w-3.5 h-3.5" />
+  },
+  unavailable: {
+    label: 'Sem saldos no extrato',
+    className: 'bg-slate-50 text-slate-500 border-slate-200',
+    icon: <HelpCircle className="w-3.5 h-3.5" />
+  }
+};
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ reconciliations }) => {
+  const failing = reconciliations.filter(r => r.status === 'mismatch').length;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-slate-500" />
+          <h3 className="text-lg font-semibold text-slate-800">Conciliação de Saldos</h3>
+        </div>
+        <span className="text-xs text-slate-500">
+          {failing > 0 ? `${failing} extrato(s) precisam de revisão` : 'Nenhuma divergência encontrada'}
+        </span>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {reconciliations.map((r, idx) => {
+          const badge = STATUS_BADGE[r.status];
+          return (
+            <div key={idx} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium text-slate-800">{r.fileName}</p>
+                <p className="text-xs text-slate-500">
+                  {r.bankName}
+                  {r.periodStart && r.periodEnd && ` • ${formatDate(r.periodStart)} a ${formatDate(r.periodEnd)}`}
+                </p>
+                {r.firstDivergence && (
+                  <p className="text-xs text-red-600 mt-1">
+                    Saldo diverge entre {formatDate(r.firstDivergence.from)} e {formatDate(r.firstDivergence.to)}:
+                    {' '}esperado {formatCurrency(r.firstDivergence.expectedBalance)},
+                    {' '}calculado {formatCurrency(r.firstDivergence.computedBalance)}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-4">
+                {r.openingBalance !== undefined && r.closingBalance !== undefined && (
+                  <div className="text-right text-xs text-slate-500">
+                    <p>Abertura {formatCurrency(r.openingBalance)} • Final {formatCurrency(r.closingBalance)}</p>
+                    {r.status === 'mismatch' && r.difference !== undefined && r.difference !== 0 && (
+                      <p className="font-medium text-red-600">Diferença {formatCurrency(r.difference)}</p>
+                    )}
+                  </div>
+                )}
+                <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium border ${badge.className}`}>
+                  {badge.icon}
+                  {badge.label}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Bookmark, BookmarkPlus, Trash2 } from 'lucide-react';
+import { SavedView } from '../types';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeViewId?: string; // Visão cujos filtros são os da tabela no momento
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ views, activeViewId, onApply, onSave, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const activeView = views.find(v => v.id === activeViewId);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors w-full ${
+          activeView ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100'
+        }`}
+        title="Combinações de filtros salvas com nome"
+      >
+        <Bookmark className="w-4 h-4" />
+        {activeView ? activeView.name : 'Visões'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 bg-white rounded-xl shadow-lg border border-slate-100 p-3 space-y-3">
+          {views.length === 0 ? (
+            <p className="text-xs text-slate-400">Nenhuma visão salva. Ajuste os filtros e dê um nome a eles abaixo.</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto -mx-1">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center gap-1 group">
+                  <button
+                    onClick={() => { onApply(view); setIsOpen(false); }}
+                    className={`flex-grow text-left px-2 py-1.5 rounded-md text-sm truncate ${
+                      view.id === activeViewId ? 'text-indigo-700 bg-indigo-50 font-medium' : 'text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    onClick={() => onDelete(view.id)}
+                    className="p-1 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Excluir visão"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSave} className="flex items-center gap-1 pt-3 border-t border-slate-100">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nome da visão atual"
+              className="flex-grow px-2 py-1.5 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+              title="Um nome já usado é substituído pelos filtros atuais"
+            >
+              <BookmarkPlus className="w-3.5 h-3.5" />
+              Salvar
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { History, FolderOpen, Pencil, Copy, Trash2, Check, X, FileText } from 'lucide-react';
+import { AnalysisSession } from '../types';
+
+interface SessionListProps {
+  sessions: AnalysisSession[];
+  onOpen: (session: AnalysisSession) => void;
+  onRename: (session: AnalysisSession, name: string) => void;
+  onDuplicate: (session: AnalysisSession) => void;
+  onDelete: (session: AnalysisSession) => void;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: AnalysisSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const submitRename = (e: React.FormEvent, session: AnalysisSession) => {
+    e.preventDefault();
+    if (draftName.trim()) {
+      onRename(session, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-8 px-4">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-700">Análises salvas neste navegador</h3>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+        {sessions.map(session => {
+          const transactionCount = session.dashboardState?.transactions.length ?? session.data.transactions.length;
+          return (
+            <div key={session.id} className="p-4 flex items-center justify-between gap-4 group">
+              <div className="min-w-0 flex-1">
+                {editingId === session.id ? (
+                  <form onSubmit={(e) => submitRename(e, session)} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      className="flex-1 px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <button type="submit" className="p-1 text-emerald-600 hover:text-emerald-700" title="Salvar nome">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-slate-600" title="Cancelar">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <button onClick={() => onOpen(session)} className="text-left w-full">
+                    <p className="text-sm font-medium text-slate-800 truncate hover:text-indigo-600">{session.name}</p>
+                  </button>
+                )}
+                <p className="text-xs text-slate-500 mt-0.5 flex items-center gap-1 truncate">
+                  <FileText className="w-3 h-3 flex-shrink-0" />
+                  {session.files.map(f => f.name).join(', ')}
+                </p>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {transactionCount} transações • atualizada em {formatDateTime(session.updatedAt)}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button onClick={() => onOpen(session)} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors" title="Abrir">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button onClick={() => startRename(session)} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors" title="Renomear">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDuplicate(session)} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors" title="Duplicar">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(session)} className="p-1.5 text-slate-400 hover:text-red-600 transition-colors" title="Excluir">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionList;
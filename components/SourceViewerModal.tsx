@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileSearch, X, Loader2, AlertTriangle, History } from 'lucide-react';
+import { SourceFileRef, Transaction } from '../types';
+import { findSourceLine, PageTextLine, renderPdfPage } from '../services/pdfSourceService';
+import { EDITABLE_FIELDS, EDITABLE_FIELD_LABELS, formatEditValue, needsReadingReview } from '../services/auditService';
+
+interface SourceViewerModalProps {
+  transaction: Transaction;
+  onLoadSourceFile?: (source: SourceFileRef) => Promise<Blob | undefined>;
+  onClose: () => void;
+}
+
+interface Highlight {
+  page: number;
+  line?: PageTextLine;
+  width: number;
+  height: number;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Páginas onde procurar a linha: a exata, se a extração informou, ou todo o bloco enviado à IA
+const getCandidatePages = (t: Transaction): number[] => {
+  const source = t.source;
+  if (!source) return [];
+  if (source.page) return [source.page];
+  if (source.pageStart && source.pageEnd) {
+    return Array.from({ length: source.pageEnd - source.pageStart + 1 }, (_, i) => source.pageStart! + i);
+  }
+  return [];
+};
+
+const SourceViewerModal: React.FC<SourceViewerModalProps> = ({ transaction, onLoadSourceFile, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [highlight, setHighlight] = useState<Highlight | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = transaction.source;
+  const original = transaction.original;
+  const pages = getCandidatePages(transaction);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!source || pages.length === 0 || !onLoadSourceFile || !canvas) return;
+
+    const reference = original ?? transaction;
+    const query = source.rawText
+      || `${reference.description} ${Math.abs(reference.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
+
+    let cancelled = false;
+    const locate = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const file = await onLoadSourceFile(source);
+        if (!file) throw new Error("O arquivo original não está disponível neste navegador.");
+
+        for (const page of pages) {
+          const rendered = await renderPdfPage(file, page, canvas);
+          const line = findSourceLine(rendered.lines, query);
+          if (cancelled) return;
+          if (line) {
+            setHighlight({ page, line, width: rendered.width, height: rendered.height });
+            return;
+          }
+        }
+
+        // Linha não localizada: mostra a primeira página candidata sem destaque
+        const rendered = await renderPdfPage(file, pages[0], canvas);
+        if (!cancelled) setHighlight({ page: pages[0], width: rendered.width, height: rendered.height });
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Não foi possível abrir o arquivo original.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    locate();
+    return () => { cancelled = true; };
+  }, [transaction]);
+
+  const pageLabel = source?.page
+    ? `Página ${source.page}`
+    : source?.pageStart ? `Páginas ${source.pageStart}–${source.pageEnd}` : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileSearch className="w-5 h-5 text-slate-500 flex-shrink-0" />
+            <h3 className="text-lg font-semibold text-slate-800 truncate">Origem da transação</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {!source ? (
+            <p className="text-sm text-slate-500">Lançamento incluído manualmente: não há documento de origem.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-xs font-medium text-slate-500 uppercase">Arquivo</p>
+                <p className="text-slate-800 break-all">{source.fileName}{pageLabel && ` • ${pageLabel}`}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-slate-500 uppercase">Linha extraída</p>
+                <p className="text-slate-800 font-mono text-xs break-all">{source.rawText || 'Não informada pela extração'}</p>
+                {source.confidence !== undefined && (
+                  <p className={`text-xs mt-1 ${needsReadingReview(transaction) ? 'text-amber-700' : 'text-slate-500'}`}>
+                    Confiança da leitura: {Math.round(source.confidence * 100)}%{transaction.reviewed && ' • conferida'}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {original && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left">
+                <thead className="text-slate-500 uppercase">
+                  <tr>
+                    <th className="py-1 pr-4">Campo</th>
+                    <th className="py-1 pr-4">Valor extraído</th>
+                    <th className="py-1">Valor atual</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {EDITABLE_FIELDS.map(field => (
+                    <tr key={field} className={original[field] !== transaction[field] ? 'text-amber-700' : 'text-slate-700'}>
+                      <td className="py-1 pr-4 font-medium">{EDITABLE_FIELD_LABELS[field]}</td>
+                      <td className="py-1 pr-4">{formatEditValue(field, original[field])}</td>
+                      <td className="py-1">{formatEditValue(field, transaction[field])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {transaction.edits && transaction.edits.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase mb-1 flex items-center gap-1">
+                <History className="w-3 h-3" />
+                Histórico de edições
+              </p>
+              <ul className="text-xs text-slate-600 space-y-0.5">
+                {transaction.edits.map((edit, idx) => (
+                  <li key={idx}>
+                    {formatDateTime(edit.at)} • {edit.author || 'Sem identificação'} alterou {EDITABLE_FIELD_LABELS[edit.field].toLowerCase()}:{' '}
+                    <span className="line-through">{formatEditValue(edit.field, edit.from)}</span> → <strong>{formatEditValue(edit.field, edit.to)}</strong>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {pages.length > 0 && (
+            <div>
+              {isLoading && (
+                <p className="text-sm text-slate-500 flex items-center gap-2 mb-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Localizando a linha no documento...
+                </p>
+              )}
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-2 mb-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {error}
+                </p>
+              )}
+              {highlight && !highlight.line && !isLoading && (
+                <p className="text-xs text-amber-700 mb-2">
+                  A linha não foi localizada automaticamente; exibindo a página {highlight.page}.
+                </p>
+              )}
+              <div className={`relative border border-slate-200 rounded-lg overflow-hidden ${error ? 'hidden' : ''}`}>
+                <canvas ref={canvasRef} className="w-full h-auto block" />
+                {highlight?.line && !isLoading && (
+                  <div
+                    className="absolute bg-yellow-300/40 border-2 border-yellow-500 rounded-sm pointer-events-none"
+                    style={{
+                      left: `${(highlight.line.x / highlight.width) * 100}%`,
+                      top: `${(highlight.line.y / highlight.height) * 100}%`,
+                      width: `${(highlight.line.width / highlight.width) * 100}%`,
+                      height: `${(highlight.line.height / highlight.height) * 100}%`
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewerModal;
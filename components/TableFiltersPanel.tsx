@@ -0,0 +1,90 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { AmountSign, TableFilters } from '../types';
+import { QUERY_SYNTAX_HELP } from '../services/tableQueryService';
+
+interface TableFiltersPanelProps {
+  filters: TableFilters;
+  onChange: (filters: TableFilters) => void;
+  onClear: () => void;
+}
+
+const SIGN_OPTIONS: { id: AmountSign; label: string }[] = [
+  { id: 'any', label: 'Todas' },
+  { id: 'positive', label: 'Entradas' },
+  { id: 'negative', label: 'Saídas' }
+];
+
+// Campo vazio = sem limite
+const parseLimit = (value: string) => (value === '' ? undefined : Math.abs(Number(value)));
+
+const inputClass = 'px-2 py-1 border border-slate-200 rounded-lg text-xs text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const TableFiltersPanel: React.FC<TableFiltersPanelProps> = ({ filters, onChange, onClear }) => (
+  <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 space-y-3">
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-xs text-slate-500">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-slate-700">Valor (R$)</span>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filters.amountMin ?? ''}
+          onChange={(e) => onChange({ ...filters, amountMin: parseLimit(e.target.value) })}
+          placeholder="mín."
+          className={`${inputClass} w-24`}
+        />
+        a
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filters.amountMax ?? ''}
+          onChange={(e) => onChange({ ...filters, amountMax: parseLimit(e.target.value) })}
+          placeholder="máx."
+          className={`${inputClass} w-24`}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-slate-700">Datas</span>
+        <input
+          type="date"
+          value={filters.dateFrom ?? ''}
+          onChange={(e) => onChange({ ...filters, dateFrom: e.target.value || undefined })}
+          className={inputClass}
+        />
+        a
+        <input
+          type="date"
+          value={filters.dateTo ?? ''}
+          onChange={(e) => onChange({ ...filters, dateTo: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="inline-flex p-1 bg-slate-200/60 rounded-lg">
+        {SIGN_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ ...filters, sign: option.id === 'any' ? undefined : option.id })}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+              (filters.sign ?? 'any') === option.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onClear} className="flex items-center gap-1 text-slate-500 hover:text-indigo-600 lg:ml-auto">
+        <RotateCcw className="w-3.5 h-3.5" />
+        Limpar filtros
+      </button>
+    </div>
+
+    <p className="text-xs text-slate-400">{QUERY_SYNTAX_HELP}</p>
+  </div>
+);
+
+export default TableFiltersPanel;
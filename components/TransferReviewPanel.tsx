@@ -0,0 +1,111 @@
+import React from 'react';
+import { ArrowLeftRight, Check, X, CheckCheck } from 'lucide-react';
+import { INTERNAL_TRANSFER_LABEL, TransferMatch, TransferReason } from '../services/transferService';
+import { TransferDecision } from '../types';
+import { formatCurrency, formatDate } from '../utils/formatters';
+
+interface TransferReviewPanelProps {
+  matches: TransferMatch[];
+  decisions: Record<string, TransferDecision>;
+  onConfirm: (match: TransferMatch) => void;
+  onReject: (match: TransferMatch) => void;
+  onConfirmAll: () => void;
+}
+
+const REASON_LABELS: Record<TransferReason, string> = {
+  'cross-account': 'Mesmo valor saindo de uma conta e entrando em outra',
+  'holder-name': 'Cita o nome do titular',
+  'holder-document': 'Cita o CPF/CNPJ do titular'
+};
+
+const TransferReviewPanel: React.FC<TransferReviewPanelProps> = ({
+  matches, decisions, onConfirm, onReject, onConfirmAll
+}) => {
+  const visible = matches.filter(m => decisions[m.key] !== 'rejected');
+  const pendingCount = visible.filter(m => !decisions[m.key]).length;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-sky-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5 text-sky-500" />
+          <h3 className="text-lg font-semibold text-slate-800">{INTERNAL_TRANSFER_LABEL}</h3>
+          <span className="text-xs text-sky-700 bg-sky-50 px-2 py-0.5 rounded-full border border-sky-100">
+            {pendingCount} a revisar
+          </span>
+        </div>
+        {pendingCount > 0 && (
+          <button
+            onClick={onConfirmAll}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-sky-500 hover:bg-sky-600 rounded-lg transition-colors"
+          >
+            <CheckCheck className="w-3.5 h-3.5" />
+            Confirmar todas
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        Estes lançamentos ficam fora dos totais de entradas e saídas. Rejeite os que forem movimentações reais.
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">Nenhuma transferência entre contas próprias identificada.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {visible.map(match => {
+            const confirmed = decisions[match.key] === 'confirmed';
+            return (
+              <div key={match.key} className="border border-slate-100 rounded-xl p-3 bg-slate-50">
+                <div className="flex items-center justify-between mb-2 gap-2">
+                  <span className="text-xs font-medium text-slate-500">
+                    {match.reasons.map(r => REASON_LABELS[r]).join(' • ')}
+                  </span>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {confirmed ? (
+                      <span className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-emerald-700 bg-emerald-50 rounded-md">
+                        <Check className="w-3.5 h-3.5" />
+                        Confirmada
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onConfirm(match)}
+                        className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-sky-700 bg-sky-50 hover:bg-sky-100 rounded-md transition-colors"
+                      >
+                        <Check className="w-3.5 h-3.5" />
+                        Confirmar
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onReject(match)}
+                      className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-md transition-colors"
+                      title="Não é transferência entre contas próprias: volta a contar nos totais"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                      Rejeitar
+                    </button>
+                  </div>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {match.transactions.map((t, idx) => (
+                      <tr key={idx} className="text-slate-700">
+                        <td className="py-1 pr-3 font-mono w-24">{formatDate(t.date)}</td>
+                        <td className="py-1 pr-3">{t.description}</td>
+                        <td className="py-1 pr-3 text-slate-400">{t.source?.bankName || t.source?.fileName || 'Lançamento manual'}</td>
+                        <td className={`py-1 text-right font-semibold w-28 ${t.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                          {formatCurrency(t.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransferReviewPanel;
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ClipboardCheck, X, Lock, FileText, AlertTriangle, CheckCircle2, XCircle, Loader2, ChevronDown, ChevronUp, Sparkles
+} from 'lucide-react';
+import {
+  inspectPdf,
+  LARGE_FILE_BYTES,
+  LARGE_FILE_PAGES,
+  PdfInspection,
+  PreparedFile,
+  unlockPdf
+} from '../services/preflightService';
+import { renderPdfThumbnails } from '../services/pdfSourceService';
+import { estimateProviderCalls } from '../services/statementExtractor';
+import { StatementFormat } from '../utils/fileFormat';
+
+interface UploadPreflightModalProps {
+  files: { file: File; format: StatementFormat }[];
+  pagesPerChunk: number;
+  usesCloud: boolean; // O provedor escolhido chama a IA; a estimativa de chamadas só faz sentido nesse caso
+  onConfirm: (prepared: PreparedFile[]) => void;
+  onCancel: () => void;
+}
+
+type EntryStatus = 'checking' | 'ready' | 'locked' | 'invalid';
+
+interface PreflightEntry {
+  file: File;
+  format: StatementFormat;
+  status: EntryStatus;
+  inspection?: PdfInspection;
+  password?: string;
+  wrongPassword?: boolean;
+  reason?: string;
+  selectedPages: number[];
+}
+
+const THUMBNAIL_WIDTH = 96;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const allPages = (inspection: PdfInspection) => Array.from({ length: inspection.pageCount }, (_, i) => i + 1);
+
+// Miniaturas das páginas; clicar marca ou desmarca a página para a leitura
+const PageSelector: React.FC<{
+  file: File;
+  password?: string;
+  inspection: PdfInspection;
+  selected: number[];
+  onChange: (pages: number[]) => void;
+}> = ({ file, password, inspection, selected, onChange }) => {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    const controller = new AbortController();
+    file.arrayBuffer()
+      .then(buffer => renderPdfThumbnails(
+        new Uint8Array(buffer),
+        THUMBNAIL_WIDTH,
+        (pageNumber, url) => setThumbnails(prev => ({ ...prev, [pageNumber]: url })),
+        password,
+        controller.signal
+      ))
+      .catch(err => console.warn("Não foi possível gerar as miniaturas", err));
+    return () => controller.abort();
+  }, [file, password]);
+
+  const toggle = (pageNumber: number) => {
+    onChange(selected.includes(pageNumber)
+      ? selected.filter(p => p !== pageNumber)
+      : [...selected, pageNumber].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-3 text-xs mb-2">
+        <span className="text-slate-500">{selected.length} de {inspection.pageCount} páginas selecionadas</span>
+        <button onClick={() => onChange(allPages(inspection))} className="text-indigo-600 hover:underline">Todas</button>
+        <button onClick={() => onChange([])} className="text-indigo-600 hover:underline">Nenhuma</button>
+      </div>
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-64 overflow-y-auto p-1">
+        {allPages(inspection).map(pageNumber => {
+          const isSelected = selected.includes(pageNumber);
+          return (
+            <button
+              key={pageNumber}
+              onClick={() => toggle(pageNumber)}
+              className={`relative rounded-md border-2 overflow-hidden bg-slate-100 aspect-[3/4] transition-all ${
+                isSelected ? 'border-indigo-400' : 'border-transparent opacity-40'
+              }`}
+              title={isSelected ? 'Clique para ignorar esta página' : 'Clique para ler esta página'}
+            >
+              {thumbnails[pageNumber] ? (
+                <img src={thumbnails[pageNumber]} alt={`Página ${pageNumber}`} className="w-full h-full object-cover object-top" />
+              ) : (
+                <Loader2 className="w-4 h-4 text-slate-300 animate-spin absolute inset-0 m-auto" />
+              )}
+              <span className="absolute bottom-0 inset-x-0 text-[10px] bg-white/90 text-slate-600 py-0.5">
+                {pageNumber}
+                {inspection.localPages.includes(pageNumber) && ' • local'}
+                {inspection.scannedPages.includes(pageNumber) && ' • imagem'}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const UploadPreflightModal: React.FC<UploadPreflightModalProps> = ({ files, pagesPerChunk, usesCloud, onConfirm, onCancel }) => {
+  const [entries, setEntries] = useState<PreflightEntry[]>(() =>
+    files.map(({ file, format }) => ({
+      file,
+      format,
+      status: format === 'pdf' ? 'checking' : format === 'unknown' ? 'invalid' : 'ready',
+      reason: format === 'unknown' ? 'Formato não reconhecido' : undefined,
+      selectedPages: []
+    }))
+  );
+  const [expanded, setExpanded] = useState<File | null>(null);
+  const [passwordDrafts, setPasswordDrafts] = useState<Record<string, string>>({});
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateEntry = (file: File, update: Partial<PreflightEntry>) =>
+    setEntries(prev => prev.map(e => (e.file === file ? { ...e, ...update } : e)));
+
+  const applyInspection = (entry: PreflightEntry, inspection: PdfInspection, password?: string) =>
+    updateEntry(entry.file, { status: 'ready', inspection, password, wrongPassword: false, selectedPages: allPages(inspection) });
+
+  // Verifica os PDFs um a um para não abrir vários documentos grandes ao mesmo tempo
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const entry of entries.filter(e => e.status === 'checking')) {
+        const result = await inspectPdf(entry.file);
+        if (cancelled) return;
+        if (result.status === 'ok') applyInspection(entry, result.inspection);
+        else if (result.status === 'invalid') updateEntry(entry.file, { status: 'invalid', reason: result.reason });
+        else updateEntry(entry.file, { status: 'locked' });
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleUnlock = async (entry: PreflightEntry) => {
+    const password = passwordDrafts[entry.file.name] ?? '';
+    updateEntry(entry.file, { status: 'checking' });
+    const result = await inspectPdf(entry.file, password);
+    if (result.status === 'ok') {
+      applyInspection(entry, result.inspection, password);
+      // A mesma senha costuma abrir os outros extratos do titular (derivada do CPF)
+      for (const other of entries.filter(e => e.status === 'locked' && e.file !== entry.file)) {
+        const retry = await inspectPdf(other.file, password);
+        if (retry.status === 'ok') applyInspection(other, retry.inspection, password);
+      }
+    } else {
+      updateEntry(entry.file, { status: 'locked', wrongPassword: true });
+    }
+  };
+
+  const isIncluded = (entry: PreflightEntry) =>
+    entry.status === 'ready' && (entry.format !== 'pdf' || entry.selectedPages.length > 0);
+
+  const included = entries.filter(isIncluded);
+  const estimatedCalls = included.reduce((acc, entry) => acc + (entry.inspection
+    ? estimateProviderCalls(entry.selectedPages, entry.inspection.localPages, pagesPerChunk)
+    : 0), 0);
+
+  const handleConfirm = async () => {
+    setIsPreparing(true);
+    setError(null);
+    try {
+      const prepared: PreparedFile[] = [];
+      for (const entry of included) {
+        const inspection = entry.inspection;
+        if (!inspection) {
+          prepared.push({ file: entry.file, format: entry.format });
+          continue;
+        }
+        const pageNumbers = entry.selectedPages.length === inspection.pageCount ? undefined : entry.selectedPages;
+        // PDFs criptografados não podem ser divididos em blocos: seguem como uma cópia liberada
+        const file = inspection.encrypted ? await unlockPdf(entry.file, entry.selectedPages, entry.password) : entry.file;
+        prepared.push({ file, format: entry.format, pageNumbers });
+      }
+      onConfirm(prepared);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Não foi possível preparar os arquivos.');
+      setIsPreparing(false);
+    }
+  };
+
+  const isChecking = entries.some(e => e.status === 'checking');
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-slate-500" />
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800">Conferir Arquivos</h3>
+              <p className="text-xs text-slate-500">Desbloqueie PDFs protegidos e desmarque páginas sem lançamentos.</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" disabled={isPreparing}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 max-h-[65vh] overflow-y-auto">
+          {entries.map(entry => {
+            const { file, inspection } = entry;
+            const warnings: string[] = [];
+            if (file.size > LARGE_FILE_BYTES) warnings.push(`Arquivo grande (${formatSize(file.size)}): a leitura pode demorar.`);
+            if (inspection && inspection.pageCount > LARGE_FILE_PAGES) {
+              warnings.push(`${inspection.pageCount} páginas: desmarque capas, propagandas e resumos de investimento.`);
+            }
+            if (inspection && inspection.scannedPages.length > 0) {
+              warnings.push(`${inspection.scannedPages.length} página(s) sem texto serão lidas como imagem.`);
+            }
+            const isExpanded = expanded === file;
+
+            return (
+              <div key={`${file.name}-${file.lastModified}-${file.size}`} className="border border-slate-200 rounded-xl p-3">
+                <div className="flex items-center gap-3">
+                  {entry.status === 'checking' && <Loader2 className="w-4 h-4 text-indigo-500 animate-spin flex-shrink-0" />}
+                  {entry.status === 'ready' && <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" />}
+                  {entry.status === 'locked' && <Lock className="w-4 h-4 text-amber-500 flex-shrink-0" />}
+                  {entry.status === 'invalid' && <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                  <FileText className="w-4 h-4 text-slate-300 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800 truncate">{file.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {formatSize(file.size)}
+                      {inspection && ` • ${inspection.pageCount} páginas`}
+                      {inspection?.bankName && ` • ${inspection.bankName}`}
+                      {inspection?.encrypted && ' • protegido (será liberado)'}
+                      {entry.status === 'invalid' && ` • ${entry.reason} (será ignorado)`}
+                      {entry.status === 'ready' && entry.format !== 'pdf' && ' • pronto'}
+                    </p>
+                  </div>
+                  {inspection && (
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : file)}
+                      className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+                    >
+                      Páginas
+                      {isExpanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                    </button>
+                  )}
+                </div>
+
+                {entry.status === 'locked' && (
+                  <form
+                    onSubmit={(e) => { e.preventDefault(); handleUnlock(entry); }}
+                    className="mt-3 ml-7 space-y-1"
+                  >
+                    <div className="flex gap-2">
+                      <input
+                        type="password"
+                        autoFocus
+                        placeholder="Senha do PDF"
+                        value={passwordDrafts[file.name] ?? ''}
+                        onChange={(e) => setPasswordDrafts({ ...passwordDrafts, [file.name]: e.target.value })}
+                        className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <button type="submit" className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg">
+                        Desbloquear
+                      </button>
+                    </div>
+                    <p className={`text-xs ${entry.wrongPassword ? 'text-red-600' : 'text-slate-400'}`}>
+                      {entry.wrongPassword
+                        ? 'Senha incorreta. Tente de novo.'
+                        : 'Muitos bancos usam os primeiros dígitos do CPF do titular (geralmente 5 ou 6).'}
+                    </p>
+                  </form>
+                )}
+
+                {warnings.length > 0 && (
+                  <div className="mt-2 ml-7 space-y-0.5">
+                    {warnings.map(w => (
+                      <p key={w} className="flex items-center gap-1.5 text-xs text-amber-700">
+                        <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                        {w}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {isExpanded && inspection && (
+                  <PageSelector
+                    file={file}
+                    password={entry.password}
+                    inspection={inspection}
+                    selected={entry.selectedPages}
+                    onChange={(pages) => updateEntry(file, { selectedPages: pages })}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 space-y-3">
+          <p className="flex items-center gap-1.5 text-xs text-slate-500">
+            <Sparkles className="w-3.5 h-3.5" />
+            {usesCloud
+              ? `Estimativa: ${estimatedCalls} ${estimatedCalls === 1 ? 'chamada' : 'chamadas'} à IA (páginas de bancos conhecidos são lidas localmente).`
+              : 'Leitura local: nenhuma página será enviada à IA.'}
+          </p>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isPreparing}
+              className="flex-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isChecking || isPreparing || included.length === 0}
+              className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              {isPreparing && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isPreparing ? 'Preparando...' : `Processar ${included.length} ${included.length === 1 ? 'arquivo' : 'arquivos'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UploadPreflightModal;
@@ -1,5 +1,6 @@
 import React, { useCallback, useState } from 'react';
 import { UploadCloud, Loader2, AlertCircle, FileStack } from 'lucide-react';
+import { ACCEPTED_EXTENSIONS, isAcceptedFile } from '../utils/fileFormat';
 
 interface UploadZoneProps {
   onFileSelect: (files: File[]) => void;
@@ -27,12 +28,12 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing, err
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const files: File[] = Array.from(e.dataTransfer.files);
-      const pdfFiles = files.filter(f => f.type === "application/pdf");
+      const acceptedFiles = files.filter(isAcceptedFile);
       
-      if (pdfFiles.length > 0) {
-        onFileSelect(pdfFiles);
+      if (acceptedFiles.length > 0) {
+        onFileSelect(acceptedFiles);
       } else {
-        alert("Por favor, envie apenas arquivos PDF.");
+        alert("Por favor, envie apenas arquivos PDF, OFX, QFX, CSV, XLSX ou fotos do extrato (JPEG, PNG, HEIC).");
       }
     }
   }, [onFileSelect]);
@@ -41,9 +42,9 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing, err
     e.preventDefault();
     if (e.target.files && e.target.files.length > 0) {
       const files: File[] = Array.from(e.target.files);
-      const pdfFiles = files.filter(f => f.type === "application/pdf");
-      if (pdfFiles.length > 0) {
-        onFileSelect(pdfFiles);
+      const acceptedFiles = files.filter(isAcceptedFile);
+      if (acceptedFiles.length > 0) {
+        onFileSelect(acceptedFiles);
       }
     }
   };
@@ -64,7 +65,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing, err
           type="file"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
           onChange={handleChange}
-          accept="application/pdf"
+          accept={["application/pdf", "image/*", ...ACCEPTED_EXTENSIONS].join(',')}
           multiple // Permite múltiplos arquivos
           disabled={isProcessing}
         />
@@ -86,10 +87,10 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isProcessing, err
                 )}
               </div>
               <p className="mb-2 text-lg text-slate-700 font-semibold">
-                Arraste seus PDFs aqui ou clique para selecionar
+                Arraste seus extratos aqui ou clique para selecionar
               </p>
               <p className="text-sm text-slate-500">
-                Você pode enviar um ou múltiplos extratos simultaneamente.
+                PDF (inclusive digitalizado), OFX/QFX, planilhas CSV/XLSX ou fotos JPEG/PNG/HEIC. Você pode enviar um ou múltiplos extratos simultaneamente.
               </p>
             </>
           )}
@@ -0,0 +1,102 @@
+import { ExtractedData, Transaction } from "../types";
+import { normalizeText } from "../utils/text";
+import { UNKNOWN_HOLDER } from "./statementExtractor";
+
+// Conta de origem de um grupo de transações do lote
+export interface AccountInfo {
+  key: string;
+  label: string;
+  bankName?: string;
+  accountHolder?: string;
+  accountNumber?: string;
+}
+
+// Arquivo do lote; o id distingue arquivos com o mesmo nome
+export interface BatchFileRef {
+  id: string;
+  name: string;
+}
+
+// Titular distinto encontrado no lote, com os arquivos em que aparece
+export interface HolderGroup {
+  key: string;
+  holder: string;
+  document?: string;
+  files: BatchFileRef[];
+}
+
+const MANUAL_ACCOUNT_KEY = 'manual';
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Banco + titular + agência/conta; lançamentos sem origem (criados à mão) ficam numa conta própria
+export const getAccountKey = (t: Transaction): string => {
+  const { bankName, accountHolder, accountNumber } = t.source ?? {};
+  if (!bankName && !accountHolder && !accountNumber) return MANUAL_ACCOUNT_KEY;
+  return [normalizeText(bankName ?? ''), normalizeText(accountHolder ?? ''), onlyDigits(accountNumber ?? '')].join('|');
+};
+
+const describeAccount = (t: Transaction) => {
+  const { bankName, accountHolder, accountNumber } = t.source ?? {};
+  if (!bankName && !accountHolder && !accountNumber) return 'Lançamentos manuais';
+  const firstName = accountHolder?.split(/\s+/)[0];
+  return [bankName || 'Banco não identificado', accountNumber, firstName].filter(Boolean).join(' • ');
+};
+
+export const listAccounts = (transactions: Transaction[]): AccountInfo[] => {
+  const accounts = new Map<string, AccountInfo>();
+  transactions.forEach(t => {
+    const key = getAccountKey(t);
+    if (accounts.has(key)) return;
+    accounts.set(key, {
+      key,
+      label: describeAccount(t),
+      bankName: t.source?.bankName,
+      accountHolder: t.source?.accountHolder,
+      accountNumber: t.source?.accountNumber
+    });
+  });
+  return Array.from(accounts.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// Mesmo titular: mesmo CPF/CNPJ quando ambos o trazem, senão o mesmo nome
+const getHolderKey = (holder: string, document?: string) => {
+  const digits = document ? onlyDigits(document) : '';
+  return digits.length === 11 || digits.length === 14 ? digits : normalizeText(holder);
+};
+
+/**
+ * Titulares distintos no lote. Arquivos sem titular identificado não formam grupo.
+ * Um mesmo CPF/CNPJ une nomes escritos de formas diferentes ("JOAO SILVA" e "João da Silva").
+ */
+export const findHolderGroups = (results: { fileId: string; fileName: string; data: ExtractedData }[]): HolderGroup[] => {
+  const groups = new Map<string, HolderGroup>();
+  const nameToKey = new Map<string, string>();
+
+  results.forEach(({ fileId, fileName, data }) => {
+    const holder = data.accountHolder;
+    if (!holder || holder === UNKNOWN_HOLDER) return;
+    const key = nameToKey.get(normalizeText(holder)) ?? getHolderKey(holder, data.holderDocument);
+    nameToKey.set(normalizeText(holder), key);
+
+    const group = groups.get(key) ?? { key, holder, document: data.holderDocument, files: [] };
+    if (!group.files.some(f => f.id === fileId)) group.files.push({ id: fileId, name: fileName });
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+// Entradas e saídas por mês e por conta, para as barras empilhadas do gráfico
+export const computeAccountMonths = (transactions: Transaction[], getMonth: (date: string) => string) => {
+  const months: Record<string, Record<string, { income: number; expense: number }>> = {};
+  transactions.forEach(t => {
+    const month = getMonth(t.date);
+    const key = getAccountKey(t);
+    months[month] = months[month] ?? {};
+    const entry = months[month][key] ?? { income: 0, expense: 0 };
+    if (t.amount > 0) entry.income += t.amount;
+    else entry.expense += Math.abs(t.amount);
+    months[month][key] = entry;
+  });
+  return months;
+};
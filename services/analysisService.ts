@@ -0,0 +1,191 @@
+import { AnalysisMode, AnalysisPeriod, ExclusionRule, GlobalStats, IncomeMetric, MonthlyStats, PartialMonth, PartialMonthHandling, Transaction } from "../types";
+import { isExcluded, ruleExcludes } from "./exclusionService";
+import { INTERNAL_TRANSFER_LABEL } from "./transferService";
+import { getTukeyFences, mean, median, standardDeviation, trimmedMean } from "../utils/statistics";
+
+export interface AnalysisOptions {
+  mode: AnalysisMode;
+  exclusionRules: ExclusionRule[];
+  // Transferências entre contas próprias não são renda nem despesa
+  internalTransfers?: Set<Transaction>;
+  // Intervalo analisado; sem ele, o período vai da primeira à última transação
+  period?: AnalysisPeriod;
+  // Meses da borda sem cobertura completa e o que fazer com eles
+  partialMonths?: PartialMonth[];
+  partialMonthHandling?: PartialMonthHandling;
+}
+
+export interface AnalysisResult {
+  months: MonthlyStats[];
+  stats: GlobalStats;
+  // Transações consideradas no modo atual, mais recentes primeiro
+  sortedTransactions: Transaction[];
+  // Entradas que, sozinhas, tiram o mês do padrão do período
+  outlierTransactions: Set<Transaction>;
+}
+
+export const INCOME_METRIC_LABELS: Record<IncomeMetric, { label: string; description: string }> = {
+  mean: { label: 'Média mensal', description: 'Receita total dividida por todos os meses do período' },
+  median: { label: 'Mediana mensal', description: 'Mês do meio: não se altera com um mês excepcional' },
+  trimmedMean: { label: 'Média aparada', description: 'Média sem os 20% de meses mais altos e os 20% mais baixos' },
+  meanWithoutOutliers: { label: 'Média sem meses atípicos', description: 'Média sem os meses fora do padrão do período' }
+};
+
+// Fração de meses descartada em cada ponta da média aparada
+const TRIM_FRACTION = 0.2;
+
+export const getIncomeByMetric = (stats: GlobalStats, metric: IncomeMetric) => {
+  if (metric === 'median') return stats.medianMonthlyIncome;
+  if (metric === 'trimmedMean') return stats.trimmedMeanMonthlyIncome;
+  if (metric === 'meanWithoutOutliers') return stats.averageMonthlyIncomeWithoutOutliers;
+  return stats.averageMonthlyIncome;
+};
+
+// Use UTC to avoid timezone shifts
+export const getMonthKey = (dateStr: string) => {
+  const date = new Date(dateStr);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+// Todos os meses entre dois meses YYYY-MM, inclusive
+export const listMonths = (start: string, end: string) => {
+  const months: string[] = [];
+  let [year, month] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+};
+
+export const OUT_OF_PERIOD_LABEL = 'Fora do período analisado';
+export const PARTIAL_MONTH_LABEL = 'Mês parcial excluído';
+export const MANUAL_EXCLUSION_LABEL = 'Excluída manualmente da renda';
+
+const isInPeriod = (t: Transaction, period?: AnalysisPeriod) =>
+  !period || (t.date.slice(0, 10) >= period.from && t.date.slice(0, 10) <= period.to);
+
+const isInExcludedPartialMonth = (t: Transaction, options: AnalysisOptions) =>
+  options.partialMonthHandling === 'exclude' && !!options.partialMonths?.some(p => p.month === getMonthKey(t.date));
+
+// As regras de exclusão (apostas, vendas próprias) só fazem sentido para a apuração de renda
+const isInScope = (t: Transaction, options: AnalysisOptions) => {
+  if (!isInPeriod(t, options.period) || isInExcludedPartialMonth(t, options)) return false;
+  if (options.internalTransfers?.has(t) || t.markedAsTransfer) return false;
+  if (t.amount > 0) return options.mode !== 'expense' && !t.excludedFromIncome && !isExcluded(t, options.exclusionRules);
+  if (t.amount < 0) return options.mode !== 'income';
+  return false;
+};
+
+// Por que a transação ficou fora do modo atual (undefined quando ela é considerada)
+export const getExclusionReason = (t: Transaction, options: AnalysisOptions): string | undefined => {
+  if (!isInPeriod(t, options.period)) return OUT_OF_PERIOD_LABEL;
+  if (isInExcludedPartialMonth(t, options)) return PARTIAL_MONTH_LABEL;
+  if (options.internalTransfers?.has(t) || t.markedAsTransfer) return INTERNAL_TRANSFER_LABEL;
+  if (t.amount > 0) {
+    if (options.mode === 'expense') return 'Entrada (fora do modo Despesas)';
+    if (t.excludedFromIncome) return MANUAL_EXCLUSION_LABEL;
+    const rule = options.exclusionRules.find(r => ruleExcludes(r, t));
+    return rule ? `Regra de exclusão: ${rule.name}` : undefined;
+  }
+  if (t.amount < 0) return options.mode === 'income' ? 'Saída (fora do modo Receitas)' : undefined;
+  return 'Valor zerado';
+};
+
+/**
+ * Consolida as transações por mês conforme o modo de análise.
+ * Despesas são acumuladas em valor absoluto em `expense`; `balance` é a sobra do mês.
+ * O período vai do primeiro ao último mês com qualquer transação (mesmo fora do modo), ou é o
+ * `period` informado; os meses sem movimento entram com zero nas médias. Meses parciais
+ * proporcionalizados têm entradas e saídas projetadas para o mês inteiro (os totais seguem reais).
+ */
+export const computeAnalysis = (transactions: Transaction[], options: AnalysisOptions): AnalysisResult => {
+  const monthlyData: Record<string, MonthlyStats> = {};
+  let totalInc = 0;
+  let totalExp = 0;
+
+  const periodMonths = options.period
+    ? [getMonthKey(options.period.from), getMonthKey(options.period.to)]
+    : transactions.map(t => getMonthKey(t.date)).sort();
+  const excludedMonths = new Set(
+    options.partialMonthHandling === 'exclude' ? (options.partialMonths ?? []).map(p => p.month) : []
+  );
+  if (periodMonths.length > 0) {
+    listMonths(periodMonths[0], periodMonths[periodMonths.length - 1])
+      .filter(month => !excludedMonths.has(month))
+      .forEach(month => {
+        monthlyData[month] = { month, income: 0, expense: 0, balance: 0 };
+      });
+  }
+
+  const scoped = transactions.filter(t => isInScope(t, options));
+  const sortedData = [...scoped].sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  sortedData.forEach(t => {
+    const monthKey = getMonthKey(t.date);
+
+    if (t.amount > 0) {
+      monthlyData[monthKey].income += t.amount;
+      totalInc += t.amount;
+    } else {
+      monthlyData[monthKey].expense += Math.abs(t.amount);
+      totalExp += Math.abs(t.amount);
+    }
+    monthlyData[monthKey].balance += t.amount;
+  });
+
+  if (options.partialMonthHandling === 'prorate') {
+    options.partialMonths?.forEach(({ month, coveredDays, totalDays }) => {
+      const data = monthlyData[month];
+      if (!data || coveredDays === 0) return;
+      const coverage = coveredDays / totalDays;
+      monthlyData[month] = {
+        ...data,
+        income: data.income / coverage,
+        expense: data.expense / coverage,
+        balance: data.balance / coverage,
+        coverage
+      };
+    });
+  }
+
+  // Meses atípicos: receita fora das cercas de Tukey da série mensal
+  const incomeSeries = Object.values(monthlyData).sort((a, b) => a.month.localeCompare(b.month));
+  const fences = getTukeyFences(incomeSeries.map(m => m.income));
+  const isOutlier = (income: number) => !!fences && (income < fences.lower || income > fences.upper);
+  const months = incomeSeries.map(m => ({ ...m, incomeOutlier: isOutlier(m.income) }));
+  const incomeValues = months.map(m => m.income);
+
+  // Numa alta atípica, a entrada que sozinha leva o mês para fora da cerca
+  const outlierTransactions = new Set<Transaction>();
+  if (fences) {
+    const highMonths = new Map(months.filter(m => m.income > fences.upper).map(m => [m.month, m]));
+    sortedData.forEach(t => {
+      const month = highMonths.get(getMonthKey(t.date));
+      if (t.amount > 0 && month && month.income - t.amount / (month.coverage ?? 1) <= fences.upper) outlierTransactions.add(t);
+    });
+  }
+
+  const stats: GlobalStats = {
+    totalIncome: totalInc,
+    totalExpense: totalExp,
+    averageMonthlyIncome: mean(incomeValues),
+    averageMonthlyExpense: mean(months.map(m => m.expense)),
+    netBalance: totalInc - totalExp,
+    monthCount: months.length,
+    medianMonthlyIncome: median(incomeValues),
+    trimmedMeanMonthlyIncome: trimmedMean(incomeValues, TRIM_FRACTION),
+    averageMonthlyIncomeWithoutOutliers: mean(months.filter(m => !m.incomeOutlier).map(m => m.income)),
+    incomeStandardDeviation: standardDeviation(incomeValues),
+    outlierMonths: months.filter(m => m.incomeOutlier).map(m => m.month)
+  };
+
+  return { months, stats, sortedTransactions: sortedData, outlierTransactions };
+};
@@ -0,0 +1,46 @@
+import { EditableField, Transaction, TransactionEdit } from "../types";
+import { formatCurrency, formatDate } from "../utils/formatters";
+
+const REVIEWER_STORAGE_KEY = 'extratoai:reviewer-name';
+
+export const EDITABLE_FIELDS: EditableField[] = ['date', 'description', 'amount', 'category'];
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  date: 'Data',
+  description: 'Descrição',
+  amount: 'Valor',
+  category: 'Categoria'
+};
+
+// Nome de quem revisa fica no navegador para não ser pedido a cada edição
+export const loadReviewerName = () => localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_STORAGE_KEY, name.trim());
+};
+
+export const formatEditValue = (field: EditableField, value: string | number) => {
+  if (field === 'amount') return formatCurrency(Number(value));
+  if (field === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+/**
+ * Registra no histórico de `next` cada campo que mudou em relação a `previous`.
+ * O histórico é apenas acrescido: edições antigas nunca são reescritas.
+ */
+export const recordEdits = (previous: Transaction, next: Transaction, author?: string): Transaction => {
+  const at = new Date().toISOString();
+  const changes: TransactionEdit[] = EDITABLE_FIELDS
+    .filter(field => previous[field] !== next[field])
+    .map(field => ({ at, author: author || undefined, field, from: previous[field], to: next[field] }));
+
+  const edits = [...(previous.edits ?? []), ...changes];
+  return { ...next, edits: edits.length > 0 ? edits : undefined };
+};
+
+// Abaixo disso, a linha lida de uma foto ou digitalização precisa ser conferida
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const needsReadingReview = (t: Transaction) =>
+  !t.reviewed && t.source?.confidence !== undefined && t.source.confidence < LOW_CONFIDENCE_THRESHOLD;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { findBankParser, parseWithBankParser } from './bankParsers';
+import { PageTextLine } from './pdfSourceService';
+
+// Linha com um único trecho de texto, como sai de PDFs sem colunas
+const line = (text: string): PageTextLine => ({ text, x: 0, y: 0, width: 500, height: 10, pieces: [{ text, x: 0, width: 500 }] });
+
+describe('parseWithBankParser', () => {
+  it('lê créditos impressos com "+" antes do valor', () => {
+    const pages = [[
+      line('Banco Inter - Extrato da conta'),
+      line('10/03/2024 Pix recebido João +R$ 1.234,56'),
+      line('11/03/2024 Compra no débito -R$ 50,00'),
+      line('12/03/2024 Estorno +1.234,56'),
+      line('13/03/2024 Rendimento + R$ 0,42')
+    ]];
+    const parser = findBankParser(pages);
+    expect(parser?.id).toBe('inter');
+
+    const [payload] = parseWithBankParser(parser!, pages, [1]);
+    expect(payload.tx.map(t => t.v)).toEqual([1234.56, -50, 1234.56, 0.42]);
+  });
+
+  it('não devolve valores que não são números', () => {
+    const pages = [[line('Banco Inter'), line('10/03/2024 Pix recebido +R$ 1.234,56 +R$ 2.000,00')]];
+    const [payload] = parseWithBankParser(findBankParser(pages)!, pages, [1]);
+    expect(payload.tx.every(t => Number.isFinite(t.v))).toBe(true);
+    expect(payload.sd?.every(b => Number.isFinite(b.s))).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { ChunkPayload } from "./extractionProvider";
+import { PageTextLine } from "./pdfSourceService";
+import {
+  findAccountNumber,
+  findHolderDocument,
+  findStatementYear,
+  getPagesText,
+  readStatementPages,
+  StatementLayout,
+  StatementPage
+} from "./textStatementParser";
+import { normalizeText } from "../utils/text";
+
+export interface BankParser {
+  id: string;
+  bankName: string;
+  // Todas as expressões precisam casar com o texto normalizado da primeira página com texto
+  fingerprint: RegExp[];
+  layout: StatementLayout;
+}
+
+// Bancos citados na instrução da IA, todos com PDFs digitais (com camada de texto).
+// Nomes que aparecem em descrições de terceiros (Bradesco, Itaú) ficam por último e com assinaturas mais estritas.
+export const BANK_PARSERS: BankParser[] = [
+  {
+    id: 'nubank',
+    bankName: 'Nubank',
+    fingerprint: [/\bnu pagamentos\b|\bnubank\b/],
+    // Os dias agrupam "Total de entradas" e "Total de saídas"; as linhas não trazem sinal
+    layout: { sectionSigns: [[/\btotal de entradas\b/, 1], [/\btotal de saidas\b/, -1]] }
+  },
+  {
+    id: 'inter',
+    bankName: 'Inter',
+    fingerprint: [/\bbanco inter\b|\binter\.co\b/],
+    // Datas por extenso com "Saldo do dia" no cabeçalho; débitos impressos como "-R$"
+    layout: {}
+  },
+  {
+    id: 'pagbank',
+    bankName: 'PagBank',
+    fingerprint: [/\bpagbank\b/],
+    layout: {}
+  },
+  {
+    id: 'uber-conta',
+    bankName: 'Uber Conta',
+    fingerprint: [/\buber conta\b/],
+    layout: {}
+  },
+  {
+    id: 'digio',
+    bankName: 'Digio',
+    fingerprint: [/\bdigio\b/],
+    layout: {}
+  },
+  {
+    id: 'bradesco',
+    bankName: 'Bradesco',
+    fingerprint: [/\bbradesco\b/, /\bcredito\b/, /\bdebito\b/],
+    layout: { debitCreditColumns: true }
+  },
+  {
+    id: 'itau',
+    bankName: 'Itaú',
+    fingerprint: [/\bitau unibanco\b|\bbanco itau\b/],
+    layout: {}
+  }
+];
+
+// O cabeçalho da primeira página identifica o banco; descrições de outras páginas citam bancos de terceiros
+export const findBankParser = (pages: PageTextLine[][]): BankParser | undefined => {
+  const firstPage = pages.find(lines => lines.length > 0);
+  if (!firstPage) return undefined;
+  const text = normalizeText(firstPage.map(l => l.text).join('\n'));
+  return BANK_PARSERS.find(parser => parser.fingerprint.every(pattern => pattern.test(text)));
+};
+
+/**
+ * Lê as páginas indicadas (1-based) com as regras do banco, com um resultado por página
+ * e `p` das transações na numeração do arquivo.
+ */
+export const parseWithBankParser = (
+  parser: BankParser,
+  pages: PageTextLine[][],
+  pageNumbers: number[]
+): ChunkPayload[] => {
+  const fullText = getPagesText(pages);
+  const selected: StatementPage[] = pageNumbers.map(pageNumber => ({ pageNumber, lines: pages[pageNumber - 1] }));
+  const holderDocument = findHolderDocument(fullText);
+  const accountNumber = findAccountNumber(fullText);
+  return readStatementPages(selected, parser.layout, findStatementYear(fullText))
+    .map(payload => ({
+      ...payload,
+      // Valor que não virou número não pode chegar aos totais, à deduplicação e às exportações
+      tx: payload.tx.filter(t => Number.isFinite(t.v)),
+      b: parser.bankName,
+      hd: holderDocument,
+      ac: accountNumber
+    }));
+};
@@ -0,0 +1,179 @@
+import { AmountSign, CategoryRule, CategoryRuleMatch, Transaction } from "../types";
+import { createId } from "../utils/id";
+import { isRecord, JsonRecord, optionalNumber, optionalString } from "../utils/json";
+import { normalizeText } from "../utils/text";
+
+const RULES_STORAGE_KEY = 'extratoai:category-rules';
+
+// Formato de arquivo compartilhado entre a equipe
+const RULES_FILE_VERSION = 1;
+
+interface RulesFile {
+  version: number;
+  exportedAt: string;
+  rules: CategoryRule[];
+}
+
+export const sortRules = (rules: CategoryRule[]) =>
+  [...rules].sort((a, b) => a.priority - b.priority);
+
+// Regras são globais (não pertencem a uma sessão) para valerem em todo novo extrato
+export const loadRules = (): CategoryRule[] => {
+  try {
+    return sortRules(JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+};
+
+export const saveRules = (rules: CategoryRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const ruleMatches = (rule: CategoryRule, t: Transaction): boolean => {
+  const { match } = rule;
+
+  if (match.descriptionText && !normalizeText(t.description).includes(normalizeText(match.descriptionText))) {
+    return false;
+  }
+  if (match.descriptionRegex) {
+    if (!isValidRegex(match.descriptionRegex) || !new RegExp(match.descriptionRegex, 'i').test(t.description)) {
+      return false;
+    }
+  }
+
+  if (match.sign === 'positive' && t.amount <= 0) return false;
+  if (match.sign === 'negative' && t.amount >= 0) return false;
+
+  const absolute = Math.abs(t.amount);
+  if (match.minAmount !== undefined && absolute < match.minAmount) return false;
+  if (match.maxAmount !== undefined && absolute > match.maxAmount) return false;
+
+  if (match.bank && !normalizeText(t.source?.bankName || '').includes(normalizeText(match.bank))) return false;
+  if (match.dateFrom && t.date < match.dateFrom) return false;
+  if (match.dateTo && t.date > match.dateTo) return false;
+
+  return true;
+};
+
+/**
+ * Aplica a primeira regra ativa (por prioridade) que casar com cada transação.
+ * A categoria da IA fica guardada em originalCategory para que desativar ou excluir
+ * uma regra devolva a categoria original. Categorias manuais nunca são sobrescritas.
+ * Transações sem alteração mantêm a mesma referência (e a lista também, se nada mudou).
+ */
+export const applyCategoryRules = (transactions: Transaction[], rules: CategoryRule[]): Transaction[] => {
+  const activeRules = sortRules(rules).filter(r => r.enabled);
+
+  const result = transactions.map(t => {
+    if (t.manualCategory) return t;
+
+    const rule = activeRules.find(r => ruleMatches(r, t));
+    const originalCategory = t.originalCategory ?? t.category;
+
+    if (rule) {
+      if (t.ruleId === rule.id && t.category === rule.category && t.payerTag === rule.payerTag) return t;
+      return { ...t, category: rule.category, payerTag: rule.payerTag, ruleId: rule.id, originalCategory };
+    }
+
+    if (t.ruleId) {
+      return { ...t, category: originalCategory, payerTag: undefined, ruleId: undefined };
+    }
+    return t;
+  });
+
+  return result.every((t, idx) => t === transactions[idx]) ? transactions : result;
+};
+
+export const countRuleMatches = (rule: CategoryRule, transactions: Transaction[]) =>
+  transactions.filter(t => !t.manualCategory && ruleMatches(rule, t)).length;
+
+// Regra sugerida a partir de uma linha da tabela ("sempre categorizar assim")
+export const createRuleFromTransaction = (t: Transaction, priority: number): CategoryRule => ({
+  id: createId(),
+  name: t.description,
+  priority,
+  enabled: true,
+  match: {
+    descriptionText: t.description,
+    sign: t.amount < 0 ? 'negative' : 'positive'
+  },
+  category: t.category
+});
+
+export const exportRules = (rules: CategoryRule[]): string => {
+  const file: RulesFile = { version: RULES_FILE_VERSION, exportedAt: new Date().toISOString(), rules: sortRules(rules) };
+  return JSON.stringify(file, null, 2);
+};
+
+const AMOUNT_SIGNS: AmountSign[] = ['any', 'positive', 'negative'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalDate = (value: unknown) => {
+  const text = optionalString(value);
+  return text && ISO_DATE.test(text) ? text : undefined;
+};
+
+// Critérios de uma regra importada; uma expressão regular inválida recusa o arquivo em vez de nunca casar
+const parseRuleMatch = (match: JsonRecord, position: number): CategoryRuleMatch => {
+  const descriptionRegex = optionalString(match.descriptionRegex) || undefined;
+  if (descriptionRegex && !isValidRegex(descriptionRegex)) {
+    throw new Error(`Regra ${position} inválida: a expressão regular "${descriptionRegex}" não é válida.`);
+  }
+  return {
+    descriptionText: optionalString(match.descriptionText) || undefined,
+    descriptionRegex,
+    minAmount: optionalNumber(match.minAmount),
+    maxAmount: optionalNumber(match.maxAmount),
+    sign: AMOUNT_SIGNS.find(sign => sign === match.sign) ?? 'any',
+    bank: optionalString(match.bank) || undefined,
+    dateFrom: optionalDate(match.dateFrom),
+    dateTo: optionalDate(match.dateTo)
+  };
+};
+
+// Aceita o arquivo versionado ou uma lista simples de regras
+export const parseRulesFile = (text: string): CategoryRule[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Arquivo de regras inválido: o conteúdo não é um JSON.");
+  }
+
+  const rules: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.rules : undefined;
+  if (!Array.isArray(rules)) {
+    throw new Error("Arquivo de regras inválido: lista de regras não encontrada.");
+  }
+
+  return rules.map((rule: unknown, idx): CategoryRule => {
+    if (!isRecord(rule) || typeof rule.category !== 'string' || !isRecord(rule.match)) {
+      throw new Error(`Regra ${idx + 1} inválida: categoria e critérios são obrigatórios.`);
+    }
+    return {
+      id: optionalString(rule.id) || createId(),
+      name: optionalString(rule.name) ?? rule.category,
+      priority: optionalNumber(rule.priority) ?? idx + 1,
+      enabled: rule.enabled !== false,
+      match: parseRuleMatch(rule.match, idx + 1),
+      category: rule.category,
+      payerTag: optionalString(rule.payerTag) || undefined
+    };
+  });
+};
+
+// Importação substitui regras com o mesmo id e acrescenta as novas ao final da fila
+export const mergeImportedRules = (current: CategoryRule[], imported: CategoryRule[]): CategoryRule[] => {
+  const importedIds = new Set(imported.map(r => r.id));
+  const kept = sortRules(current).filter(r => !importedIds.has(r.id));
+  return [...kept, ...sortRules(imported)].map((r, idx) => ({ ...r, priority: idx + 1 }));
+};
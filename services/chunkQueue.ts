@@ -0,0 +1,172 @@
+import { ChunkPayload } from "./extractionProvider";
+
+export interface ChunkResult {
+  pageStart: number;
+  pageEnd: number;
+  payload: ChunkPayload;
+}
+
+export interface ChunkFailure {
+  pageStart: number;
+  pageEnd: number;
+  reason: string;
+}
+
+export interface ChunkQueueOptions {
+  concurrency: number; // Blocos enviados ao mesmo tempo
+  maxAttempts: number; // Tentativas por bloco em falhas temporárias
+  baseDelayMs: number; // Espera antes da 2ª tentativa; dobra a cada nova falha
+}
+
+// Cancelamento e acompanhamento de cada bloco concluído
+export interface ChunkQueueHooks {
+  signal?: AbortSignal;
+  onResult?: (result: ChunkResult) => void;
+  onFailure?: (failure: ChunkFailure) => void;
+}
+
+export const CANCELLED_REASON = 'Leitura cancelada pelo usuário';
+
+export const DEFAULT_QUEUE_OPTIONS: ChunkQueueOptions = {
+  concurrency: 3,
+  maxAttempts: 4,
+  baseDelayMs: 1000
+};
+
+type ChunkErrorKind = 'rate-limit' | 'server' | 'network' | 'empty' | 'truncated' | 'other';
+
+// Falhas que costumam passar sozinhas e merecem nova tentativa após uma espera
+const TRANSIENT_ERRORS: ChunkErrorKind[] = ['rate-limit', 'server', 'network', 'empty'];
+
+const ERROR_REASONS: Record<Exclude<ChunkErrorKind, 'other'>, string> = {
+  'rate-limit': 'Limite de requisições da IA atingido',
+  'server': 'Serviço da IA indisponível no momento',
+  'network': 'Falha de conexão com o serviço da IA',
+  'empty': 'A IA não devolveu conteúdo',
+  'truncated': 'Resposta da IA incompleta mesmo para uma única página'
+};
+
+// O SDK do Gemini expõe o status HTTP; outros provedores só deixam pistas na mensagem
+// Erros do SDK trazem o status HTTP; os do fetch e do parse de JSON, só a mensagem
+const getErrorStatus = (e: unknown) =>
+  typeof e === 'object' && e !== null && 'status' in e && typeof e.status === 'number' ? e.status : undefined;
+
+const getErrorMessage = (e: unknown) =>
+  typeof e === 'object' && e !== null && 'message' in e && typeof e.message === 'string' ? e.message : '';
+
+const classifyError = (e: unknown): ChunkErrorKind => {
+  const status = getErrorStatus(e);
+  const message = getErrorMessage(e);
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(message)) return 'rate-limit';
+  if ((status !== undefined && status >= 500) || /\b50[0-9]\b|UNAVAILABLE|overloaded/i.test(message)) return 'server';
+  // JSON cortado no meio: a resposta excedeu o limite de saída do modelo
+  if (e instanceof SyntaxError) return 'truncated';
+  if (e instanceof TypeError && /fetch|network/i.test(message)) return 'network';
+  if (/empty response/i.test(message)) return 'empty';
+  return 'other';
+};
+
+const describeError = (e: unknown, kind: ChunkErrorKind) =>
+  kind === 'other' ? getErrorMessage(e) || 'Falha desconhecida na leitura' : ERROR_REASONS[kind];
+
+// Espera interrompida pelo cancelamento; o ouvinte sai do sinal ao fim da espera, para não acumular a cada backoff
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const withRetry = async <T>(task: () => Promise<T>, options: ChunkQueueOptions, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (signal?.aborted || attempt >= options.maxAttempts || !TRANSIENT_ERRORS.includes(classifyError(e))) throw e;
+      // Backoff exponencial com variação aleatória para os blocos não voltarem todos juntos
+      await wait(options.baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25), signal);
+      if (signal?.aborted) throw e;
+    }
+  }
+};
+
+/**
+ * Processa os intervalos de páginas com concorrência limitada.
+ * Falhas temporárias (429, 5xx, rede, resposta vazia) são repetidas com backoff;
+ * respostas truncadas dividem o intervalo ao meio até chegar a uma página.
+ * Um bloco que falha não derruba os demais: o resultado traz o que foi lido e o que faltou.
+ * Cancelada, a fila para de enviar blocos e os que faltavam voltam como falhas, para nova tentativa.
+ */
+export const runChunkQueue = async (
+  ranges: [number, number][],
+  extract: (pageStart: number, pageEnd: number, signal?: AbortSignal) => Promise<ChunkPayload>,
+  options: ChunkQueueOptions = DEFAULT_QUEUE_OPTIONS,
+  hooks: ChunkQueueHooks = {}
+): Promise<{ results: ChunkResult[]; failures: ChunkFailure[] }> => {
+  const { signal, onResult, onFailure } = hooks;
+  const pending = [...ranges];
+  const results: ChunkResult[] = [];
+  const failures: ChunkFailure[] = [];
+
+  const fail = (failure: ChunkFailure) => {
+    failures.push(failure);
+    onFailure?.(failure);
+  };
+
+  // Blocos em andamento e trabalhadores ociosos à espera de um bloco dividido
+  let inFlight = 0;
+  let idle: (() => void)[] = [];
+  const wakeIdle = () => {
+    const waiting = idle;
+    idle = [];
+    waiting.forEach(resume => resume());
+  };
+
+  const worker = async () => {
+    while (pending.length > 0 || inFlight > 0) {
+      // Um bloco em andamento ainda pode voltar dividido: o trabalhador espera em vez de encerrar
+      if (pending.length === 0) {
+        await new Promise<void>(resume => idle.push(resume));
+        continue;
+      }
+      const [pageStart, pageEnd] = pending.shift()!;
+      if (signal?.aborted) {
+        fail({ pageStart, pageEnd, reason: CANCELLED_REASON });
+        continue;
+      }
+      inFlight++;
+      try {
+        const payload = await withRetry(() => extract(pageStart, pageEnd, signal), options, signal);
+        const result = { pageStart, pageEnd, payload };
+        results.push(result);
+        onResult?.(result);
+      } catch (e) {
+        const kind = classifyError(e);
+        if (signal?.aborted) {
+          fail({ pageStart, pageEnd, reason: CANCELLED_REASON });
+        } else if (kind === 'truncated' && pageEnd > pageStart) {
+          const middle = Math.floor((pageStart + pageEnd) / 2);
+          pending.push([pageStart, middle], [middle + 1, pageEnd]);
+        } else {
+          fail({ pageStart, pageEnd, reason: describeError(e, kind) });
+        }
+      } finally {
+        inFlight--;
+        wakeIdle();
+      }
+    }
+  };
+
+  // Trabalhadores para a concorrência inteira: divisões de blocos truncados podem passar do número inicial de intervalos
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+  return {
+    results,
+    failures: failures.sort((a, b) => a.pageStart - b.pageStart)
+  };
+};
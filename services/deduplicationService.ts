@@ -0,0 +1,140 @@
+import { Transaction, TransactionSource } from "../types";
+import { normalizeText } from "../utils/text";
+
+export type DuplicateReason = 'page-boundary' | 'overlapping-files';
+
+export interface DuplicateGroup {
+  key: string;
+  reason: DuplicateReason;
+  transactions: Transaction[];
+}
+
+export interface DuplicateOptions {
+  // Diferença máxima em dias entre arquivos diferentes (liquidação D+1)
+  dateToleranceDays: number;
+  // Similaridade mínima (0-1) entre as descrições normalizadas
+  minDescriptionSimilarity: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  dateToleranceDays: 1,
+  minDescriptionSimilarity: 0.6
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Remove acentos, pontuação, números soltos (datas, documentos, autenticações) e espaços extras
+export const normalizeDescription = (description: string) =>
+  normalizeText(description)
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Similaridade de Jaccard entre os conjuntos de palavras
+const descriptionSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const intersection = Array.from(tokensA).filter(t => tokensB.has(t)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+};
+
+// Identidade do arquivo de origem: dois "extrato.pdf" de bancos diferentes são arquivos diferentes.
+// Análises antigas não guardam o id e seguem pelo nome
+export const getSourceFileKey = (source: TransactionSource) => source.fileId ?? source.fileName;
+
+const daysBetween = (a: string, b: string) =>
+  Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS);
+
+/**
+ * Decide se dois lançamentos iguais são a mesma transação lida duas vezes.
+ * - Mesmo arquivo: só a borda entre blocos de páginas consecutivos repete linhas (mesma data).
+ *   Linhas iguais dentro do mesmo bloco são tratadas como lançamentos legítimos.
+ * - Arquivos diferentes: extratos sobrepostos, com tolerância de datas para D+1.
+ */
+const duplicateReason = (a: Transaction, b: Transaction, options: DuplicateOptions): DuplicateReason | null => {
+  if (!a.source || !b.source) return null;
+
+  if (getSourceFileKey(a.source) === getSourceFileKey(b.source)) {
+    if (a.source.chunkIndex === undefined || b.source.chunkIndex === undefined) return null;
+    const adjacentChunks = Math.abs(a.source.chunkIndex - b.source.chunkIndex) === 1;
+    return adjacentChunks && a.date === b.date ? 'page-boundary' : null;
+  }
+
+  return daysBetween(a.date, b.date) <= options.dateToleranceDays ? 'overlapping-files' : null;
+};
+
+export const getTransactionKey = (t: Transaction) =>
+  [t.date, t.amount.toFixed(2), normalizeDescription(t.description), t.source ? getSourceFileKey(t.source) : '', t.source?.chunkIndex ?? ''].join('|');
+
+export const findDuplicateGroups = (
+  transactions: Transaction[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateGroup[] => {
+  // Agrupa por valor em centavos: duplicatas sempre têm exatamente o mesmo valor
+  const byAmount = new Map<number, number[]>();
+  transactions.forEach((t, idx) => {
+    const cents = Math.round(t.amount * 100);
+    byAmount.set(cents, [...(byAmount.get(cents) || []), idx]);
+  });
+
+  // Union-find para juntar pares em grupos (A~B e B~C formam um único grupo)
+  const parent = transactions.map((_, idx) => idx);
+  const find = (idx: number): number => (parent[idx] === idx ? idx : (parent[idx] = find(parent[idx])));
+  const reasons = new Map<number, DuplicateReason>();
+  const normalized = transactions.map(t => normalizeDescription(t.description));
+
+  // Blocos de origem presentes em cada grupo: dois lançamentos do mesmo bloco nunca se juntam,
+  // nem indiretamente por meio de uma terceira cópia em outro arquivo. Páginas lidas localmente
+  // não têm bloco e contam pela página.
+  const groupSources = transactions.map(t =>
+    new Set([`${t.source && getSourceFileKey(t.source)}#${t.source?.chunkIndex ?? `p${t.source?.page ?? ''}`}`]));
+
+  byAmount.forEach(indices => {
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const a = indices[i];
+        const b = indices[j];
+        const reason = duplicateReason(transactions[a], transactions[b], options);
+        if (!reason) continue;
+        if (descriptionSimilarity(normalized[a], normalized[b]) < options.minDescriptionSimilarity) continue;
+
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA === rootB) continue;
+        if (Array.from(groupSources[rootB]).some(src => groupSources[rootA].has(src))) continue;
+
+        parent[rootB] = rootA;
+        groupSources[rootB].forEach(src => groupSources[rootA].add(src));
+        reasons.set(a, reasons.get(a) === 'overlapping-files' ? 'overlapping-files' : reason);
+        reasons.set(b, reasons.get(b) === 'overlapping-files' ? 'overlapping-files' : reason);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  transactions.forEach((_, idx) => {
+    const root = find(idx);
+    groups.set(root, [...(groups.get(root) || []), idx]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([, members]) => {
+      const groupTransactions = members
+        .map(idx => transactions[idx])
+        .sort((a, b) => a.date.localeCompare(b.date));
+      // Arquivos sobrepostos prevalecem: é o caso que mais distorce os totais
+      const reason: DuplicateReason = members.some(idx => reasons.get(idx) === 'overlapping-files')
+        ? 'overlapping-files'
+        : 'page-boundary';
+      return {
+        key: groupTransactions.map(getTransactionKey).sort().join('||'),
+        reason,
+        transactions: groupTransactions
+      };
+    })
+    .sort((a, b) => a.transactions[0].date.localeCompare(b.transactions[0].date));
+};
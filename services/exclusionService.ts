@@ -0,0 +1,147 @@
+import { ExclusionCondition, ExclusionRule, Transaction } from "../types";
+import { createId } from "../utils/id";
+import { normalizeText } from "../utils/text";
+
+export interface ExclusionPreset {
+  id: string;
+  name: string;
+  description: string;
+  rules: Omit<ExclusionRule, 'id' | 'presetId'>[];
+  enabledByDefault: boolean;
+}
+
+export interface ExclusionMatch {
+  rule: ExclusionRule;
+  transactions: Transaction[];
+}
+
+// Expressões aplicadas à descrição normalizada (minúsculas, sem acentos), sempre com limite de palavra:
+// 'bet' não exclui mais "Elizabeth" nem 'play' exclui "Display Ltda"
+export const EXCLUSION_PRESETS: ExclusionPreset[] = [
+  {
+    id: 'apostas',
+    name: 'Apostas',
+    description: 'Casas de apostas, cassinos online e intermediadores usados por eles.',
+    enabledByDefault: true,
+    rules: [
+      {
+        name: 'Casas de apostas',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\b(bet\\d*|sportingbet|blaze|stake|pagsmile|cassino|casino|apostas?|tigrinho)\\b' }]
+      },
+      {
+        name: 'Jogos e lojas de aplicativos',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\b(jogos?|steam|google play|apple\\.com/bill)\\b' }]
+      },
+      {
+        name: 'Intermediadores de pagamento',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\b(pagseguro internet|adyen|smartpay)\\b' }]
+      }
+    ]
+  },
+  {
+    id: 'vendas-proprias',
+    name: 'Vendas próprias',
+    description: 'Recebimentos de vendas e maquininhas, que não são renda pessoal.',
+    enabledByDefault: true,
+    rules: [
+      {
+        name: 'Recebimento de vendas',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\bvendas?\\b' }]
+      }
+    ]
+  },
+  {
+    id: 'transferencias-proprias',
+    name: 'Transferências entre contas',
+    description: 'Movimentações entre contas do próprio titular e resgates de aplicações.',
+    enabledByDefault: false,
+    rules: [
+      {
+        name: 'Mesma titularidade',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\b(mesma titularidade|entre contas|conta propria|transf(erencia)? propria)\\b' }]
+      },
+      {
+        name: 'Resgates de aplicação',
+        enabled: true,
+        conditions: [{ type: 'text', mode: 'regex', value: '\\b(resgate|aplicacao automatica|rendimento poupanca)\\b' }]
+      }
+    ]
+  }
+];
+
+export const instantiatePreset = (preset: ExclusionPreset): ExclusionRule[] =>
+  preset.rules.map(rule => ({ ...rule, id: createId(), presetId: preset.id }));
+
+export const getDefaultExclusionRules = (): ExclusionRule[] =>
+  EXCLUSION_PRESETS.filter(p => p.enabledByDefault).flatMap(instantiatePreset);
+
+// Sessões antigas guardavam apenas termos de substring; mantém o comportamento original delas
+export const migrateIgnoredTerms = (terms: string[]): ExclusionRule[] =>
+  terms.map(term => ({
+    id: createId(),
+    name: term,
+    enabled: true,
+    conditions: [{ type: 'text', mode: 'contains', value: term }]
+  }));
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const safeRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const isValidCondition = (condition: ExclusionCondition): boolean => {
+  if (condition.type === 'text') {
+    return condition.value.trim() !== '' && (condition.mode !== 'regex' || safeRegex(condition.value) !== null);
+  }
+  if (condition.type === 'amount') return !isNaN(condition.value);
+  return condition.value.trim() !== '';
+};
+
+const evaluateCondition = (condition: ExclusionCondition, t: Transaction): boolean => {
+  switch (condition.type) {
+    case 'text': {
+      const description = normalizeText(t.description);
+      const value = normalizeText(condition.value);
+      if (!value) return false;
+      if (condition.mode === 'contains') return description.includes(value);
+      if (condition.mode === 'word') {
+        return new RegExp(`(^|[^a-z0-9])${escapeRegex(value)}($|[^a-z0-9])`).test(description);
+      }
+      // Regex testada na descrição normalizada e na original, para aceitar padrões com ou sem acento
+      const regex = safeRegex(condition.value);
+      return !!regex && (regex.test(description) || regex.test(t.description));
+    }
+    case 'amount': {
+      // Valor absoluto: "acima de 5.000" vale para entradas e saídas
+      const amount = Math.abs(t.amount);
+      if (condition.operator === 'gt') return amount > condition.value;
+      if (condition.operator === 'gte') return amount >= condition.value;
+      if (condition.operator === 'lt') return amount < condition.value;
+      return amount <= condition.value;
+    }
+    case 'category':
+      return normalizeText(t.category) === normalizeText(condition.value);
+  }
+};
+
+export const ruleExcludes = (rule: ExclusionRule, t: Transaction): boolean =>
+  rule.enabled &&
+  rule.conditions.length > 0 &&
+  rule.conditions.every(condition => evaluateCondition(condition, t) !== !!condition.negate);
+
+export const isExcluded = (t: Transaction, rules: ExclusionRule[]) =>
+  rules.some(rule => ruleExcludes(rule, t));
+
+// Para cada regra, as transações que ela remove (uma transação pode aparecer em mais de uma regra)
+export const getExclusionMatches = (transactions: Transaction[], rules: ExclusionRule[]): ExclusionMatch[] =>
+  rules.map(rule => ({ rule, transactions: transactions.filter(t => ruleExcludes({ ...rule, enabled: true }, t)) }));
@@ -0,0 +1,514 @@
+import * as XLSX from "xlsx";
+import {
+  BalanceCheckpoint,
+  DashboardFilters,
+  DashboardState,
+  ExclusionCondition,
+  ExclusionRule,
+  ExtractedData,
+  FailedPageRange,
+  PeriodSelection,
+  ReconciliationResult,
+  SessionFile,
+  Transaction,
+  TransactionEdit,
+  TransactionSnapshot,
+  TransactionSource,
+  TransferDecision
+} from "../types";
+import { getMonthKey } from "./analysisService";
+import { EDITABLE_FIELDS } from "./auditService";
+import { getTransactionKey } from "./deduplicationService";
+import { DEFAULT_PERIOD_SELECTION } from "./periodService";
+import { DEFAULT_TABLE_FILTERS } from "./tableQueryService";
+import { isRecord, JsonRecord, listOf, oneOf, optionalBoolean, optionalNumber, optionalString, stringList } from "../utils/json";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx' | 'json';
+
+// Linha exportada; com o escopo "todas", as transações fora da análise vêm marcadas com o motivo
+export interface ExportRow {
+  transaction: Transaction;
+  excludedReason?: string;
+}
+
+export interface ExportTable {
+  rows: ExportRow[];
+  // Inclui as colunas "Excluída" e "Motivo da exclusão"
+  withExclusion: boolean;
+}
+
+export interface CsvOptions {
+  delimiter: ';' | ',' | '\t';
+  decimalSeparator: ',' | '.';
+  dateFormat: 'br' | 'iso'; // DD/MM/AAAA ou AAAA-MM-DD
+}
+
+// Padrão do Excel em português: ponto e vírgula, vírgula decimal e datas DD/MM/AAAA
+export const BRAZILIAN_CSV_OPTIONS: CsvOptions = { delimiter: ';', decimalSeparator: ',', dateFormat: 'br' };
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ofx: 'application/x-ofx',
+  json: 'application/json'
+};
+
+const formatBrDate = (date: string) => date.split('-').reverse().join('/');
+
+const tableHeaders = (table: ExportTable) => [
+  'Data', 'Descrição', 'Categoria', 'Valor', 'Tipo', 'Banco', 'Arquivo', 'Página',
+  ...(table.withExclusion ? ['Excluída', 'Motivo da exclusão'] : [])
+];
+
+const tableCells = (row: ExportRow, table: ExportTable) => {
+  const t = row.transaction;
+  return {
+    description: t.description,
+    category: t.category,
+    type: t.amount < 0 ? 'Saída' : 'Entrada',
+    bank: t.source?.bankName ?? '',
+    file: t.source?.fileName ?? '',
+    page: t.source?.page ?? t.source?.pageStart ?? '',
+    exclusion: table.withExclusion ? [row.excludedReason ? 'Sim' : 'Não', row.excludedReason ?? ''] : []
+  };
+};
+
+// --- CSV ---
+
+const escapeCsv = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportCsv = (table: ExportTable, options: CsvOptions = BRAZILIAN_CSV_OPTIONS): string => {
+  const lines = [tableHeaders(table)];
+  table.rows.forEach(row => {
+    const t = row.transaction;
+    const cells = tableCells(row, table);
+    lines.push([
+      options.dateFormat === 'br' ? formatBrDate(t.date) : t.date,
+      cells.description,
+      cells.category,
+      t.amount.toFixed(2).replace('.', options.decimalSeparator),
+      cells.type,
+      cells.bank,
+      cells.file,
+      String(cells.page),
+      ...cells.exclusion
+    ]);
+  });
+  // BOM: sem ele o Excel abre o arquivo como Latin-1 e estraga os acentos
+  return '\uFEFF' + lines.map(line => line.map(v => escapeCsv(v, options.delimiter)).join(options.delimiter)).join('\r\n');
+};
+
+// --- XLSX ---
+
+const CURRENCY_FORMAT = '#,##0.00';
+
+const toSheetDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const applyNumberFormat = (sheet: XLSX.WorkSheet, columns: number[], rowCount: number) => {
+  for (let r = 1; r <= rowCount; r++) {
+    columns.forEach(c => {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell && cell.t === 'n') cell.z = CURRENCY_FORMAT;
+    });
+  }
+};
+
+/**
+ * Planilha com as transações e um resumo mensal (só das linhas consideradas na análise).
+ */
+export const exportXlsx = (table: ExportTable): ArrayBuffer => {
+  const transactionRows = table.rows.map(row => {
+    const t = row.transaction;
+    const cells = tableCells(row, table);
+    return [toSheetDate(t.date), cells.description, cells.category, t.amount, cells.type, cells.bank, cells.file, cells.page, ...cells.exclusion];
+  });
+  const transactionSheet = XLSX.utils.aoa_to_sheet([tableHeaders(table), ...transactionRows], { dateNF: 'dd/mm/yyyy' });
+  applyNumberFormat(transactionSheet, [3], transactionRows.length);
+  transactionSheet['!cols'] = [{ wch: 12 }, { wch: 48 }, { wch: 20 }, { wch: 14 }, { wch: 9 }, { wch: 18 }, { wch: 28 }, { wch: 8 }];
+
+  const byMonth = new Map<string, { income: number; expense: number; count: number }>();
+  table.rows.filter(row => !row.excludedReason).forEach(({ transaction: t }) => {
+    const key = getMonthKey(t.date);
+    const month = byMonth.get(key) ?? { income: 0, expense: 0, count: 0 };
+    if (t.amount > 0) month.income += t.amount;
+    else month.expense += Math.abs(t.amount);
+    month.count++;
+    byMonth.set(key, month);
+  });
+  const months = Array.from(byMonth.entries()).sort(([a], [b]) => a.localeCompare(b));
+  const summaryRows: (string | number)[][] = months.map(([key, m]) => {
+    const [y, mm] = key.split('-');
+    return [`${mm}/${y}`, m.income, m.expense, m.income - m.expense, m.count];
+  });
+  const totals = months.reduce((acc, [, m]) => ({
+    income: acc.income + m.income, expense: acc.expense + m.expense, count: acc.count + m.count
+  }), { income: 0, expense: 0, count: 0 });
+  summaryRows.push(['Total', totals.income, totals.expense, totals.income - totals.expense, totals.count]);
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([['Mês', 'Entradas', 'Saídas', 'Saldo', 'Transações'], ...summaryRows]);
+  applyNumberFormat(summarySheet, [1, 2, 3], summaryRows.length);
+  summarySheet['!cols'] = [{ wch: 10 }, { wch: 16 }, { wch: 16 }, { wch: 16 }, { wch: 12 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, transactionSheet, 'Transações');
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Resumo mensal');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+// --- OFX ---
+
+export interface OfxMetadata {
+  bankName?: string;
+  accountHolder?: string;
+}
+
+const escapeOfx = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toOfxDate = (date: string) => date.replace(/-/g, '');
+
+// FNV-1a: identificador curto e estável, para o software contábil reconhecer reimportações
+const hashKey = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Extrato OFX 1.02 (SGML) para importação em softwares contábeis.
+ * O formato não tem como marcar exclusões: só entram as linhas consideradas na análise.
+ */
+export const exportOfx = (table: ExportTable, metadata: OfxMetadata = {}): string => {
+  const transactions = table.rows.filter(row => !row.excludedReason).map(row => row.transaction)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const dates = transactions.map(t => t.date);
+  const seen = new Map<string, number>();
+
+  const entries = transactions.map(t => {
+    const key = getTransactionKey(t);
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${t.amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${toOfxDate(t.date)}`,
+      `<TRNAMT>${t.amount.toFixed(2)}`,
+      `<FITID>${hashKey(key)}${occurrence > 1 ? `-${occurrence}` : ''}`,
+      `<NAME>${escapeOfx(t.description.slice(0, 32))}`,
+      `<MEMO>${escapeOfx(t.description)}`,
+      '</STMTTRN>'
+    ].join('\n');
+  });
+
+  const now = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+  const balance = transactions.reduce((acc, t) => acc + t.amount, 0);
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${now}`,
+    '<LANGUAGE>POR',
+    ...(metadata.accountHolder ? [`<NAME>${escapeOfx(metadata.accountHolder)}`] : []),
+    ...(metadata.bankName ? [`<FI><ORG>${escapeOfx(metadata.bankName)}</FI>`] : []),
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL',
+    '<BANKACCTFROM><BANKID>0000<ACCTID>EXTRATOAI<ACCTTYPE>CHECKING</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${dates.length > 0 ? toOfxDate(dates[0]) : now.slice(0, 8)}`,
+    `<DTEND>${dates.length > 0 ? toOfxDate(dates[dates.length - 1]) : now.slice(0, 8)}`,
+    ...entries,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${balance.toFixed(2)}<DTASOF>${dates.length > 0 ? toOfxDate(dates[dates.length - 1]) : now.slice(0, 8)}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    ''
+  ].join('\n');
+};
+
+// --- JSON (sessão completa) ---
+
+export const SESSION_FILE_FORMAT = 'extratoai-session';
+export const SESSION_FILE_VERSION = 1;
+
+export interface SessionSnapshot {
+  name: string;
+  files: SessionFile[];
+  data: ExtractedData;
+  // Edições, regras de exclusão, decisões de revisão e filtros da tabela
+  state: DashboardState;
+}
+
+interface SessionExportFile extends SessionSnapshot {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO
+  // Resumo legível sem abrir a análise
+  metadata: {
+    bankName?: string;
+    accountHolder?: string;
+    transactionCount: number;
+    period?: { start: string; end: string };
+  };
+}
+
+export const exportSessionJson = (snapshot: SessionSnapshot): string => {
+  const dates = snapshot.state.transactions.map(t => t.date).sort();
+  const file: SessionExportFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    metadata: {
+      bankName: snapshot.data.bankName,
+      accountHolder: snapshot.data.accountHolder,
+      transactionCount: snapshot.state.transactions.length,
+      period: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : undefined
+    },
+    ...snapshot
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// --- Leitura do JSON importado: cada campo é conferido antes de virar estado da análise ---
+
+const readSnapshot = (value: JsonRecord): TransactionSnapshot | undefined => {
+  const amount = optionalNumber(value.amount);
+  if (typeof value.date !== 'string' || typeof value.description !== 'string' || typeof value.category !== 'string') return undefined;
+  return amount === undefined ? undefined : { date: value.date, description: value.description, amount, category: value.category };
+};
+
+const readSource = (value: JsonRecord): TransactionSource | undefined => {
+  if (typeof value.fileName !== 'string') return undefined;
+  return {
+    fileName: value.fileName,
+    fileId: optionalString(value.fileId),
+    bankName: optionalString(value.bankName),
+    chunkIndex: optionalNumber(value.chunkIndex),
+    pageStart: optionalNumber(value.pageStart),
+    pageEnd: optionalNumber(value.pageEnd),
+    page: optionalNumber(value.page),
+    rawText: optionalString(value.rawText),
+    confidence: optionalNumber(value.confidence),
+    accountHolder: optionalString(value.accountHolder),
+    accountNumber: optionalString(value.accountNumber)
+  };
+};
+
+const isEditValue = (value: unknown): value is string | number => typeof value === 'string' || typeof value === 'number';
+
+const readEdit = (value: JsonRecord): TransactionEdit | undefined => {
+  const field = oneOf(value.field, EDITABLE_FIELDS);
+  if (typeof value.at !== 'string' || !field || !isEditValue(value.from) || !isEditValue(value.to)) return undefined;
+  return { at: value.at, author: optionalString(value.author), field, from: value.from, to: value.to };
+};
+
+// Data, descrição, valor e categoria são obrigatórios: sem eles a análise não fecha as contas
+const readTransaction = (value: unknown, idx: number): Transaction => {
+  const core = isRecord(value) ? readSnapshot(value) : undefined;
+  if (!isRecord(value) || !core) {
+    throw new Error(`Arquivo de análise inválido: a transação ${idx + 1} não tem data, descrição, valor e categoria.`);
+  }
+  return {
+    ...core,
+    id: optionalString(value.id),
+    source: isRecord(value.source) ? readSource(value.source) : undefined,
+    originalCategory: optionalString(value.originalCategory),
+    ruleId: optionalString(value.ruleId),
+    payerTag: optionalString(value.payerTag),
+    manualCategory: optionalBoolean(value.manualCategory),
+    original: isRecord(value.original) ? readSnapshot(value.original) : undefined,
+    edits: listOf(value.edits, readEdit),
+    reviewed: optionalBoolean(value.reviewed),
+    excludedFromIncome: optionalBoolean(value.excludedFromIncome),
+    markedAsTransfer: optionalBoolean(value.markedAsTransfer)
+  };
+};
+
+const readFailedPage = (value: JsonRecord): FailedPageRange | undefined =>
+  typeof value.fileName === 'string' && typeof value.reason === 'string'
+    ? {
+      fileName: value.fileName,
+      fileId: optionalString(value.fileId),
+      pageStart: optionalNumber(value.pageStart),
+      pageEnd: optionalNumber(value.pageEnd),
+      reason: value.reason
+    }
+    : undefined;
+
+const readBalance = (value: JsonRecord): BalanceCheckpoint | undefined => {
+  const balance = optionalNumber(value.balance);
+  return typeof value.date === 'string' && balance !== undefined ? { date: value.date, balance } : undefined;
+};
+
+const readReconciliation = (value: JsonRecord): ReconciliationResult | undefined => {
+  const status = oneOf(value.status, ['ok', 'mismatch', 'unavailable'] as const);
+  if (typeof value.fileName !== 'string' || !status) return undefined;
+  const divergence = isRecord(value.firstDivergence) ? value.firstDivergence : undefined;
+  const expectedBalance = optionalNumber(divergence?.expectedBalance);
+  const computedBalance = optionalNumber(divergence?.computedBalance);
+  return {
+    fileName: value.fileName,
+    bankName: optionalString(value.bankName),
+    periodStart: optionalString(value.periodStart),
+    periodEnd: optionalString(value.periodEnd),
+    openingBalance: optionalNumber(value.openingBalance),
+    closingBalance: optionalNumber(value.closingBalance),
+    computedClosingBalance: optionalNumber(value.computedClosingBalance),
+    difference: optionalNumber(value.difference),
+    status,
+    firstDivergence: typeof divergence?.from === 'string' && typeof divergence.to === 'string'
+      && expectedBalance !== undefined && computedBalance !== undefined
+      ? { from: divergence.from, to: divergence.to, expectedBalance, computedBalance }
+      : undefined
+  };
+};
+
+const readExtractedData = (value: JsonRecord, transactions: unknown[]): ExtractedData => ({
+  transactions: transactions.map(readTransaction),
+  bankName: optionalString(value.bankName),
+  accountHolder: optionalString(value.accountHolder),
+  accountHolders: stringList(value.accountHolders),
+  holderDocument: optionalString(value.holderDocument),
+  holderDocuments: stringList(value.holderDocuments),
+  accountNumber: optionalString(value.accountNumber),
+  openingBalance: optionalNumber(value.openingBalance),
+  closingBalance: optionalNumber(value.closingBalance),
+  dailyBalances: listOf(value.dailyBalances, readBalance),
+  reconciliations: listOf(value.reconciliations, readReconciliation),
+  failedPages: listOf(value.failedPages, readFailedPage)
+});
+
+const readExclusionCondition = (value: JsonRecord): ExclusionCondition | undefined => {
+  const negate = optionalBoolean(value.negate);
+  switch (value.type) {
+    case 'text': {
+      const mode = oneOf(value.mode, ['contains', 'word', 'regex'] as const);
+      return mode && typeof value.value === 'string' ? { type: 'text', mode, value: value.value, negate } : undefined;
+    }
+    case 'amount': {
+      const operator = oneOf(value.operator, ['gt', 'gte', 'lt', 'lte'] as const);
+      const amount = optionalNumber(value.value);
+      return operator && amount !== undefined ? { type: 'amount', operator, value: amount, negate } : undefined;
+    }
+    case 'category':
+      return typeof value.value === 'string' ? { type: 'category', value: value.value, negate } : undefined;
+    default:
+      return undefined;
+  }
+};
+
+const readExclusionRule = (value: JsonRecord): ExclusionRule | undefined =>
+  typeof value.id === 'string' && typeof value.name === 'string'
+    ? {
+      id: value.id,
+      name: value.name,
+      enabled: value.enabled !== false,
+      conditions: listOf(value.conditions, readExclusionCondition) ?? [],
+      presetId: optionalString(value.presetId)
+    }
+    : undefined;
+
+const readTransferDecisions = (value: unknown): Record<string, TransferDecision> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const decisions: Record<string, TransferDecision> = {};
+  Object.entries(value).forEach(([key, decision]) => {
+    const parsed = oneOf(decision, ['confirmed', 'rejected'] as const);
+    if (parsed) decisions[key] = parsed;
+  });
+  return decisions;
+};
+
+const readFilters = (value: JsonRecord): DashboardFilters => {
+  const sort = isRecord(value.sort) ? value.sort : undefined;
+  const sortField = oneOf(sort?.field, ['date', 'description', 'category', 'amount'] as const);
+  const sortDirection = oneOf(sort?.direction, ['asc', 'desc'] as const);
+  return {
+    searchTerm: optionalString(value.searchTerm) ?? DEFAULT_TABLE_FILTERS.searchTerm,
+    categoryFilter: optionalString(value.categoryFilter) ?? DEFAULT_TABLE_FILTERS.categoryFilter,
+    showReadingReview: optionalBoolean(value.showReadingReview) ?? DEFAULT_TABLE_FILTERS.showReadingReview,
+    amountMin: optionalNumber(value.amountMin),
+    amountMax: optionalNumber(value.amountMax),
+    dateFrom: optionalString(value.dateFrom),
+    dateTo: optionalString(value.dateTo),
+    sign: oneOf(value.sign, ['any', 'positive', 'negative'] as const),
+    sort: sortField && sortDirection ? { field: sortField, direction: sortDirection } : undefined,
+    accountKey: optionalString(value.accountKey)
+  };
+};
+
+const readPeriod = (value: JsonRecord): PeriodSelection | undefined => {
+  const preset = oneOf(value.preset, ['all', 'last3', 'last6', 'last12', 'year', 'custom'] as const);
+  if (!preset) return undefined;
+  return {
+    preset,
+    year: optionalNumber(value.year),
+    from: optionalString(value.from),
+    to: optionalString(value.to),
+    partialMonths: oneOf(value.partialMonths, ['include', 'exclude', 'prorate'] as const) ?? DEFAULT_PERIOD_SELECTION.partialMonths
+  };
+};
+
+const readDashboardState = (value: JsonRecord, transactions: unknown[]): DashboardState => ({
+  transactions: transactions.map(readTransaction),
+  exclusionRules: listOf(value.exclusionRules, readExclusionRule),
+  ignoredTerms: stringList(value.ignoredTerms),
+  keptDuplicateGroups: stringList(value.keptDuplicateGroups) ?? [],
+  analysisMode: oneOf(value.analysisMode, ['income', 'expense', 'full'] as const),
+  transferDecisions: readTransferDecisions(value.transferDecisions),
+  failedPages: listOf(value.failedPages, readFailedPage),
+  filters: isRecord(value.filters) ? readFilters(value.filters) : undefined,
+  incomeMetric: oneOf(value.incomeMetric, ['mean', 'median', 'trimmedMean', 'meanWithoutOutliers'] as const),
+  period: isRecord(value.period) ? readPeriod(value.period) : undefined
+});
+
+const readSessionFile = (value: JsonRecord): SessionFile | undefined =>
+  typeof value.name === 'string' && typeof value.hash === 'string'
+    ? { id: optionalString(value.id), name: value.name, size: optionalNumber(value.size) ?? 0, hash: value.hash }
+    : undefined;
+
+export const parseSessionFile = (text: string): SessionSnapshot => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Arquivo de análise inválido: o conteúdo não é um JSON.");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== SESSION_FILE_FORMAT) {
+    throw new Error("Este JSON não é uma análise exportada pelo ExtratoAI Pro.");
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > SESSION_FILE_VERSION) {
+    throw new Error("Análise exportada por uma versão mais nova do aplicativo. Atualize a página e tente de novo.");
+  }
+  const { data, state } = parsed;
+  if (!isRecord(data) || !Array.isArray(data.transactions) || !isRecord(state) || !Array.isArray(state.transactions)) {
+    throw new Error("Arquivo de análise inválido: lista de transações não encontrada.");
+  }
+
+  return {
+    name: optionalString(parsed.name) || 'Análise importada',
+    files: listOf(parsed.files, readSessionFile) ?? [],
+    data: readExtractedData(data, data.transactions),
+    state: readDashboardState(state, state.transactions)
+  };
+};
@@ -0,0 +1,72 @@
+import { Transaction } from "../types";
+
+// Eventos emitidos durante a leitura de um lote, na ordem em que acontecem
+export type ExtractionEvent =
+  | { type: 'file-started'; fileName: string }
+  | { type: 'pages-queued'; fileName: string; pagesTotal: number }
+  // Páginas lidas e as transações encontradas nelas (sem páginas em formatos como OFX)
+  | { type: 'pages-read'; fileName: string; pageStart?: number; pageEnd?: number; transactions: Transaction[] }
+  | { type: 'pages-failed'; fileName: string; pageStart: number; pageEnd: number; reason: string }
+  | { type: 'file-finished'; fileName: string; status: Exclude<FileProgressStatus, 'queued' | 'processing'>; reason?: string };
+
+export type ExtractionEventListener = (event: ExtractionEvent) => void;
+
+export type FileProgressStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface FileProgress {
+  id: string; // Único no lote: dois arquivos podem ter o mesmo nome
+  fileName: string;
+  status: FileProgressStatus;
+  pagesTotal?: number; // Desconhecido até o arquivo ser aberto; ausente em formatos sem páginas
+  pagesRead: number;
+  pagesFailed: number;
+  transactionsFound: number;
+  reason?: string;
+}
+
+export interface ExtractionProgress {
+  files: FileProgress[];
+  // Últimas transações encontradas no lote, mais recentes primeiro
+  preview: Transaction[];
+}
+
+const PREVIEW_LIMIT = 50;
+
+const countPages = (pageStart?: number, pageEnd?: number) =>
+  pageStart !== undefined && pageEnd !== undefined ? pageEnd - pageStart + 1 : 0;
+
+export const createExtractionProgress = (files: { id: string; fileName: string }[]): ExtractionProgress => ({
+  files: files.map(({ id, fileName }) => ({ id, fileName, status: 'queued', pagesRead: 0, pagesFailed: 0, transactionsFound: 0 })),
+  preview: []
+});
+
+const updateFile = (progress: ExtractionProgress, fileId: string, update: (file: FileProgress) => FileProgress) => ({
+  ...progress,
+  files: progress.files.map(file => (file.id === fileId ? update(file) : file))
+});
+
+// Os eventos trazem só o nome do arquivo; quem os recebe sabe de qual arquivo do lote vieram
+export const applyExtractionEvent = (progress: ExtractionProgress, fileId: string, event: ExtractionEvent): ExtractionProgress => {
+  switch (event.type) {
+    case 'file-started':
+      return updateFile(progress, fileId, file => ({ ...file, status: 'processing' }));
+    case 'pages-queued':
+      return updateFile(progress, fileId, file => ({ ...file, pagesTotal: event.pagesTotal }));
+    case 'pages-read':
+      return {
+        ...updateFile(progress, fileId, file => ({
+          ...file,
+          pagesRead: file.pagesRead + countPages(event.pageStart, event.pageEnd),
+          transactionsFound: file.transactionsFound + event.transactions.length
+        })),
+        preview: [...[...event.transactions].reverse(), ...progress.preview].slice(0, PREVIEW_LIMIT)
+      };
+    case 'pages-failed':
+      return updateFile(progress, fileId, file => ({
+        ...file,
+        pagesFailed: file.pagesFailed + countPages(event.pageStart, event.pageEnd)
+      }));
+    case 'file-finished':
+      return updateFile(progress, fileId, file => ({ ...file, status: event.status, reason: event.reason }));
+  }
+};
@@ -0,0 +1,145 @@
+import { createGeminiProvider, GEMINI_MODELS } from "./geminiService";
+import { localTextProvider } from "./localTextProvider";
+
+// Bloco de páginas de um extrato em PDF, já separado do arquivo original
+export interface PdfChunk {
+  fileName: string;
+  chunkIndex: number;
+  pageStart: number; // Páginas (1-based) do arquivo original cobertas pelo bloco
+  pageEnd: number;
+  data: Uint8Array;  // PDF contendo apenas as páginas do bloco
+}
+
+// Transação no formato compacto devolvido pelos provedores (p = página dentro do bloco)
+export interface RawTransaction {
+  d: string;
+  t: string;
+  v: number;
+  c: string;
+  p?: number | null;
+  r?: string | null;
+  q?: number | null; // Confiança da leitura (0 a 1)
+}
+
+export interface ChunkPayload {
+  b?: string | null;
+  h?: string | null;
+  hd?: string | null;
+  ac?: string | null; // Agência/conta como impressas
+  so?: number | null;
+  sc?: number | null;
+  sd?: { d: string; s: number }[];
+  tx: RawTransaction[];
+}
+
+export type ExtractionProviderId = 'gemini' | 'local' | 'replay';
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  name: string;
+  // Quantas páginas enviar por chamada; provedores locais leem o arquivo inteiro de uma vez
+  pagesPerChunk: number;
+  // O sinal cancela a chamada em andamento (provedores locais podem ignorá-lo)
+  extractChunk: (chunk: PdfChunk, signal?: AbortSignal) => Promise<ChunkPayload>;
+}
+
+export interface ExtractionSettings {
+  providerId: Exclude<ExtractionProviderId, 'replay'>;
+  geminiModel: string;
+}
+
+export interface ProviderOption {
+  id: ExtractionSettings['providerId'];
+  name: string;
+  description: string;
+  sendsDataToCloud: boolean;
+}
+
+const SETTINGS_STORAGE_KEY = 'extratoai:extraction-settings';
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  providerId: 'gemini',
+  geminiModel: GEMINI_MODELS[0]
+};
+
+// Provedores que o usuário pode escolher nas configurações (o de replay é só para testes)
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: 'gemini',
+    name: 'Gemini (nuvem)',
+    description: 'Lê qualquer layout, inclusive digitalizado. As páginas são enviadas à API do Google.',
+    sendsDataToCloud: true
+  },
+  {
+    id: 'local',
+    name: 'Local (offline)',
+    description: 'Lê a camada de texto do PDF no próprio navegador. Nada sai da máquina; não funciona com PDFs digitalizados.',
+    sendsDataToCloud: false
+  }
+];
+
+export const loadExtractionSettings = (): ExtractionSettings => {
+  try {
+    return { ...DEFAULT_EXTRACTION_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_EXTRACTION_SETTINGS;
+  }
+};
+
+export const saveExtractionSettings = (settings: ExtractionSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getExtractionProvider = (settings: ExtractionSettings): ExtractionProvider => {
+  switch (settings.providerId) {
+    case 'local':
+      return localTextProvider;
+    case 'gemini':
+      return createGeminiProvider(settings.geminiModel);
+  }
+};
+
+// --- Replay (testes e reprodução de problemas sem rede) ---
+
+export interface RecordedResponse {
+  fileName: string;
+  pageStart: number;
+  pageEnd: number;
+  payload: ChunkPayload;
+}
+
+const getRecordingKey = (chunk: Pick<PdfChunk, 'fileName' | 'pageStart' | 'pageEnd'>) =>
+  `${chunk.fileName}#${chunk.pageStart}-${chunk.pageEnd}`;
+
+/**
+ * Devolve respostas gravadas para os mesmos arquivo e páginas, sem chamar nenhum serviço.
+ * Blocos sem gravação falham, para que testes não passem por acidente.
+ */
+export const createReplayProvider = (recordings: RecordedResponse[], pagesPerChunk = 3): ExtractionProvider => {
+  const byKey = new Map(recordings.map(r => [getRecordingKey(r), r.payload]));
+  return {
+    id: 'replay',
+    name: 'Replay de respostas gravadas',
+    pagesPerChunk,
+    extractChunk: async (chunk) => {
+      const payload = byKey.get(getRecordingKey(chunk));
+      if (!payload) {
+        throw new Error(`Nenhuma resposta gravada para ${chunk.fileName}, páginas ${chunk.pageStart}–${chunk.pageEnd}.`);
+      }
+      return payload;
+    }
+  };
+};
+
+// Envolve um provedor real e guarda cada resposta para uso posterior com createReplayProvider
+export const createRecordingProvider = (
+  provider: ExtractionProvider,
+  recordings: RecordedResponse[]
+): ExtractionProvider => ({
+  ...provider,
+  extractChunk: async (chunk, signal) => {
+    const payload = await provider.extractChunk(chunk, signal);
+    recordings.push({ fileName: chunk.fileName, pageStart: chunk.pageStart, pageEnd: chunk.pageEnd, payload });
+    return payload;
+  }
+});
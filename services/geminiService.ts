@@ -1,10 +1,18 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { PDFDocument } from "pdf-lib";
-import { ExtractedData, Transaction } from "../types";
+import { ChunkPayload, ExtractionProvider, PdfChunk } from "./extractionProvider";
 
 // Reduced to 3 pages per chunk to prevent output token limit truncation (JSON parse errors)
 const PAGES_PER_CHUNK = 3;
 
+// O primeiro é o padrão: rápido e barato para extratos digitais
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+// O Pro não aceita desligar o raciocínio (orçamento 0 devolve erro 400); nele fica o orçamento padrão do modelo
+const MODELS_WITHOUT_THINKING_OFF = ['gemini-2.5-pro'];
+
+const getThinkingConfig = (model: string) =>
+  MODELS_WITHOUT_THINKING_OFF.includes(model) ? undefined : { thinkingBudget: 0 };
+
 const cleanJsonResponse = (text: string): string => {
   let cleaned = text.trim();
   // Remove markdown code blocks common in LLM responses
@@ -16,16 +24,25 @@ const cleanJsonResponse = (text: string): string => {
   return cleaned;
 };
 
+// Converte em blocos para não estourar o limite de argumentos de fromCharCode
+const toBase64 = (data: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
 // Helper to extract text from a specific PDF chunk
-const processPdfChunk = async (base64Chunk: string, ai: GoogleGenAI): Promise<any> => {
+const processPdfChunk = async (chunk: PdfChunk, ai: GoogleGenAI, model: string, signal?: AbortSignal): Promise<ChunkPayload> => {
   const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+    model,
     contents: {
       parts: [
         {
           inlineData: {
             mimeType: 'application/pdf',
-            data: base64Chunk
+            data: toBase64(chunk.data)
           }
         },
         {
@@ -34,6 +51,7 @@ const processPdfChunk = async (base64Chunk: string, ai: GoogleGenAI): Promise<an
       ]
     },
     config: {
+      abortSignal: signal,
       // Instrução otimizada para velocidade e precisão em formatos BR (PagBank, Uber, Digio, etc)
       systemInstruction: `You are an expert JSON extractor for Brazilian bank statements.
       Target Banks: PagBank, Uber Conta, Digio, Nubank, Inter, Itaú, Bradesco.
@@ -50,23 +68,57 @@ const processPdfChunk = async (base64Chunk: string, ai: GoogleGenAI): Promise<an
          - Columns labeled 'Débito' or 'Saída'.
       3. POSITIVE (Income): 
          - Words in description/type: 'Crédito', 'Entrada', 'Recebimento', 'Estorno', 'Depósito', 'Transferência recebida', 'Pix Recebido', 'Ganhos'.
-      4. IGNORE: 'Saldo', 'Total', 'Subtotal', 'A aplicar', 'Saldo Anterior'.
+      4. IGNORE as transactions: 'Saldo', 'Total', 'Subtotal', 'A aplicar', 'Saldo Anterior'.
       5. PagBank/Digital Banks Specific: 'Envio de Pix' is Negative. 'Recebimento de Pix' is Positive.
       
+      BALANCES (never inside tx):
+      - so: opening balance ('Saldo Anterior', 'Saldo Inicial'). Null if not printed on these pages.
+      - sc: closing balance ('Saldo Final', last printed 'Saldo'). Null if not printed on these pages.
+      - sd: end-of-day balances ('Saldo do dia', balance column) as objects d=date, s=balance.
+      Negative balances keep the '-' sign.
+      
       Schema Keys: 
       b=bank_name (string), 
       h=holder_name (string), 
-      tx=transactions (array of objects: d=date, t=desc, v=val, c=cat).`,
+      hd=holder_document (CPF or CNPJ of the account holder as printed, null if absent), 
+      ac=account (branch/account number as printed, e.g. '0001/12345-6', null if absent), 
+      so=opening_balance (number), 
+      sc=closing_balance (number), 
+      sd=daily_balances (array of objects: d=date, s=balance), 
+      tx=transactions (array of objects: d=date, t=desc, v=val, c=cat, p=page, r=raw, q=confidence).
+      
+      AUDIT TRAIL (per tx):
+      - p: page number where the line is printed, counting from 1 within THIS document.
+      - r: the full line exactly as printed (date, description and value), without rewording.
+      
+      SCANS AND PHOTOS:
+      - Pages may be scanned or photographed. Read them as printed; never invent missing digits.
+      - q: confidence from 0 to 1 that d, t and v were read correctly. Use below 0.8 when any character is blurred, cut off, covered or guessed.`,
       responseMimeType: "application/json",
       temperature: 0,
       topP: 0.1,
       topK: 1,
-      thinkingConfig: { thinkingBudget: 0 },
+      thinkingConfig: getThinkingConfig(model),
       responseSchema: {
         type: Type.OBJECT,
         properties: {
           b: { type: Type.STRING, nullable: true },
           h: { type: Type.STRING, nullable: true },
+          hd: { type: Type.STRING, nullable: true, description: "Holder CPF/CNPJ" },
+          ac: { type: Type.STRING, nullable: true, description: "Branch/account number" },
+          so: { type: Type.NUMBER, nullable: true, description: "Opening balance" },
+          sc: { type: Type.NUMBER, nullable: true, description: "Closing balance" },
+          sd: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                d: { type: Type.STRING, description: "Date YYYY-MM-DD" },
+                s: { type: Type.NUMBER, description: "End-of-day balance" }
+              },
+              required: ["d", "s"]
+            }
+          },
           tx: {
             type: Type.ARRAY,
             items: {
@@ -75,7 +127,10 @@ const processPdfChunk = async (base64Chunk: string, ai: GoogleGenAI): Promise<an
                 d: { type: Type.STRING, description: "Date YYYY-MM-DD" },
                 t: { type: Type.STRING, description: "Description" },
                 v: { type: Type.NUMBER, description: "Value. Negative for expenses." },
-                c: { type: Type.STRING, description: "Category (e.g. Pix, Boleto, Taxa)" }
+                c: { type: Type.STRING, description: "Category (e.g. Pix, Boleto, Taxa)" },
+                p: { type: Type.INTEGER, nullable: true, description: "Page number within this document (1-based)" },
+                r: { type: Type.STRING, nullable: true, description: "Original line as printed" },
+                q: { type: Type.NUMBER, nullable: true, description: "Reading confidence from 0 to 1" }
               },
               required: ["d", "t", "v", "c"]
             }
@@ -94,78 +149,14 @@ const processPdfChunk = async (base64Chunk: string, ai: GoogleGenAI): Promise<an
   return JSON.parse(cleanedText);
 };
 
-export const analyzeBankStatement = async (file: File): Promise<ExtractedData> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Chave de API não configurada. Por favor, adicione a variável de ambiente API_KEY nas configurações do Vercel.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
-    const totalPages = pdfDoc.getPageCount();
-    
-    let allTransactions: Transaction[] = [];
-    let bankName = "";
-    let accountHolder = "";
-
-    // Determine chunks
-    const chunkPromises = [];
-    
-    // If file is small, process as one. If large, split.
-    if (totalPages <= PAGES_PER_CHUNK) {
-       // Single chunk processing (optimization for small files)
-       const base64 = await pdfDoc.saveAsBase64();
-       chunkPromises.push(processPdfChunk(base64, ai));
-    } else {
-       // Split into chunks
-       for (let i = 0; i < totalPages; i += PAGES_PER_CHUNK) {
-         const subDoc = await PDFDocument.create();
-         const pageIndices = [];
-         // Calculate pages for this chunk
-         for (let j = 0; j < PAGES_PER_CHUNK && (i + j) < totalPages; j++) {
-           pageIndices.push(i + j);
-         }
-         
-         const copiedPages = await subDoc.copyPages(pdfDoc, pageIndices);
-         copiedPages.forEach(page => subDoc.addPage(page));
-         
-         const base64Chunk = await subDoc.saveAsBase64();
-         chunkPromises.push(processPdfChunk(base64Chunk, ai));
-       }
+export const createGeminiProvider = (model: string = GEMINI_MODELS[0]): ExtractionProvider => ({
+  id: 'gemini',
+  name: `Gemini (${model})`,
+  pagesPerChunk: PAGES_PER_CHUNK,
+  extractChunk: async (chunk, signal) => {
+    if (!process.env.API_KEY) {
+      throw new Error("Chave de API não configurada. Por favor, adicione a variável de ambiente API_KEY nas configurações do Vercel.");
     }
-
-    // Process all chunks in parallel
-    const results = await Promise.all(chunkPromises);
-
-    // Merge results
-    results.forEach((data) => {
-        if (data.tx && Array.isArray(data.tx)) {
-            const mappedTransactions = data.tx.map((item: any) => ({
-                date: item.d,
-                description: item.t,
-                amount: item.v,
-                category: item.c
-            }));
-            allTransactions = [...allTransactions, ...mappedTransactions];
-        }
-        
-        // Capture metadata from the first chunk that has it
-        if (!bankName && data.b) bankName = data.b;
-        if (!accountHolder && data.h) accountHolder = data.h;
-    });
-
-    return {
-        bankName: bankName || "Banco não identificado",
-        accountHolder: accountHolder || "Titular não identificado",
-        transactions: allTransactions
-    };
-
-  } catch (e: any) {
-    console.error("Erro na análise do extrato:", e);
-    // Repassa a mensagem de erro se for específica (ex: chave api), senão genérica
-    const message = e.message || "Falha ao processar o arquivo. Verifique se é um PDF válido e tente novamente.";
-    throw new Error(message);
+    return processPdfChunk(chunk, new GoogleGenAI({ apiKey: process.env.API_KEY }), model, signal);
   }
-};
\ No newline at end of file
+});
@@ -0,0 +1,378 @@
+import jsPDF from 'jspdf';
+import autoTable, { Table } from 'jspdf-autotable';
+import { IncomeMetric, Transaction } from "../types";
+import {
+  AnalysisOptions,
+  computeAnalysis,
+  getExclusionReason,
+  getIncomeByMetric,
+  getMonthKey,
+  INCOME_METRIC_LABELS,
+  OUT_OF_PERIOD_LABEL
+} from "./analysisService";
+import { getPayerName } from "./incomeSourceService";
+import { describePartialHandling } from "./periodService";
+import { decoratePages, MODE_COLORS, PAGE_MARGIN, TABLE_MARGIN } from "./reportPdfService";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import { coefficientOfVariation, mean, median, sum } from "../utils/statistics";
+
+// Mesmas opções da análise (regras, transferências, período e meses parciais), sempre no modo Receitas
+export interface IncomeReportOptions extends Omit<AnalysisOptions, 'mode'> {
+  // Métrica escolhida como renda apurada (padrão: média mensal)
+  incomeMetric?: IncomeMetric;
+}
+
+export interface IncomeMonth {
+  month: string; // YYYY-MM
+  income: number;
+  count: number;
+  outlier: boolean;
+  coverage?: number; // Mês parcial proporcionalizado: fração coberta
+}
+
+export interface IncomeSummary {
+  average: number;
+  median: number;
+  months: number;
+}
+
+export interface RecurringPayer {
+  name: string;
+  total: number;
+  count: number;
+  months: number; // Meses distintos com pagamento
+}
+
+export interface ExcludedIncome {
+  transaction: Transaction;
+  reason: string;
+}
+
+export interface IncomeReport {
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  // Todos os meses do período, inclusive os sem nenhuma entrada
+  months: IncomeMonth[];
+  totalIncome: number;
+  all: IncomeSummary;
+  withoutOutliers: IncomeSummary;
+  coefficientOfVariation: number;
+  assessedIncome: { metric: IncomeMetric; value: number };
+  partialMonthNote?: string;
+  payers: RecurringPayer[];
+  excluded: ExcludedIncome[];
+}
+
+// Identificação de quem recebe o relatório
+export interface IncomeReportHeader {
+  accountHolder?: string;
+  holderDocuments?: string[];
+  bankName?: string;
+  reviewerName?: string;
+}
+
+// Pagadores e exclusões listados; o restante é resumido numa linha para o relatório caber em poucas páginas
+const MAX_PAYERS = 8;
+const MAX_EXCLUDED_ROWS = 40;
+
+const byDateThenDescription = (a: Transaction, b: Transaction) =>
+  a.date.localeCompare(b.date) || a.description.localeCompare(b.description) || a.amount - b.amount;
+
+const summarize = (values: number[]): IncomeSummary => ({ average: mean(values), median: median(values), months: values.length });
+
+/**
+ * Apuração de renda para comprovação (locação, crédito): usa as mesmas entradas do modo Receitas,
+ * completa os meses sem entrada com zero e separa os meses atípicos (cercas de Tukey).
+ * A ordem de todas as listas é fixa, para o mesmo conjunto de transações gerar o mesmo relatório.
+ */
+export const buildIncomeReport = (transactions: Transaction[], { incomeMetric = 'mean', ...options }: IncomeReportOptions): IncomeReport => {
+  const dates = transactions.map(t => t.date).sort();
+  const periodStart = options.period?.from ?? dates[0] ?? '';
+  const periodEnd = options.period?.to ?? dates[dates.length - 1] ?? '';
+
+  // Os meses do período (inclusive os sem entrada) e os atípicos vêm da mesma análise do modo Receitas
+  const analysis = computeAnalysis(transactions, { mode: 'income', ...options });
+  const included = analysis.sortedTransactions;
+  const countByMonth = new Map<string, number>();
+  included.forEach(t => countByMonth.set(getMonthKey(t.date), (countByMonth.get(getMonthKey(t.date)) ?? 0) + 1));
+
+  const months = analysis.months.map(m => ({
+    month: m.month,
+    income: m.income,
+    count: countByMonth.get(m.month) ?? 0,
+    outlier: !!m.incomeOutlier,
+    coverage: m.coverage
+  }));
+  const values = months.map(m => m.income);
+
+  const payerGroups = new Map<string, Transaction[]>();
+  included.forEach(t => {
+    const name = getPayerName(t);
+    payerGroups.set(name, [...(payerGroups.get(name) ?? []), t]);
+  });
+  const payers = Array.from(payerGroups.entries())
+    .map(([name, group]) => ({
+      name,
+      total: sum(group.map(t => t.amount)),
+      count: group.length,
+      months: new Set(group.map(t => getMonthKey(t.date))).size
+    }))
+    // Recorrente: pagou em pelo menos dois meses diferentes
+    .filter(p => p.months >= 2)
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+    .slice(0, MAX_PAYERS);
+
+  const excluded = transactions
+    .filter(t => t.amount > 0)
+    .map(t => ({ transaction: t, reason: getExclusionReason(t, { mode: 'income', ...options }) }))
+    // Entradas fora do período selecionado não são exclusões da apuração
+    .filter((e): e is ExcludedIncome => !!e.reason && e.reason !== OUT_OF_PERIOD_LABEL)
+    .sort((a, b) => byDateThenDescription(a.transaction, b.transaction));
+
+  return {
+    periodStart,
+    periodEnd,
+    months,
+    // Total recebido de fato; a proporcionalização vale só para os valores mensais e as médias
+    totalIncome: analysis.stats.totalIncome,
+    all: summarize(values),
+    withoutOutliers: summarize(months.filter(m => !m.outlier).map(m => m.income)),
+    coefficientOfVariation: coefficientOfVariation(values),
+    assessedIncome: { metric: incomeMetric, value: getIncomeByMetric(analysis.stats, incomeMetric) },
+    partialMonthNote: describePartialHandling(options.partialMonths ?? [], options.partialMonthHandling ?? 'include'),
+    payers,
+    excluded
+  };
+};
+
+export const describeStability = (cv: number) => {
+  if (cv <= 0.15) return 'Alta';
+  if (cv <= 0.35) return 'Moderada';
+  return 'Baixa';
+};
+
+const formatMonth = (month: string) => {
+  const [y, m] = month.split('-');
+  return `${m}/${y}`;
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1).replace('.', ',')}%`;
+
+// Impressão digital do conteúdo: relatórios idênticos têm o mesmo código de verificação
+const computeReportFingerprint = async (report: IncomeReport, header: IncomeReportHeader) => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('O comprovante precisa de uma conexão segura (https ou localhost) para gerar o código de verificação.');
+  }
+  const content = JSON.stringify({
+    header,
+    ...report,
+    excluded: report.excluded.map(e => [e.transaction.date, e.transaction.description, e.transaction.amount, e.reason])
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 32).toUpperCase();
+};
+
+const HEAD_COLOR = MODE_COLORS.income;
+
+// O jspdf-autotable guarda a última tabela desenhada no próprio documento
+type AutoTableDocument = jsPDF & { lastAutoTable?: Table };
+
+const getLastTableEnd = (doc: jsPDF) => (doc as AutoTableDocument).lastAutoTable?.finalY ?? TABLE_MARGIN.top;
+
+/**
+ * Comprovante de renda em PDF. Nada depende do relógio ou da tela:
+ * a data do documento é o fim do período e o identificador do arquivo vem do conteúdo.
+ */
+export const renderIncomeReportPdf = async (report: IncomeReport, header: IncomeReportHeader): Promise<jsPDF> => {
+  const fingerprint = await computeReportFingerprint(report, header);
+  const doc = new jsPDF();
+  doc.setFileId(fingerprint);
+  if (report.periodEnd) doc.setCreationDate(new Date(`${report.periodEnd}T12:00:00Z`));
+  doc.setDocumentProperties({ title: 'Comprovante de Renda', subject: header.accountHolder || '' });
+
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const lastY = () => getLastTableEnd(doc);
+  const ensureSpace = (y: number, needed: number) => {
+    if (y + needed <= pageHeight - TABLE_MARGIN.bottom) return y;
+    doc.addPage();
+    return TABLE_MARGIN.top;
+  };
+  const sectionTitle = (title: string, y: number) => {
+    const top = ensureSpace(y, 20);
+    doc.setFontSize(12);
+    doc.setTextColor(40);
+    doc.text(title, PAGE_MARGIN, top);
+    return top + 3;
+  };
+
+  // Cabeçalho e identificação
+  doc.setFontSize(18);
+  doc.setTextColor(40);
+  doc.text('Comprovante de Renda', PAGE_MARGIN, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text('Apuração de renda a partir de extratos bancários', PAGE_MARGIN, 26);
+
+  const identification = [
+    ['Titular', header.accountHolder || 'Não identificado'],
+    ['CPF/CNPJ', header.holderDocuments?.join(', ') || 'Não identificado'],
+    ['Instituições', header.bankName || 'Não identificado'],
+    ['Período analisado', report.periodStart
+      ? `${formatDate(report.periodStart)} a ${formatDate(report.periodEnd)} (${report.months.length} meses)`
+      : 'Sem transações']
+  ];
+  autoTable(doc, {
+    startY: 32,
+    body: identification,
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 1 },
+    columnStyles: { 0: { cellWidth: 40, fontStyle: 'bold', textColor: 80 } }
+  });
+
+  // Indicadores
+  let y = sectionTitle('Resumo da renda', lastY() + 10);
+  const outlierCount = report.all.months - report.withoutOutliers.months;
+  autoTable(doc, {
+    startY: y,
+    margin: TABLE_MARGIN,
+    head: [['Indicador', 'Todos os meses', outlierCount > 0 ? `Sem ${outlierCount} mês(es) atípico(s)` : 'Sem meses atípicos']],
+    body: [
+      [
+        { content: `Renda apurada (${INCOME_METRIC_LABELS[report.assessedIncome.metric].label.toLowerCase()})`, styles: { fontStyle: 'bold' } },
+        { content: formatCurrency(report.assessedIncome.value), styles: { fontStyle: 'bold' } },
+        ''
+      ],
+      ['Renda média mensal', formatCurrency(report.all.average), formatCurrency(report.withoutOutliers.average)],
+      ['Renda mediana mensal', formatCurrency(report.all.median), formatCurrency(report.withoutOutliers.median)],
+      ['Renda total no período', formatCurrency(report.totalIncome), ''],
+      ['Estabilidade (coeficiente de variação)', `${formatPercent(report.coefficientOfVariation)} • ${describeStability(report.coefficientOfVariation)}`, '']
+    ],
+    headStyles: { fillColor: HEAD_COLOR },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+  });
+
+  // Renda mês a mês
+  y = sectionTitle('Renda mensal', lastY() + 10);
+  autoTable(doc, {
+    startY: y,
+    margin: TABLE_MARGIN,
+    head: [['Mês', 'Entradas', 'Renda', 'Observação']],
+    body: report.months.map(m => [
+      formatMonth(m.month),
+      String(m.count),
+      formatCurrency(m.income),
+      [
+        m.outlier && 'Atípico (fora do padrão do período)',
+        m.coverage !== undefined && `Proporcionalizado (${Math.round(m.coverage * 100)}% do mês coberto)`,
+        m.count === 0 && 'Sem entradas'
+      ].filter(Boolean).join('; ')
+    ]),
+    headStyles: { fillColor: HEAD_COLOR },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right', cellWidth: 22 }, 2: { halign: 'right', cellWidth: 40 } }
+  });
+
+  // Maiores pagadores recorrentes
+  y = sectionTitle('Maiores pagadores recorrentes', lastY() + 10);
+  if (report.payers.length > 0) {
+    autoTable(doc, {
+      startY: y,
+      margin: TABLE_MARGIN,
+      head: [['Pagador', 'Meses', 'Entradas', 'Total']],
+      body: report.payers.map(p => [p.name, String(p.months), String(p.count), formatCurrency(p.total)]),
+      headStyles: { fillColor: HEAD_COLOR },
+      styles: { fontSize: 9 },
+      columnStyles: { 1: { halign: 'right', cellWidth: 20 }, 2: { halign: 'right', cellWidth: 22 }, 3: { halign: 'right', cellWidth: 40 } }
+    });
+    y = lastY();
+  } else {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text('Nenhum pagador com entradas em mais de um mês.', PAGE_MARGIN, y + 5);
+    y += 5;
+  }
+
+  // Entradas desconsideradas e o motivo de cada uma
+  y = sectionTitle(`Entradas desconsideradas (${report.excluded.length})`, y + 10);
+  if (report.excluded.length > 0) {
+    const listed = report.excluded.slice(0, MAX_EXCLUDED_ROWS);
+    const hidden = report.excluded.slice(MAX_EXCLUDED_ROWS);
+    const body = listed.map(e => [
+      formatDate(e.transaction.date),
+      e.transaction.description,
+      formatCurrency(e.transaction.amount),
+      e.reason
+    ]);
+    if (hidden.length > 0) {
+      body.push(['', `e mais ${hidden.length} entradas`, formatCurrency(sum(hidden.map(e => e.transaction.amount))), '']);
+    }
+    autoTable(doc, {
+      startY: y,
+      margin: TABLE_MARGIN,
+      head: [['Data', 'Descrição', 'Valor', 'Motivo']],
+      body,
+      headStyles: { fillColor: [100, 116, 139] },
+      styles: { fontSize: 8 },
+      columnStyles: { 0: { cellWidth: 22 }, 2: { halign: 'right', cellWidth: 28 }, 3: { cellWidth: 55 } }
+    });
+    y = lastY();
+  } else {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text('Nenhuma entrada foi desconsiderada.', PAGE_MARGIN, y + 5);
+    y += 5;
+  }
+
+  // Metodologia
+  y = ensureSpace(y + 10, 24);
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  const methodology = doc.splitTextToSize(
+    'Metodologia: consideram-se as entradas dos extratos, exceto transferências entre contas do próprio titular e ' +
+    'lançamentos removidos pelas regras de exclusão listadas acima. Meses sem entradas contam como renda zero. ' +
+    'Meses atípicos são os que ficam fora de 1,5 vez o intervalo interquartil da renda mensal. ' +
+    'O coeficiente de variação é o desvio padrão da renda mensal dividido pela média. ' +
+    `Renda apurada: ${INCOME_METRIC_LABELS[report.assessedIncome.metric].description.toLowerCase()}.` +
+    (report.partialMonthNote ? ` Meses parciais nas bordas do período: ${report.partialMonthNote}.` : ''),
+    pageWidth - PAGE_MARGIN * 2
+  );
+  doc.text(methodology, PAGE_MARGIN, y);
+  y += methodology.length * 3.5;
+
+  // Declaração e assinaturas
+  y = ensureSpace(y + 8, 60);
+  doc.setFontSize(10);
+  doc.setTextColor(40);
+  const attestation = doc.splitTextToSize(
+    `Declaro, para os devidos fins, que os extratos utilizados nesta apuração são autênticos e de minha titularidade, ` +
+    `e que os valores acima refletem as entradas neles registradas no período de ` +
+    `${report.periodStart ? `${formatDate(report.periodStart)} a ${formatDate(report.periodEnd)}` : '—'}.`,
+    pageWidth - PAGE_MARGIN * 2
+  );
+  doc.text(attestation, PAGE_MARGIN, y);
+  y += attestation.length * 5 + 20;
+
+  const columnWidth = (pageWidth - PAGE_MARGIN * 2 - 10) / 2;
+  doc.setDrawColor(120);
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + columnWidth, y);
+  doc.line(PAGE_MARGIN + columnWidth + 10, y, pageWidth - PAGE_MARGIN, y);
+  doc.setFontSize(9);
+  doc.text(header.accountHolder || 'Titular', PAGE_MARGIN, y + 5);
+  doc.text(header.reviewerName || 'Responsável pela análise', PAGE_MARGIN + columnWidth + 10, y + 5);
+  doc.setTextColor(100);
+  doc.text('Titular', PAGE_MARGIN, y + 10);
+  doc.text('Responsável pela análise', PAGE_MARGIN + columnWidth + 10, y + 10);
+  doc.setTextColor(40);
+  doc.text('Local e data: ______________________________________', PAGE_MARGIN, y + 22);
+
+  decoratePages(doc, {
+    title: 'Comprovante de Renda',
+    subtitle: header.accountHolder,
+    footerNote: `Código de verificação: ${fingerprint}`,
+    skipHeaderOnFirstPage: true
+  });
+
+  return doc;
+};
@@ -0,0 +1,128 @@
+import { Transaction } from "../types";
+import { getMonthKey } from "./analysisService";
+import { coefficientOfVariation, mean, median, standardDeviation, sum } from "../utils/statistics";
+import { normalizeText } from "../utils/text";
+
+// Salário mensal, quinzenal (adiantamento + salário), sem padrão ou pagamento único
+export type RecurrenceType = 'monthly' | 'biweekly' | 'irregular' | 'one-off';
+
+export interface IncomeSource {
+  payer: string;
+  recurrence: RecurrenceType;
+  transactions: Transaction[]; // Mais antigas primeiro
+  total: number;
+  count: number;
+  months: number; // Meses distintos com pagamento
+  averageAmount: number;
+  amountDeviation: number; // Desvio padrão dos valores recebidos
+  amountVariation: number; // Coeficiente de variação dos valores (0 = sempre o mesmo valor)
+  typicalDay: number; // Dia do mês (mediana dos pagamentos)
+  // Quanto a fonte rende por mês entre o primeiro e o último pagamento
+  monthlyEquivalent: number;
+}
+
+export const RECURRENCE_LABELS: Record<RecurrenceType, string> = {
+  monthly: 'Mensal',
+  biweekly: 'Quinzenal',
+  irregular: 'Irregular',
+  'one-off': 'Avulso'
+};
+
+// Intervalos (em dias) aceitos entre pagamentos consecutivos: o 5º dia útil varia de mês a mês
+const MONTHLY_INTERVAL = { min: 25, max: 35 };
+const BIWEEKLY_INTERVAL = { min: 12, max: 18 };
+// Fração mínima dos meses entre o primeiro e o último pagamento que precisa ter pagamento
+const MIN_MONTH_COVERAGE = 0.75;
+
+// Tipo da operação, referências e palavras de ligação que antecedem o nome de quem pagou
+const PAYER_NOISE = /\b(pix|ted|doc|tev|transf(erencia)?|recebid[oa]|recebimento|credito|deposito|pagamento|pagto|de|em conta|conta|ag|cc|cpf|cnpj|ref)\b/g;
+// "15/03", "15/03/2024", "15 mar", "2024-03-15"
+const DATE_FRAGMENT = /\b\d{1,4}[/-]\d{1,2}([/-]\d{2,4})?\b|\b\d{1,2} ?(jan|fev|mar|abr|mai|jun|jul|ago|set|out|nov|dez)[a-z]*\b/g;
+
+/**
+ * Nome do pagador sem o tipo da operação ("Pix Recebido -"), CPF/CNPJ (mascarados ou não), datas e números.
+ * A etiqueta de pagador das regras de categorização tem prioridade.
+ */
+export const getPayerName = (t: Transaction) => {
+  if (t.payerTag) return t.payerTag;
+  const cleaned = normalizeText(t.description)
+    .replace(DATE_FRAGMENT, ' ')
+    .replace(/[\d*./-]+/g, ' ')
+    .replace(PAYER_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return (cleaned || normalizeText(t.description)).toUpperCase();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const countMonthsSpanned = (from: string, to: string) => {
+  const [fromYear, fromMonth] = getMonthKey(from).split('-').map(Number);
+  const [toYear, toMonth] = getMonthKey(to).split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+};
+
+const within = (value: number, range: { min: number; max: number }) => value >= range.min && value <= range.max;
+
+const classify = (dates: string[], months: number): RecurrenceType => {
+  if (dates.length === 1) return 'one-off';
+  const intervals = dates.slice(1).map((date, idx) => daysBetween(dates[idx], date));
+  const typicalInterval = median(intervals);
+  const coverage = months / countMonthsSpanned(dates[0], dates[dates.length - 1]);
+  if (months < 2 || coverage < MIN_MONTH_COVERAGE) return 'irregular';
+  if (within(typicalInterval, MONTHLY_INTERVAL)) return 'monthly';
+  if (within(typicalInterval, BIWEEKLY_INTERVAL)) return 'biweekly';
+  return 'irregular';
+};
+
+const RECURRENCE_ORDER: RecurrenceType[] = ['monthly', 'biweekly', 'irregular', 'one-off'];
+
+export const isRecurring = (source: IncomeSource) => source.recurrence === 'monthly' || source.recurrence === 'biweekly';
+
+/**
+ * Agrupa as entradas por pagador e classifica a regularidade de cada grupo.
+ * Recebe as entradas já filtradas pela análise (sem exclusões nem transferências internas).
+ * Fontes recorrentes vêm primeiro, das que mais rendem por mês para as que menos rendem.
+ */
+export const detectIncomeSources = (transactions: Transaction[]): IncomeSource[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions
+    .filter(t => t.amount > 0)
+    .forEach(t => {
+      const payer = getPayerName(t);
+      groups.set(payer, [...(groups.get(payer) ?? []), t]);
+    });
+
+  return Array.from(groups.entries())
+    .map(([payer, group]): IncomeSource => {
+      const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date));
+      const dates = sorted.map(t => t.date);
+      const amounts = sorted.map(t => t.amount);
+      const months = new Set(dates.map(getMonthKey)).size;
+      const total = sum(amounts);
+      return {
+        payer,
+        recurrence: classify(dates, months),
+        transactions: sorted,
+        total,
+        count: sorted.length,
+        months,
+        averageAmount: mean(amounts),
+        amountDeviation: standardDeviation(amounts),
+        amountVariation: coefficientOfVariation(amounts),
+        typicalDay: Math.round(median(dates.map(d => new Date(d).getUTCDate()))),
+        monthlyEquivalent: total / countMonthsSpanned(dates[0], dates[dates.length - 1])
+      };
+    })
+    .sort((a, b) =>
+      RECURRENCE_ORDER.indexOf(a.recurrence) - RECURRENCE_ORDER.indexOf(b.recurrence)
+      || b.monthlyEquivalent - a.monthlyEquivalent
+      || a.payer.localeCompare(b.payer)
+    );
+};
+
+// Renda mensal que se repete: soma das fontes mensais e quinzenais
+export const computeRecurringIncome = (sources: IncomeSource[]) =>
+  sum(sources.filter(isRecurring).map(s => s.monthlyEquivalent));
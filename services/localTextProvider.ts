@@ -0,0 +1,17 @@
+import { ExtractionProvider } from "./extractionProvider";
+import { readPdfTextLines } from "./pdfSourceService";
+import { parseGenericStatement } from "./textStatementParser";
+
+// Processa tudo no navegador: o PDF nunca é enviado a um serviço externo
+export const localTextProvider: ExtractionProvider = {
+  id: 'local',
+  name: 'Local (offline)',
+  pagesPerChunk: Number.POSITIVE_INFINITY,
+  extractChunk: async (chunk) => {
+    const pages = await readPdfTextLines(chunk.data);
+    if (pages.every(lines => lines.length === 0)) {
+      throw new Error(`${chunk.fileName} não tem camada de texto (PDF digitalizado). Use o provedor Gemini para este arquivo.`);
+    }
+    return parseGenericStatement(pages);
+  }
+};
@@ -0,0 +1,150 @@
+import { ExtractedData, Transaction } from "../types";
+
+// Categorias legíveis para os tipos de transação padronizados do OFX (TRNTYPE)
+const TRNTYPE_CATEGORIES: Record<string, string> = {
+  CREDIT: 'Crédito',
+  DEBIT: 'Débito',
+  INT: 'Juros',
+  DIV: 'Dividendos',
+  FEE: 'Tarifa',
+  SRVCHG: 'Tarifa',
+  DEP: 'Depósito',
+  ATM: 'Saque',
+  POS: 'Compra',
+  XFER: 'Transferência',
+  CHECK: 'Cheque',
+  PAYMENT: 'Pagamento',
+  CASH: 'Saque',
+  DIRECTDEP: 'Depósito',
+  DIRECTDEBIT: 'Débito Automático',
+  REPEATPMT: 'Pagamento',
+  OTHER: 'Outros'
+};
+
+// Tipos que representam saída de dinheiro mesmo quando o banco exporta o valor sem sinal
+const DEBIT_TRNTYPES = ['DEBIT', 'FEE', 'SRVCHG', 'ATM', 'POS', 'CHECK', 'PAYMENT', 'CASH', 'DIRECTDEBIT', 'REPEATPMT'];
+
+// Códigos FEBRABAN mais comuns em <BANKID>, usados quando o arquivo não traz <ORG>
+const BANK_CODES: Record<string, string> = {
+  '001': 'Banco do Brasil',
+  '033': 'Santander',
+  '077': 'Inter',
+  '104': 'Caixa',
+  '208': 'BTG Pactual',
+  '237': 'Bradesco',
+  '260': 'Nubank',
+  '290': 'PagBank',
+  '336': 'C6 Bank',
+  '341': 'Itaú',
+  '335': 'Digio',
+  '756': 'Sicoob'
+};
+
+export const isOfxContent = (text: string): boolean => {
+  const head = text.slice(0, 2048).toUpperCase();
+  return head.includes('OFXHEADER') || head.includes('<OFX>');
+};
+
+// Lê o valor de uma tag folha. Funciona tanto no OFX 1.x (SGML, sem fechamento) quanto no 2.x (XML)
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+};
+
+const readBlocks = (text: string, tag: string): string[] => {
+  const blocks: string[] = [];
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// DTPOSTED: YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]] -> YYYY-MM-DD
+const parseOfxDate = (value: string): string | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+// Alguns bancos brasileiros exportam TRNAMT com vírgula decimal
+const parseOfxAmount = (value: string): number => {
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value;
+  return parseFloat(normalized);
+};
+
+export const parseOfxContent = (text: string, fileName = ''): ExtractedData => {
+  if (!isOfxContent(text)) {
+    throw new Error("O arquivo não parece ser um OFX/QFX válido.");
+  }
+
+  const transactions: Transaction[] = [];
+
+  readBlocks(text, 'STMTTRN').forEach(block => {
+    const date = parseOfxDate(readTag(block, 'DTPOSTED') || '');
+    const rawAmount = readTag(block, 'TRNAMT');
+    if (!date || !rawAmount) return;
+
+    let amount = parseOfxAmount(rawAmount);
+    if (isNaN(amount)) return;
+
+    const trnType = (readTag(block, 'TRNTYPE') || 'OTHER').toUpperCase();
+    if (amount > 0 && DEBIT_TRNTYPES.includes(trnType)) {
+      amount = -amount;
+    }
+
+    transactions.push({
+      date,
+      description: readTag(block, 'MEMO') || readTag(block, 'NAME') || TRNTYPE_CATEGORIES[trnType] || trnType,
+      amount,
+      category: TRNTYPE_CATEGORIES[trnType] || 'Outros',
+      source: { fileName, rawText: block.replace(/\s+/g, ' ').trim() }
+    });
+  });
+
+  const org = readTag(text, 'ORG');
+  const bankId = readTag(text, 'BANKID');
+  const bankName = org || (bankId && (BANK_CODES[bankId.padStart(3, '0').slice(-3)] || `Banco ${bankId}`));
+
+  // OFX não tem um campo padrão para o titular; alguns bancos usam <NAME> no bloco da instituição
+  const signOn = readBlocks(text, 'SONRS')[0] || '';
+  const accountHolder = readTag(signOn, 'NAME');
+  const accountFrom = readBlocks(text, 'BANKACCTFROM')[0] || readBlocks(text, 'CCACCTFROM')[0] || '';
+  const branch = readTag(accountFrom, 'BRANCHID');
+  const accountId = readTag(accountFrom, 'ACCTID');
+
+  // LEDGERBAL é o saldo contábil ao final do período exportado
+  const ledger = readBlocks(text, 'LEDGERBAL')[0];
+  const ledgerAmount = ledger ? readTag(ledger, 'BALAMT') : undefined;
+  const closingBalance = ledgerAmount ? parseOfxAmount(ledgerAmount) : undefined;
+
+  return {
+    bankName: bankName || "Banco não identificado",
+    accountHolder: accountHolder || "Titular não identificado",
+    accountNumber: accountId ? (branch ? `${branch}/${accountId}` : accountId) : undefined,
+    transactions,
+    closingBalance: closingBalance !== undefined && !isNaN(closingBalance) ? closingBalance : undefined
+  };
+};
+
+// O cabeçalho SGML declara o charset (geralmente 1252); arquivos OFX 2.x são UTF-8
+const decodeOfxBuffer = (buffer: ArrayBuffer): string => {
+  const ascii = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const charset = ascii.match(/CHARSET:\s*(\S+)/i)?.[1];
+  const encoding = charset && /1252|8859/.test(charset) ? 'windows-1252' : 'utf-8';
+  return new TextDecoder(encoding).decode(buffer);
+};
+
+export const parseOfxFile = async (file: File): Promise<ExtractedData> => {
+  const buffer = await file.arrayBuffer();
+  return parseOfxContent(decodeOfxBuffer(buffer), file.name);
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptionAlgorithm, PDFDocument as EncryptingDocument, StandardFonts } from '@cantoo/pdf-lib';
+import { jsPDF } from 'jspdf';
+import { PDFDocument } from 'pdf-lib';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { decryptPdf } from './pdfDecryptService';
+
+// Arquivos cifrados por bibliotecas independentes, um para cada tratador de segurança padrão (V1/R2 a V5/R6)
+const USER_PASSWORD = 'cliente123';
+const OWNER_PASSWORD = 'banco456';
+const ALGORITHMS: EncryptionAlgorithm[] = ['RC4-40', 'RC4-128', 'AES-128', 'AES-256'];
+
+const buildEncryptedPdf = async (algorithm: EncryptionAlgorithm, userPassword: string) => {
+  const doc = await EncryptingDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (let page = 1; page <= 2; page++) {
+    doc.addPage([300, 300]).drawText(`Pagina ${page} SALARIO 1.234,56`, { x: 20, y: 200, size: 12, font });
+  }
+  doc.setTitle('Extrato de março');
+  doc.encrypt({ userPassword, ownerPassword: OWNER_PASSWORD, algorithm, allowWeakCryptography: true });
+  // Objetos em object streams: o caso em que o pdf-lib perde referências ao carregar
+  return doc.save({ useObjectStreams: true });
+};
+
+// O pdf.js é a referência: lê o arquivo cifrado com a senha e o decifrado sem ela
+const readWithPdfJs = async (data: Uint8Array, password?: string) => {
+  const pdf = await getDocument({ data: data.slice(), password, verbosity: 0 }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(''));
+  }
+  const { info } = await pdf.getMetadata();
+  await pdf.destroy();
+  return { pages, title: (info as { Title?: string }).Title };
+};
+
+describe('decryptPdf', () => {
+  describe.each(ALGORITHMS)('%s', algorithm => {
+    it.each([
+      ['senha do usuário', USER_PASSWORD, USER_PASSWORD],
+      ['senha do proprietário', USER_PASSWORD, OWNER_PASSWORD],
+      ['sem senha de abertura', '', '']
+    ])('mantém texto e metadados com a %s', async (_, userPassword, password) => {
+      const encrypted = await buildEncryptedPdf(algorithm, userPassword);
+      if (userPassword) await expect(readWithPdfJs(encrypted)).rejects.toThrow();
+      expect((await readWithPdfJs(encrypted, password)).pages[0]).toContain('Pagina 1');
+
+      const decrypted = await decryptPdf(encrypted, password);
+      const read = await readWithPdfJs(decrypted);
+      expect(read.pages).toEqual(['Pagina 1 SALARIO 1.234,56', 'Pagina 2 SALARIO 1.234,56']);
+      expect(read.title).toBe('Extrato de março');
+      expect((await PDFDocument.load(decrypted)).getPageCount()).toBe(2);
+    });
+
+    it('recusa a senha errada', async () => {
+      const encrypted = await buildEncryptedPdf(algorithm, USER_PASSWORD);
+      await expect(decryptPdf(encrypted, 'errada')).rejects.toThrow('Senha incorreta.');
+    });
+  });
+
+  it('lê PDFs cifrados pelo jsPDF', async () => {
+    const doc = new jsPDF({ encryption: { userPassword: USER_PASSWORD, ownerPassword: OWNER_PASSWORD, userPermissions: ['print'] } });
+    doc.text('Saldo anterior 100,00', 10, 10);
+    const encrypted = new Uint8Array(doc.output('arraybuffer'));
+
+    const decrypted = await decryptPdf(encrypted, USER_PASSWORD);
+    expect((await readWithPdfJs(decrypted)).pages).toEqual(['Saldo anterior 100,00']);
+  });
+});
@@ -0,0 +1,401 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter
+} from "pdf-lib";
+
+/**
+ * Remove a criptografia padrão do PDF (RC4 e AES de 128/256 bits) mantendo as páginas vetoriais.
+ * O pdf-lib não decifra: os objetos são lidos aqui com a referência de cada um, decifrados
+ * e gravados de novo sem o dicionário /Encrypt. Formatos não suportados (certificado,
+ * filtros de criptografia por stream) lançam erro para quem chamou recorrer a outro caminho.
+ */
+
+// --- Primitivas: MD5 e RC4 não existem na Web Crypto ---
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_TABLE = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+const md5 = (data: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(((data.length + 72) >>> 6) << 6);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(data.length / 0x20000000), true);
+
+  let [a0, b0, c0, d0] = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    let [a, b, c, d] = [a0, b0, c0, d0];
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4;
+      const f = round === 0 ? (b & c) | (~b & d)
+        : round === 1 ? (d & b) | (~d & c)
+        : round === 2 ? b ^ c ^ d
+        : c ^ (b | ~d);
+      const g = round === 0 ? i : round === 1 ? (5 * i + 1) % 16 : round === 2 ? (3 * i + 5) % 16 : (7 * i) % 16;
+      const sum = (a + f + MD5_TABLE[i] + view.getUint32(offset + g * 4, true)) | 0;
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+      [a, d, c] = [d, c, b];
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    [a0, b0, c0, d0] = [(a0 + a) | 0, (b0 + b) | 0, (c0 + c) | 0, (d0 + d) | 0];
+  }
+
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => outView.setUint32(i * 4, word >>> 0, true));
+  return out;
+};
+
+const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, p) => total + p.length, 0));
+  parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+  return out;
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// A Web Crypto exige um ArrayBuffer próprio; slice() copia o trecho da visão
+const importAes = (key: Uint8Array, usage: KeyUsage) =>
+  crypto.subtle.importKey('raw', key.slice(), 'AES-CBC', false, [usage]);
+
+// AES-CBC sem preenchimento: a Web Crypto sempre acrescenta um bloco PKCS#7, que é descartado
+const aesEncryptNoPadding = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv.slice() }, await importAes(key, 'encrypt'), data.slice()))
+    .subarray(0, data.length);
+
+/**
+ * Decifra AES-CBC sem exigir preenchimento válido (PDFs reais nem sempre o têm): um bloco de
+ * preenchimento cifrado é anexado para a Web Crypto aceitar, e o preenchimento do PDF sai à parte.
+ */
+const aesDecrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array, stripPadding: boolean) => {
+  const ciphertext = data.subarray(0, data.length - (data.length % 16));
+  if (ciphertext.length === 0) return new Uint8Array(0);
+  const lastBlock = ciphertext.subarray(ciphertext.length - 16);
+  const paddingBlock = (await aesEncryptNoPadding(key, lastBlock, new Uint8Array(16).fill(16))).subarray(0, 16);
+  const decryptKey = await importAes(key, 'decrypt');
+  const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv.slice() }, decryptKey, concat(ciphertext, paddingBlock)));
+  const pad = plain[plain.length - 1];
+  return stripPadding && pad >= 1 && pad <= 16 ? plain.subarray(0, plain.length - pad) : plain;
+};
+
+const sha = async (algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, data.slice()));
+
+// --- Chave do arquivo (ISO 32000, 7.6.4) ---
+
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a
+]);
+
+type CryptMethod = 'none' | 'rc4' | 'aes';
+
+interface StandardEncryption {
+  revision: number;
+  keyLength: number; // Bytes
+  owner: Uint8Array;
+  user: Uint8Array;
+  ownerKey?: Uint8Array; // OE e UE (revisões 5 e 6)
+  userKey?: Uint8Array;
+  permissions: number;
+  encryptMetadata: boolean;
+  documentId: Uint8Array;
+  streamMethod: CryptMethod;
+  stringMethod: CryptMethod;
+}
+
+const padPassword = (password: string) => {
+  const bytes = Array.from(password).map(ch => ch.charCodeAt(0) & 0xff).slice(0, 32);
+  return concat(new Uint8Array(bytes), PASSWORD_PADDING.subarray(0, 32 - bytes.length));
+};
+
+const xorKey = (key: Uint8Array, value: number) => key.map(byte => byte ^ value);
+
+// Algoritmo 2: chave a partir da senha do usuário já preenchida até 32 bytes
+const computeLegacyKey = (enc: StandardEncryption, paddedPassword: Uint8Array) => {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, enc.permissions, true);
+  let hash = md5(concat(
+    paddedPassword,
+    enc.owner.subarray(0, 32),
+    permissions,
+    enc.documentId,
+    enc.revision >= 4 && !enc.encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0)
+  ));
+  if (enc.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, enc.keyLength));
+  }
+  return hash.subarray(0, enc.keyLength);
+};
+
+// Algoritmos 4 e 5: confere a chave recalculando a entrada /U
+const isUserKey = (enc: StandardEncryption, key: Uint8Array) => {
+  if (enc.revision === 2) return sameBytes(rc4(key, PASSWORD_PADDING), enc.user.subarray(0, 32));
+  let check = rc4(key, md5(concat(PASSWORD_PADDING, enc.documentId)));
+  for (let i = 1; i <= 19; i++) check = rc4(xorKey(key, i), check);
+  return sameBytes(check, enc.user.subarray(0, 16));
+};
+
+// Algoritmo 7: a senha do proprietário decifra a senha do usuário guardada em /O
+const userPasswordFromOwner = (enc: StandardEncryption, password: string) => {
+  let hash = md5(padPassword(password));
+  if (enc.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const key = hash.subarray(0, enc.keyLength);
+  if (enc.revision === 2) return rc4(key, enc.owner.subarray(0, 32));
+  let userPassword = enc.owner.subarray(0, 32);
+  for (let i = 19; i >= 0; i--) userPassword = rc4(xorKey(key, i), userPassword);
+  return userPassword;
+};
+
+// Algoritmo 2.B (revisão 6); a revisão 5 usa só o SHA-256 inicial
+const hashV5 = async (revision: number, password: Uint8Array, salt: Uint8Array, userData: Uint8Array) => {
+  let key = await sha('SHA-256', concat(password, salt, userData));
+  if (revision === 5) return key;
+  let block = new Uint8Array(0);
+  for (let round = 0; round < 64 || block[block.length - 1] > round - 32; round++) {
+    const sequence = concat(password, key, userData);
+    const repeated = new Uint8Array(sequence.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(sequence, i * sequence.length);
+    block = await aesEncryptNoPadding(key.subarray(0, 16), key.subarray(16, 32), repeated);
+    const remainder = block.subarray(0, 16).reduce((total, byte) => total + byte, 0) % 3;
+    key = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', block);
+  }
+  return key.subarray(0, 32);
+};
+
+const computeV5Key = async (enc: StandardEncryption, password: string) => {
+  const bytes = new TextEncoder().encode(password).subarray(0, 127);
+  const userData = enc.user.subarray(0, 48);
+  const zeroIv = new Uint8Array(16);
+
+  if (sameBytes(await hashV5(enc.revision, bytes, enc.user.subarray(32, 40), new Uint8Array(0)), enc.user.subarray(0, 32))) {
+    const intermediate = await hashV5(enc.revision, bytes, enc.user.subarray(40, 48), new Uint8Array(0));
+    return aesDecrypt(intermediate, zeroIv, enc.userKey!, false);
+  }
+  if (sameBytes(await hashV5(enc.revision, bytes, enc.owner.subarray(32, 40), userData), enc.owner.subarray(0, 32))) {
+    const intermediate = await hashV5(enc.revision, bytes, enc.owner.subarray(40, 48), userData);
+    return aesDecrypt(intermediate, zeroIv, enc.ownerKey!, false);
+  }
+  return null;
+};
+
+// A senha pode ser a do usuário ou a do proprietário; PDFs só com senha de proprietário abrem com ''
+const computeFileKey = async (enc: StandardEncryption, password: string): Promise<Uint8Array | null> => {
+  if (enc.revision >= 5) return computeV5Key(enc, password);
+  const asUser = computeLegacyKey(enc, padPassword(password));
+  if (isUserKey(enc, asUser)) return asUser;
+  const asOwner = computeLegacyKey(enc, userPasswordFromOwner(enc, password));
+  return isUserKey(enc, asOwner) ? asOwner : null;
+};
+
+// --- Leitura do dicionário /Encrypt ---
+
+const bytesOf = (value: PDFObject | undefined) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : undefined;
+
+const numberOf = (value: PDFObject | undefined, fallback: number) =>
+  value instanceof PDFNumber ? value.asNumber() : fallback;
+
+const cryptMethodOf = (dict: PDFDict, filterName: PDFObject | undefined, version: number): CryptMethod => {
+  if (version < 4) return 'rc4';
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+  const filters = dict.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('AESV2') || method === PDFName.of('AESV3')) return 'aes';
+  if (method === PDFName.of('None')) return 'none';
+  throw new Error(`Método de criptografia não suportado: ${method}`);
+};
+
+const readEncryption = (dict: PDFDict, documentId: Uint8Array): StandardEncryption => {
+  if (dict.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Somente a criptografia padrão (por senha) pode ser removida.');
+  }
+  const version = numberOf(dict.lookup(PDFName.of('V')), 0);
+  const revision = numberOf(dict.lookup(PDFName.of('R')), 2);
+  const owner = bytesOf(dict.lookup(PDFName.of('O')));
+  const user = bytesOf(dict.lookup(PDFName.of('U')));
+  if (!owner || !user) throw new Error('Dicionário de criptografia incompleto.');
+  const encryptMetadata = dict.lookup(PDFName.of('EncryptMetadata'));
+
+  return {
+    revision,
+    keyLength: revision >= 5 ? 32 : revision === 2 ? 5 : numberOf(dict.lookup(PDFName.of('Length')), 40) / 8,
+    owner,
+    user,
+    ownerKey: bytesOf(dict.lookup(PDFName.of('OE'))),
+    userKey: bytesOf(dict.lookup(PDFName.of('UE'))),
+    permissions: numberOf(dict.lookup(PDFName.of('P')), -1),
+    encryptMetadata: encryptMetadata?.toString() !== 'false',
+    documentId,
+    streamMethod: cryptMethodOf(dict, dict.lookup(PDFName.of('StmF')), version),
+    stringMethod: cryptMethodOf(dict, dict.lookup(PDFName.of('StrF')), version)
+  };
+};
+
+// --- Decifragem dos objetos (algoritmo 1: chave por objeto nas revisões até 4) ---
+
+const objectKey = (enc: StandardEncryption, fileKey: Uint8Array, ref: PDFRef, method: CryptMethod) => {
+  if (enc.revision >= 5) return fileKey;
+  const { objectNumber: num, generationNumber: gen } = ref;
+  const salt = method === 'aes' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0);
+  const hash = md5(concat(fileKey, new Uint8Array([num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, gen & 0xff, (gen >> 8) & 0xff]), salt));
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+const decryptBytes = (method: CryptMethod, key: Uint8Array, data: Uint8Array) => {
+  if (method === 'none') return Promise.resolve(data);
+  if (method === 'rc4') return Promise.resolve(rc4(key, data));
+  return data.length < 16 ? Promise.resolve(new Uint8Array(0)) : aesDecrypt(key, data.subarray(0, 16), data.subarray(16), true);
+};
+
+const toHexString = (bytes: Uint8Array) =>
+  PDFHexString.of(Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join(''));
+
+const isType = (dict: PDFDict, type: string) => dict.lookup(PDFName.of('Type')) === PDFName.of(type);
+
+// Devolve o objeto decifrado; dicionários e arrays são alterados no próprio objeto
+const decryptObject = async (
+  object: PDFObject,
+  enc: StandardEncryption,
+  fileKey: Uint8Array,
+  ref: PDFRef
+): Promise<PDFObject> => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(await decryptBytes(enc.stringMethod, objectKey(enc, fileKey, ref, enc.stringMethod), object.asBytes()));
+  }
+  if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) object.set(i, await decryptObject(object.get(i), enc, fileKey, ref));
+    return object;
+  }
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) object.set(key, await decryptObject(value, enc, fileKey, ref));
+    return object;
+  }
+  if (object instanceof PDFRawStream) {
+    await decryptObject(object.dict, enc, fileKey, ref);
+    const filters = object.dict.lookup(PDFName.of('Filter'));
+    if (filters === PDFName.of('Crypt') || (filters instanceof PDFArray && filters.asArray().includes(PDFName.of('Crypt')))) {
+      throw new Error('Filtros de criptografia por stream não são suportados.');
+    }
+    // Com EncryptMetadata false, os metadados XMP ficam em claro
+    if (isType(object.dict, 'Metadata') && !enc.encryptMetadata) return object;
+    const contents = await decryptBytes(enc.streamMethod, objectKey(enc, fileKey, ref, enc.streamMethod), object.contents);
+    return PDFRawStream.of(object.dict, contents);
+  }
+  return object;
+};
+
+// --- Leitura dos objetos com as referências (o PDFParser do pdf-lib as descarta nos object streams) ---
+
+const latin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+interface ParsedFile {
+  context: PDFContext;
+  objects: [PDFRef, PDFObject][]; // Na ordem do arquivo; versões posteriores prevalecem
+  trailer?: PDFDict;               // O último trailer (ou xref stream) do arquivo
+}
+
+const parseObjects = (bytes: Uint8Array): ParsedFile => {
+  const context = PDFContext.create();
+  const text = latin1(bytes);
+  const objects: [PDFRef, PDFObject][] = [];
+  const trailers: { position: number; dict: PDFDict }[] = [];
+  const header = /(?<!\d)(\d+)\s+(\d+)\s+obj\b/g;
+  let end = 0;
+
+  for (let match = header.exec(text); match; match = header.exec(text)) {
+    if (match.index < end) continue;
+    try {
+      const object = PDFObjectParser.forBytes(bytes.subarray(match.index + match[0].length), context).parseObject();
+      const ref = PDFRef.of(Number(match[1]), Number(match[2]));
+      const bodyLength = object instanceof PDFRawStream ? object.contents.length : 0;
+      const endobj = text.indexOf('endobj', match.index + match[0].length + bodyLength);
+      end = endobj === -1 ? match.index + match[0].length : endobj;
+      if (object instanceof PDFRawStream && isType(object.dict, 'XRef')) trailers.push({ position: match.index, dict: object.dict });
+      else objects.push([ref, object]);
+    } catch {
+      // Cabeçalho falso (ex: dentro de dados binários): segue para o próximo
+    }
+  }
+
+  const trailerKeyword = /trailer\s*<</g;
+  for (let match = trailerKeyword.exec(text); match; match = trailerKeyword.exec(text)) {
+    const dict = PDFObjectParser.forBytes(bytes.subarray(match.index + match[0].length - 2), context).parseObject();
+    if (dict instanceof PDFDict) trailers.push({ position: match.index, dict });
+  }
+
+  return { context, objects, trailer: trailers.sort((a, b) => a.position - b.position).pop()?.dict };
+};
+
+/**
+ * Cópia do PDF sem criptografia, com o conteúdo original (texto vetorial, fontes e imagens).
+ * Lança erro se a senha não abrir o arquivo ou se a criptografia não for a padrão.
+ */
+export const decryptPdf = async (bytes: Uint8Array, password = ''): Promise<Uint8Array> => {
+  const { context, objects, trailer } = parseObjects(bytes);
+  const encryptRef = trailer?.get(PDFName.of('Encrypt'));
+  const byNumber = new Map(objects.map(([ref, object]) => [`${ref.objectNumber} ${ref.generationNumber}`, object]));
+  const encryptDict = encryptRef instanceof PDFRef ? byNumber.get(`${encryptRef.objectNumber} ${encryptRef.generationNumber}`) : encryptRef;
+  if (!trailer || !(encryptDict instanceof PDFDict)) throw new Error('O PDF não está criptografado.');
+
+  const ids = trailer.get(PDFName.of('ID'));
+  const documentId = (ids instanceof PDFArray && bytesOf(ids.get(0))) || new Uint8Array(0);
+  const enc = readEncryption(encryptDict, documentId);
+  const fileKey = await computeFileKey(enc, password);
+  if (!fileKey) throw new Error('Senha incorreta.');
+
+  const objectStreams: PDFRawStream[] = [];
+  for (const [ref, object] of objects) {
+    if (object === encryptDict) continue;
+    const decrypted = await decryptObject(object, enc, fileKey, ref);
+    if (decrypted instanceof PDFRawStream && isType(decrypted.dict, 'ObjStm')) objectStreams.push(decrypted);
+    else context.assign(ref, decrypted);
+  }
+  // Objetos dentro de object streams não são cifrados um a um: o stream inteiro já foi decifrado
+  for (const stream of objectStreams) {
+    await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+  }
+
+  context.trailerInfo = {
+    Root: trailer.get(PDFName.of('Root')),
+    Info: trailer.get(PDFName.of('Info')),
+    ID: ids
+  };
+  return PDFWriter.forContext(context, Infinity).serializeToBuffer();
+};
@@ -0,0 +1,218 @@
+import { getDocument, GlobalWorkerOptions, PasswordResponses, Util } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { isRecord } from "../utils/json";
+import { normalizeText } from "../utils/text";
+
+GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+// Trecho de texto como o PDF o posiciona (uma célula, em extratos com colunas)
+export interface TextPiece {
+  text: string;
+  x: number;
+  width: number;
+}
+
+// Linha de texto da página em coordenadas do canvas renderizado
+export interface PageTextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pieces: TextPiece[]; // Da esquerda para a direita
+}
+
+export interface RenderedPage {
+  width: number;
+  height: number;
+  lines: PageTextLine[];
+}
+
+// Linhas com menos da metade das palavras buscadas não são destacadas
+const MIN_LINE_SCORE = 0.5;
+
+const tokenize = (text: string) =>
+  normalizeText(text)
+    .split(/\s+/)
+    .map(word => word.replace(/[^a-z0-9,.]/g, ''))
+    .filter(word => word.length >= 2);
+
+// Agrupa os trechos de texto pela linha de base, de cima para baixo
+const groupLines = (items: TextItem[], viewportTransform: number[], scale: number): PageTextLine[] => {
+  const lines: PageTextLine[] = [];
+
+  items
+    .filter(item => item.str.trim() !== '')
+    .map(item => {
+      const tx = Util.transform(viewportTransform, item.transform);
+      const height = Math.hypot(tx[2], tx[3]);
+      return { text: item.str.trim(), x: tx[4], baseline: tx[5], width: item.width * scale, height };
+    })
+    .sort((a, b) => a.baseline - b.baseline || a.x - b.x)
+    .forEach(piece => {
+      const line = lines.find(l => Math.abs(l.y + l.height - piece.baseline) <= piece.height / 2);
+      const cell = { text: piece.text, x: piece.x, width: piece.width };
+      if (line) {
+        const right = Math.max(line.x + line.width, piece.x + piece.width);
+        line.x = Math.min(line.x, piece.x);
+        line.width = right - line.x;
+        line.pieces.push(cell);
+      } else {
+        lines.push({ text: '', x: piece.x, y: piece.baseline - piece.height, width: piece.width, height: piece.height, pieces: [cell] });
+      }
+    });
+
+  lines.forEach(line => {
+    line.pieces.sort((a, b) => a.x - b.x);
+    line.text = line.pieces.map(p => p.text).join(' ');
+  });
+  return lines;
+};
+
+export const renderPdfPage = async (
+  file: Blob,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  scale = 1.4
+): Promise<RenderedPage> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    if (pageNumber < 1 || pageNumber > pdf.numPages) {
+      throw new Error(`A página ${pageNumber} não existe neste arquivo (${pdf.numPages} páginas).`);
+    }
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Não foi possível desenhar a página.");
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is TextItem => 'str' in item);
+    return { width: viewport.width, height: viewport.height, lines: groupLines(items, viewport.transform, scale) };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * Lê a camada de texto de cada página, linha a linha, sem desenhar nada.
+ * Páginas digitalizadas (sem texto) voltam como listas vazias.
+ */
+export const readPdfTextLines = async (data: Uint8Array, password?: string): Promise<PageTextLine[][]> => {
+  // O pdf.js transfere o buffer para o worker; uma cópia preserva o original de quem chamou
+  const pdf = await getDocument({ data: data.slice(), password }).promise;
+  try {
+    const pages: PageTextLine[][] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      pages.push(groupLines(items, viewport.transform, 1));
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// Desenha as páginas indicadas (1-based) em canvases, para tratar páginas digitalizadas
+export const rasterizePdfPages = async (
+  data: Uint8Array,
+  pageNumbers: number[],
+  scale: number,
+  password?: string
+): Promise<HTMLCanvasElement[]> => {
+  const pdf = await getDocument({ data: data.slice(), password }).promise;
+  try {
+    const canvases: HTMLCanvasElement[] = [];
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error("Não foi possível desenhar a página.");
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: context, viewport }).promise;
+      canvases.push(canvas);
+    }
+    return canvases;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+export type PdfPasswordState = 'needs-password' | 'wrong-password';
+
+// O pdf.js recusa PDFs protegidos com uma PasswordException (sem senha ou com a senha errada)
+export const getPasswordState = (e: unknown): PdfPasswordState | undefined => {
+  if (!isRecord(e) || e.name !== 'PasswordException') return undefined;
+  return e.code === PasswordResponses.INCORRECT_PASSWORD ? 'wrong-password' : 'needs-password';
+};
+
+// Tamanho de cada página em pontos; falha com PasswordException se o PDF estiver protegido
+export const readPdfPageSizes = async (data: Uint8Array, password?: string): Promise<{ width: number; height: number }[]> => {
+  const pdf = await getDocument({ data: data.slice(), password }).promise;
+  try {
+    const sizes: { width: number; height: number }[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const { width, height } = (await pdf.getPage(pageNumber)).getViewport({ scale: 1 });
+      sizes.push({ width, height });
+    }
+    return sizes;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// Miniaturas (JPEG em data URL) entregues uma a uma, na ordem das páginas
+export const renderPdfThumbnails = async (
+  data: Uint8Array,
+  width: number,
+  onThumbnail: (pageNumber: number, url: string) => void,
+  password?: string,
+  signal?: AbortSignal
+) => {
+  const pdf = await getDocument({ data: data.slice(), password }).promise;
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && !signal?.aborted; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: context, viewport }).promise;
+      onThumbnail(pageNumber, canvas.toDataURL('image/jpeg', 0.7));
+    }
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * Encontra a linha da página que melhor corresponde ao texto extraído
+ * (proporção das palavras buscadas presentes na linha).
+ */
+export const findSourceLine = (lines: PageTextLine[], query: string): PageTextLine | undefined => {
+  const wanted = tokenize(query);
+  if (wanted.length === 0) return undefined;
+
+  let best: PageTextLine | undefined;
+  let bestScore = 0;
+  lines.forEach(line => {
+    const present = new Set(tokenize(line.text));
+    const score = wanted.filter(word => present.has(word)).length / wanted.length;
+    if (score > bestScore) {
+      best = line;
+      bestScore = score;
+    }
+  });
+
+  return bestScore >= MIN_LINE_SCORE ? best : undefined;
+};
@@ -0,0 +1,101 @@
+import { AnalysisPeriod, PartialMonth, PartialMonthHandling, PeriodPreset, PeriodSelection, Transaction } from "../types";
+import { getMonthKey, listMonths } from "./analysisService";
+import { formatDate } from "../utils/formatters";
+
+export const DEFAULT_PERIOD_SELECTION: PeriodSelection = { preset: 'all', partialMonths: 'include' };
+
+export const PERIOD_PRESET_LABELS: Record<PeriodPreset, string> = {
+  all: 'Todo o extrato',
+  last3: 'Últimos 3 meses',
+  last6: 'Últimos 6 meses',
+  last12: 'Últimos 12 meses',
+  year: 'Ano-calendário',
+  custom: 'Personalizado'
+};
+
+const PRESET_MONTHS: Partial<Record<PeriodPreset, number>> = { last3: 3, last6: 6, last12: 12 };
+
+// Fim de semana ou feriado na virada do mês sem lançamento não torna o mês parcial
+const BOUNDARY_TOLERANCE_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+const daysInMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+};
+
+const firstDayOf = (month: string) => `${month}-01`;
+const lastDayOf = (month: string) => `${month}-${String(daysInMonth(month)).padStart(2, '0')}`;
+
+// Primeira e última data com transação
+export const getDataRange = (transactions: Transaction[]): AnalysisPeriod | undefined => {
+  if (transactions.length === 0) return undefined;
+  const dates = transactions.map(t => t.date.slice(0, 10)).sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
+};
+
+export const listYears = (range?: AnalysisPeriod) => {
+  if (!range) return [];
+  const years: number[] = [];
+  for (let year = Number(range.to.slice(0, 4)); year >= Number(range.from.slice(0, 4)); year--) years.push(year);
+  return years;
+};
+
+/**
+ * Intervalo da seleção, recortado pelos dados. Os "últimos N meses" contam meses do calendário
+ * terminando no mês da última transação (o extrato é histórico, não termina hoje).
+ */
+export const resolvePeriod = (selection: PeriodSelection, range?: AnalysisPeriod): AnalysisPeriod | undefined => {
+  if (!range) return undefined;
+  let period: AnalysisPeriod = range;
+
+  const monthCount = PRESET_MONTHS[selection.preset];
+  if (monthCount) {
+    const months = listMonths(getMonthKey(range.from), getMonthKey(range.to)).slice(-monthCount);
+    period = { from: firstDayOf(months[0]), to: range.to };
+  } else if (selection.preset === 'year' && selection.year) {
+    period = { from: `${selection.year}-01-01`, to: `${selection.year}-12-31` };
+  } else if (selection.preset === 'custom') {
+    period = { from: selection.from || range.from, to: selection.to || range.to };
+  }
+
+  const from = period.from > range.from ? period.from : range.from;
+  const to = period.to < range.to ? period.to : range.to;
+  return from <= to ? { from, to } : undefined;
+};
+
+/**
+ * Meses da borda que o período cobre só em parte, seja porque o extrato começa ou termina
+ * no meio do mês, seja porque a seleção personalizada corta o mês.
+ */
+export const findPartialMonths = (period?: AnalysisPeriod): PartialMonth[] => {
+  if (!period) return [];
+  const firstMonth = getMonthKey(period.from);
+  const lastMonth = getMonthKey(period.to);
+  const edges = firstMonth === lastMonth ? [firstMonth] : [firstMonth, lastMonth];
+
+  return edges.flatMap(month => {
+    const start = Math.max(toDay(period.from), toDay(firstDayOf(month)));
+    const end = Math.min(toDay(period.to), toDay(lastDayOf(month)));
+    const totalDays = daysInMonth(month);
+    const coveredDays = Math.round((end - start) / DAY_MS) + 1;
+    const missingAtStart = Math.round((start - toDay(firstDayOf(month))) / DAY_MS);
+    const missingAtEnd = Math.round((toDay(lastDayOf(month)) - end) / DAY_MS);
+    const isPartial = missingAtStart > BOUNDARY_TOLERANCE_DAYS || missingAtEnd > BOUNDARY_TOLERANCE_DAYS;
+    return isPartial ? [{ month, coveredDays, totalDays }] : [];
+  });
+};
+
+export const describePeriod = (period?: AnalysisPeriod) =>
+  period ? `${formatDate(period.from)} a ${formatDate(period.to)}` : 'Sem transações no período';
+
+// Nota sobre os meses parciais para indicadores e relatórios (nada quando não há ou quando entram como estão)
+export const describePartialHandling = (partialMonths: PartialMonth[], handling: PartialMonthHandling) => {
+  if (partialMonths.length === 0 || handling === 'include') return undefined;
+  return handling === 'exclude'
+    ? `sem ${partialMonths.length} mês(es) parcial(is)`
+    : `${partialMonths.length} mês(es) parcial(is) proporcionalizado(s)`;
+};
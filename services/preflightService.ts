@@ -0,0 +1,132 @@
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { findBankParser } from "./bankParsers";
+import { decryptPdf } from "./pdfDecryptService";
+import { getPasswordState, PdfPasswordState, rasterizePdfPages, readPdfPageSizes, readPdfTextLines } from "./pdfSourceService";
+import { addImagePage, SCAN_RENDER_SCALE } from "./scanService";
+import { findLocallyReadablePages } from "./statementExtractor";
+import { StatementFormat } from "../utils/fileFormat";
+
+// Arquivo liberado para a extração, com as páginas escolhidas (todas, se ausente)
+export interface PreparedFile {
+  file: File;
+  format: StatementFormat;
+  pageNumbers?: number[];
+}
+
+// Acima destes limites o upload recebe um aviso de leitura demorada
+export const LARGE_FILE_BYTES = 20 * 1024 * 1024;
+export const LARGE_FILE_PAGES = 60;
+
+export interface PdfInspection {
+  pageCount: number;
+  encrypted: boolean;     // Inclui PDFs com senha só de proprietário, que abrem sem senha
+  localPages: number[];   // Lidas pelo parser do banco, sem chamar a IA
+  scannedPages: number[]; // Sem camada de texto
+  bankName?: string;
+}
+
+export type InspectionResult =
+  | { status: 'ok'; inspection: PdfInspection }
+  | { status: PdfPasswordState }
+  | { status: 'invalid'; reason: string };
+
+/**
+ * Abre o PDF antes do upload: valida, detecta criptografia e estima o que será lido localmente.
+ * PDFs protegidos voltam como 'needs-password' (ou 'wrong-password', se a senha informada não abrir).
+ */
+export const inspectPdf = async (file: File, password?: string): Promise<InspectionResult> => {
+  if (file.size === 0) return { status: 'invalid', reason: 'O arquivo está vazio.' };
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  try {
+    const pages = await readPdfTextLines(data, password);
+    // O pdf-lib só lê a estrutura; qualquer criptografia impede a separação de páginas mais adiante
+    const { isEncrypted } = await PDFDocument.load(data, { ignoreEncryption: true });
+    return {
+      status: 'ok',
+      inspection: {
+        pageCount: pages.length,
+        encrypted: isEncrypted,
+        localPages: findLocallyReadablePages(pages),
+        scannedPages: pages.map((lines, idx) => (lines.length === 0 ? idx + 1 : 0)).filter(Boolean),
+        bankName: findBankParser(pages)?.bankName
+      }
+    };
+  } catch (e) {
+    const passwordState = getPasswordState(e);
+    if (passwordState) return { status: passwordState };
+    return { status: 'invalid', reason: 'O arquivo está corrompido ou não é um PDF válido.' };
+  }
+};
+
+// Páginas vetoriais originais, decifradas; as não selecionadas ficam em branco para preservar a numeração
+const copyDecryptedPages = async (data: Uint8Array, pageNumbers: number[], password?: string) => {
+  const source = await PDFDocument.load(await decryptPdf(data, password));
+  const pdfDoc = await PDFDocument.create();
+  const selected = source.getPageIndices().filter(idx => pageNumbers.includes(idx + 1));
+  const copies = await pdfDoc.copyPages(source, selected);
+  source.getPages().forEach((page, idx) => {
+    const copy = copies[selected.indexOf(idx)];
+    if (copy) pdfDoc.addPage(copy);
+    else pdfDoc.addPage([page.getWidth(), page.getHeight()]);
+  });
+  return pdfDoc.save();
+};
+
+/**
+ * Último recurso, quando a criptografia não pode ser removida (ex: Web Crypto indisponível fora de HTTPS):
+ * cada página selecionada vira imagem, com o texto original gravado por cima de forma invisível
+ * (mantém a leitura local e o "ver origem").
+ */
+const rasterizeUnlockedPages = async (data: Uint8Array, pageNumbers: number[], password?: string) => {
+  const sizes = await readPdfPageSizes(data, password);
+  const textPages = await readPdfTextLines(data, password);
+
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  // Caracteres fora da codificação da fonte padrão não podem ser gravados
+  const charset = new Set(font.getCharacterSet());
+  const encodable = (text: string) => Array.from(text).map(ch => (charset.has(ch.codePointAt(0)!) ? ch : '?')).join('');
+
+  for (let pageNumber = 1; pageNumber <= sizes.length; pageNumber++) {
+    const { width, height } = sizes[pageNumber - 1];
+    if (!pageNumbers.includes(pageNumber)) {
+      pdfDoc.addPage([width, height]);
+      continue;
+    }
+
+    // Uma página por vez: dezenas de canvases em memória travariam o navegador
+    const [canvas] = await rasterizePdfPages(data, [pageNumber], SCAN_RENDER_SCALE, password);
+    const page = await addImagePage(pdfDoc, canvas);
+    textPages[pageNumber - 1].forEach(line => {
+      line.pieces.forEach(piece => {
+        page.drawText(encodable(piece.text), {
+          x: piece.x,
+          y: height - (line.y + line.height),
+          size: line.height,
+          font,
+          opacity: 0
+        });
+      });
+    });
+  }
+
+  return pdfDoc.save();
+};
+
+/**
+ * Cópia sem criptografia do PDF para a extração e o "ver origem", com as páginas vetoriais originais.
+ * Páginas não selecionadas ficam em branco para preservar a numeração.
+ */
+export const unlockPdf = async (file: File, pageNumbers: number[], password?: string): Promise<File> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  let unlocked: Uint8Array;
+  try {
+    unlocked = await copyDecryptedPages(data, pageNumbers, password);
+  } catch (err) {
+    console.warn("Não foi possível decifrar o PDF mantendo o conteúdo original; as páginas serão convertidas em imagem", err);
+    unlocked = await rasterizeUnlockedPages(data, pageNumbers, password);
+  }
+  // slice() garante um ArrayBuffer próprio, como o File exige
+  return new File([unlocked.slice()], file.name, { type: 'application/pdf' });
+};
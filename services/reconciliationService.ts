@@ -0,0 +1,102 @@
+import { ExtractedData, ReconciliationResult } from "../types";
+
+// Diferença máxima aceita entre saldo impresso e saldo calculado (arredondamentos do extrato)
+const BALANCE_TOLERANCE = 0.05;
+
+// date === null representa "antes de tudo" (saldo de abertura) ou "depois de tudo" (saldo final)
+interface Checkpoint {
+  date: string | null;
+  balance: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Confere se saldo de abertura + soma das transações chega aos saldos impressos no extrato.
+ * Os saldos diários (quando existem) dividem o extrato em trechos, permitindo apontar
+ * o primeiro intervalo de datas em que o saldo corrente deixa de bater.
+ */
+export const reconcileStatement = (fileName: string, data: ExtractedData): ReconciliationResult => {
+  const transactions = data.transactions
+    .filter(t => t.date && typeof t.amount === 'number' && !isNaN(t.amount))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const periodStart = transactions[0]?.date;
+  const periodEnd = transactions[transactions.length - 1]?.date;
+  const dailyBalances = [...(data.dailyBalances || [])].sort((a, b) => a.date.localeCompare(b.date));
+
+  const result: ReconciliationResult = {
+    fileName,
+    bankName: data.bankName,
+    periodStart,
+    periodEnd,
+    openingBalance: data.openingBalance,
+    closingBalance: data.closingBalance,
+    status: 'unavailable'
+  };
+
+  if (data.openingBalance !== undefined) {
+    const sum = transactions.reduce((acc, t) => acc + t.amount, 0);
+    result.computedClosingBalance = round2(data.openingBalance + sum);
+    if (data.closingBalance !== undefined) {
+      result.difference = round2(data.closingBalance - result.computedClosingBalance);
+    }
+  }
+
+  // Sem saldo de abertura, o primeiro saldo diário serve de ponto de partida
+  let start: Checkpoint;
+  let checkpoints: Checkpoint[];
+  if (data.openingBalance !== undefined) {
+    start = { date: null, balance: data.openingBalance };
+    checkpoints = [...dailyBalances];
+  } else if (dailyBalances.length > 0) {
+    start = dailyBalances[0];
+    checkpoints = dailyBalances.slice(1);
+  } else {
+    return result;
+  }
+
+  if (data.closingBalance !== undefined) {
+    checkpoints.push({ date: null, balance: data.closingBalance });
+  }
+
+  if (checkpoints.length === 0) {
+    return result;
+  }
+
+  let running = start.balance;
+  let lastGoodDate = start.date ?? periodStart ?? '';
+  let txIndex = 0;
+
+  // Transações anteriores ao ponto de partida já estão contidas nele
+  if (start.date !== null) {
+    while (txIndex < transactions.length && transactions[txIndex].date <= start.date) txIndex++;
+  }
+
+  for (const checkpoint of checkpoints) {
+    while (
+      txIndex < transactions.length &&
+      (checkpoint.date === null || transactions[txIndex].date <= checkpoint.date)
+    ) {
+      running += transactions[txIndex].amount;
+      txIndex++;
+    }
+
+    const checkpointDate = checkpoint.date ?? periodEnd ?? lastGoodDate;
+
+    if (Math.abs(running - checkpoint.balance) > BALANCE_TOLERANCE) {
+      result.firstDivergence = {
+        from: lastGoodDate,
+        to: checkpointDate,
+        expectedBalance: round2(checkpoint.balance),
+        computedBalance: round2(running)
+      };
+      break;
+    }
+
+    lastGoodDate = checkpointDate;
+  }
+
+  result.status = result.firstDivergence ? 'mismatch' : 'ok';
+  return result;
+};
@@ -0,0 +1,325 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { AnalysisMode, GlobalStats, IncomeMetric, MonthlyStats, Transaction } from "../types";
+import { getIncomeByMetric, INCOME_METRIC_LABELS } from "./analysisService";
+import { formatCurrency, formatDate } from "../utils/formatters";
+
+type Rgb = [number, number, number];
+
+// Medidas em mm (A4 retrato)
+export const PAGE_MARGIN = 14;
+// Início do conteúdo nas páginas com cabeçalho; tabelas que quebram de página respeitam estas margens
+export const TABLE_MARGIN = { top: 26, bottom: 18, left: PAGE_MARGIN, right: PAGE_MARGIN };
+
+const INCOME_COLOR: Rgb = [16, 185, 129];
+const EXPENSE_COLOR: Rgb = [239, 68, 68];
+const BALANCE_COLOR: Rgb = [79, 70, 229];
+const TEXT_COLOR: Rgb = [40, 40, 40];
+const MUTED_COLOR: Rgb = [100, 116, 139];
+const GRID_COLOR: Rgb = [226, 232, 240];
+
+export const MODE_COLORS: Record<AnalysisMode, Rgb> = {
+  income: INCOME_COLOR,
+  expense: [220, 38, 38],
+  full: BALANCE_COLOR
+};
+
+export interface PageDecorationOptions {
+  title: string;
+  subtitle?: string;
+  footerNote?: string;
+  // A capa já tem a identificação completa e dispensa o cabeçalho
+  skipHeaderOnFirstPage?: boolean;
+}
+
+/**
+ * Cabeçalho e rodapé em todas as páginas, com "Página X de Y".
+ * Chamada depois de todo o conteúdo, quando o total de páginas já é conhecido.
+ */
+export const decoratePages = (doc: jsPDF, options: PageDecorationOptions) => {
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (page > 1 || !options.skipHeaderOnFirstPage) {
+      doc.setFontSize(9);
+      doc.setTextColor(...TEXT_COLOR);
+      doc.text(options.title, PAGE_MARGIN, 12);
+      if (options.subtitle) {
+        // Até duas linhas na metade direita, terminando na mesma altura do título
+        const lines = (doc.splitTextToSize(options.subtitle, (pageWidth - PAGE_MARGIN * 2) / 2) as string[]).slice(0, 2);
+        doc.setFontSize(8);
+        doc.setTextColor(...MUTED_COLOR);
+        doc.text(lines, pageWidth - PAGE_MARGIN, 12 - (lines.length - 1) * 3.5, { align: 'right' });
+      }
+      doc.setDrawColor(...GRID_COLOR);
+      doc.line(PAGE_MARGIN, 15, pageWidth - PAGE_MARGIN, 15);
+    }
+
+    doc.setDrawColor(...GRID_COLOR);
+    doc.line(PAGE_MARGIN, pageHeight - 12, pageWidth - PAGE_MARGIN, pageHeight - 12);
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED_COLOR);
+    if (options.footerNote) doc.text(options.footerNote, PAGE_MARGIN, pageHeight - 7);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 7, { align: 'right' });
+  }
+};
+
+// Passo "redondo" (1, 2 ou 5 × 10^n) para cerca de `targetTicks` divisões do eixo
+const niceStep = (range: number, targetTicks: number) => {
+  const rough = range / targetTicks;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const factor = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return factor * magnitude;
+};
+
+const formatAxisValue = (value: number) =>
+  Math.abs(value) >= 1000 ? `R$ ${(value / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}k` : `R$ ${value}`;
+
+const formatMonthLabel = (month: string) => {
+  const [y, m] = month.split('-');
+  return `${m}/${y.slice(2)}`;
+};
+
+export interface ChartBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Gráfico mensal desenhado com primitivas vetoriais, nas mesmas séries do gráfico da tela:
+ * entradas, saídas ou, no fluxo completo, entradas acima e saídas abaixo do zero com a linha do saldo.
+ */
+export const drawMonthlyChart = (doc: jsPDF, months: MonthlyStats[], mode: AnalysisMode, box: ChartBox) => {
+  if (months.length === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text('Sem dados para o gráfico.', box.x + box.width / 2, box.y + box.height / 2, { align: 'center' });
+    return;
+  }
+
+  const legendHeight = 8;
+  const axisLabelWidth = 18;
+  const xLabelHeight = 6;
+  const plot = {
+    x: box.x + axisLabelWidth,
+    y: box.y,
+    width: box.width - axisLabelWidth,
+    height: box.height - legendHeight - xLabelHeight
+  };
+
+  const upValues = months.map(m => (mode === 'expense' ? m.expense : m.income));
+  const downValues = mode === 'full' ? months.map(m => -m.expense) : [];
+  const balances = mode === 'full' ? months.map(m => m.balance) : [];
+  const rawMax = Math.max(0, ...upValues, ...balances);
+  const rawMin = Math.min(0, ...downValues, ...balances);
+  const step = niceStep(rawMax - rawMin || 1, 4);
+  const axisMax = Math.ceil(rawMax / step) * step || step;
+  const axisMin = Math.floor(rawMin / step) * step;
+  const toY = (value: number) => plot.y + ((axisMax - value) / (axisMax - axisMin)) * plot.height;
+
+  // Grade e rótulos do eixo Y
+  doc.setFontSize(7);
+  doc.setLineWidth(0.2);
+  for (let value = axisMin; value <= axisMax + step / 2; value += step) {
+    const y = toY(value);
+    doc.setDrawColor(...(value === 0 ? MUTED_COLOR : GRID_COLOR));
+    doc.line(plot.x, y, plot.x + plot.width, y);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(formatAxisValue(value), plot.x - 2, y + 1, { align: 'right' });
+  }
+
+  // Barras (e rótulos do eixo X sem sobreposição: no máximo ~12 visíveis)
+  const slot = plot.width / months.length;
+  const barWidth = Math.min(slot * 0.6, 16);
+  const labelEvery = Math.ceil(months.length / 12);
+  const zeroY = toY(0);
+  months.forEach((m, idx) => {
+    const center = plot.x + slot * idx + slot / 2;
+    const up = upValues[idx];
+    if (up > 0) {
+      doc.setFillColor(...(mode === 'expense' ? EXPENSE_COLOR : INCOME_COLOR));
+      doc.rect(center - barWidth / 2, toY(up), barWidth, zeroY - toY(up), 'F');
+    }
+    if (mode === 'full' && m.expense > 0) {
+      doc.setFillColor(...EXPENSE_COLOR);
+      doc.rect(center - barWidth / 2, zeroY, barWidth, toY(-m.expense) - zeroY, 'F');
+    }
+    if (idx % labelEvery === 0) {
+      doc.setTextColor(...MUTED_COLOR);
+      doc.text(formatMonthLabel(m.month), center, plot.y + plot.height + 4.5, { align: 'center' });
+    }
+  });
+
+  // Linha do saldo mensal
+  if (mode === 'full') {
+    doc.setDrawColor(...BALANCE_COLOR);
+    doc.setFillColor(...BALANCE_COLOR);
+    doc.setLineWidth(0.6);
+    const points = months.map((m, idx) => [plot.x + slot * idx + slot / 2, toY(m.balance)] as const);
+    points.forEach(([x, y], idx) => {
+      if (idx > 0) doc.line(points[idx - 1][0], points[idx - 1][1], x, y);
+    });
+    points.forEach(([x, y]) => doc.circle(x, y, 0.8, 'F'));
+    doc.setLineWidth(0.2);
+  }
+
+  // Legenda
+  const legend: [string, Rgb][] = mode === 'income'
+    ? [['Entradas', INCOME_COLOR]]
+    : mode === 'expense'
+      ? [['Saídas', EXPENSE_COLOR]]
+      : [['Entradas', INCOME_COLOR], ['Saídas', EXPENSE_COLOR], ['Saldo do mês', BALANCE_COLOR]];
+  let legendX = plot.x + plot.width / 2 - legend.length * 14;
+  const legendY = box.y + box.height - 2;
+  legend.forEach(([name, color]) => {
+    doc.setFillColor(...color);
+    doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text(name, legendX + 4.5, legendY);
+    legendX += 28;
+  });
+};
+
+export interface AnalysisReportInput {
+  mode: AnalysisMode;
+  title: string;
+  chartTitle: string;
+  tableTitle: string;
+  bankName?: string;
+  accountHolder?: string;
+  months: MonthlyStats[];
+  stats: GlobalStats;
+  incomeMetric: IncomeMetric;
+  // Intervalo selecionado, com o tratamento dos meses parciais
+  periodDescription: string;
+  // Transações da tabela, já com a busca e o filtro de categoria aplicados
+  transactions: Transaction[];
+  filterDescription?: string;
+}
+
+const drawKpi = (doc: jsPDF, box: ChartBox, label: string, value: string, color: Rgb, note?: string) => {
+  doc.setDrawColor(...GRID_COLOR);
+  doc.roundedRect(box.x, box.y, box.width, box.height, 2, 2, 'S');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(label, box.x + 4, box.y + 6);
+  doc.setFontSize(13);
+  doc.setTextColor(...color);
+  doc.text(value, box.x + 4, box.y + 14);
+  if (note) {
+    doc.setFontSize(6.5);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(note, box.x + 4, box.y + 18);
+  }
+};
+
+/**
+ * Relatório do modo de análise: capa com indicadores e gráfico, depois a tabela paginada
+ * com linha de totais. O layout usa medidas fixas do A4, sem depender da tela.
+ */
+export const renderAnalysisReportPdf = (input: AnalysisReportInput): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const { mode, months, stats, transactions } = input;
+  const identification = [input.bankName, input.accountHolder].filter(Boolean).join(' • ') || 'Extrato Bancário';
+
+  // --- Capa ---
+  doc.setFontSize(20);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(input.title, PAGE_MARGIN, 28);
+  doc.setFontSize(11);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(identification, PAGE_MARGIN, 36);
+  const period = `Período: ${input.periodDescription} (${months.length} meses)`;
+  doc.text(period, PAGE_MARGIN, 42);
+  doc.text(`Gerado em: ${new Date().toLocaleDateString('pt-BR')}`, PAGE_MARGIN, 48);
+
+  const totalIncome = transactions.filter(t => t.amount > 0).reduce((acc, t) => acc + t.amount, 0);
+  const totalExpense = transactions.filter(t => t.amount < 0).reduce((acc, t) => acc + t.amount, 0);
+  const kpis: [string, string, Rgb, string?][] = [];
+  if (mode !== 'expense') {
+    kpis.push(['Receitas totais', formatCurrency(totalIncome), INCOME_COLOR]);
+    kpis.push([
+      'Renda apurada',
+      formatCurrency(getIncomeByMetric(stats, input.incomeMetric)),
+      INCOME_COLOR,
+      INCOME_METRIC_LABELS[input.incomeMetric].label
+    ]);
+  }
+  if (mode !== 'income') {
+    kpis.push(['Despesas totais', formatCurrency(totalExpense), EXPENSE_COLOR]);
+    kpis.push(['Média mensal (despesa)', formatCurrency(stats.averageMonthlyExpense), EXPENSE_COLOR]);
+  }
+  if (mode === 'full') kpis.push(['Saldo líquido', formatCurrency(totalIncome + totalExpense), TEXT_COLOR]);
+  kpis.push(['Transações', String(transactions.length), TEXT_COLOR]);
+
+  const kpiWidth = (contentWidth - 8) / 3;
+  kpis.forEach(([label, value, color, note], idx) => {
+    const box = { x: PAGE_MARGIN + (idx % 3) * (kpiWidth + 4), y: 58 + Math.floor(idx / 3) * 24, width: kpiWidth, height: 20 };
+    drawKpi(doc, box, label, value, color, note);
+  });
+  let currentY = 58 + Math.ceil(kpis.length / 3) * 24 + 2;
+
+  if (input.filterDescription) {
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(input.filterDescription, PAGE_MARGIN, currentY);
+    currentY += 6;
+  }
+
+  currentY += 6;
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(input.chartTitle, PAGE_MARGIN, currentY);
+  drawMonthlyChart(doc, months, mode, { x: PAGE_MARGIN, y: currentY + 6, width: contentWidth, height: 100 });
+
+  // --- Tabela ---
+  doc.addPage();
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(input.tableTitle, PAGE_MARGIN, TABLE_MARGIN.top);
+
+  const foot = mode === 'full'
+    ? [
+      ['', 'Entradas', '', formatCurrency(totalIncome)],
+      ['', 'Saídas', '', formatCurrency(totalExpense)],
+      ['', `Saldo (${transactions.length} transações)`, '', formatCurrency(totalIncome + totalExpense)]
+    ]
+    : [['', `Total (${transactions.length} transações)`, '', formatCurrency(totalIncome + totalExpense)]];
+
+  autoTable(doc, {
+    startY: TABLE_MARGIN.top + 4,
+    margin: TABLE_MARGIN,
+    head: [['Data', 'Descrição', 'Categoria', 'Valor']],
+    body: transactions.map(t => [formatDate(t.date), t.description, t.category, formatCurrency(t.amount)]),
+    foot,
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    headStyles: { fillColor: MODE_COLORS[mode] }, // Verde para receitas, vermelho para despesas
+    footStyles: { fillColor: [241, 245, 249], textColor: TEXT_COLOR },
+    styles: { fontSize: 9 },
+    columnStyles: {
+      0: { cellWidth: 25 },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 40 },
+      3: { cellWidth: 40, halign: 'right' },
+    },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 3) {
+        const isExpense = transactions[data.row.index]?.amount < 0;
+        data.cell.styles.textColor = isExpense ? [220, 38, 38] : [22, 163, 74]; // Red / Green text
+      }
+      if (data.section === 'foot' && data.column.index === 3) data.cell.styles.halign = 'right';
+    }
+  });
+
+  decoratePages(doc, { title: input.title, subtitle: `${identification}\n${input.periodDescription}`, footerNote: 'ExtratoAI Pro', skipHeaderOnFirstPage: true });
+  return doc;
+};
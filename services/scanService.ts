@@ -0,0 +1,222 @@
+import { PDFDocument, PDFPage } from "pdf-lib";
+
+// Resolução das páginas digitalizadas: fotos são montadas e rasterizadas nesta densidade
+export const SCAN_DPI = 150;
+export const SCAN_RENDER_SCALE = SCAN_DPI / 72;
+
+// Fotos de celular passam de 4000 px; acima disso a leitura não melhora e o envio fica pesado
+const MAX_SIDE = 2200;
+const JPEG_QUALITY = 0.85;
+
+// Inclinação procurada (graus) e largura usada para estimá-la
+const MAX_SKEW_DEGREES = 8;
+const SKEW_STEP_DEGREES = 0.5;
+const SKEW_SAMPLE_WIDTH = 600;
+
+// Pixel escuro (tinta) após o ajuste de contraste
+const INK_THRESHOLD = 128;
+// Linhas/colunas da borda com menos tinta que isso são margem; com mais, fundo ou sombra fora do papel
+const MARGIN_INK_RATIO = 0.002;
+const BACKGROUND_INK_RATIO = 0.9;
+const CROP_PADDING = 16;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error("Não foi possível processar a imagem neste navegador.");
+  return context;
+};
+
+// Tons de cinza com o histograma esticado entre os percentis 2% e 98% (papel branco, tinta preta)
+const toStretchedGray = (canvas: HTMLCanvasElement): Uint8ClampedArray => {
+  const context = getContext(canvas);
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  const histogram = new Array<number>(256).fill(0);
+
+  for (let i = 0; i < gray.length; i++) {
+    const value = Math.round(0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2]);
+    gray[i] = value;
+    histogram[value]++;
+  }
+
+  const percentile = (ratio: number) => {
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= gray.length * ratio) return value;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = Math.max(percentile(0.98), low + 1);
+
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = ((gray[i] - low) * 255) / (high - low);
+    image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = gray[i];
+  }
+  context.putImageData(image, 0, 0);
+  return gray;
+};
+
+/**
+ * Ângulo (graus) que endireita as linhas de texto: girando os pixels de tinta, a projeção
+ * por linha fica mais concentrada (picos nas linhas, vales nas entrelinhas) quando o texto está reto.
+ */
+const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  const step = Math.max(1, Math.floor(width / SKEW_SAMPLE_WIDTH));
+  const ink: [number, number][] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (gray[y * width + x] < INK_THRESHOLD) ink.push([x / step, y / step]);
+    }
+  }
+  if (ink.length === 0) return 0;
+
+  const rows = Math.ceil(Math.hypot(width, height) / step) * 2;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const projection = new Uint32Array(rows);
+    ink.forEach(([x, y]) => {
+      projection[Math.round(y * cos - x * sin) + rows / 2]++;
+    });
+    const score = projection.reduce((acc, count) => acc + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+const rotate = (source: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  if (degrees === 0) return source;
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const target = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const context = getContext(target);
+  // Os cantos revelados pela rotação viram papel em branco
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, target.width, target.height);
+  context.translate(target.width / 2, target.height / 2);
+  context.rotate(-radians);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return target;
+};
+
+// Área com conteúdo: descarta, a partir das bordas, margens em branco e faixas escuras de fundo
+const findContentBounds = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const inkRatio = (from: number, count: number, stride: number) => {
+    let ink = 0;
+    for (let i = 0; i < count; i++) if (gray[from + i * stride] < INK_THRESHOLD) ink++;
+    return ink / count;
+  };
+  const isEmpty = (ratio: number) => ratio < MARGIN_INK_RATIO || ratio > BACKGROUND_INK_RATIO;
+  const rowIsEmpty = (y: number) => isEmpty(inkRatio(y * width, width, 1));
+  const columnIsEmpty = (x: number) => isEmpty(inkRatio(x, height, width));
+
+  let top = 0;
+  let bottom = height - 1;
+  let left = 0;
+  let right = width - 1;
+  while (top < bottom && rowIsEmpty(top)) top++;
+  while (bottom > top && rowIsEmpty(bottom)) bottom--;
+  while (left < right && columnIsEmpty(left)) left++;
+  while (right > left && columnIsEmpty(right)) right--;
+
+  return {
+    x: Math.max(0, left - CROP_PADDING),
+    y: Math.max(0, top - CROP_PADDING),
+    width: Math.min(width, right + CROP_PADDING + 1) - Math.max(0, left - CROP_PADDING),
+    height: Math.min(height, bottom + CROP_PADDING + 1) - Math.max(0, top - CROP_PADDING)
+  };
+};
+
+const crop = (source: HTMLCanvasElement, bounds: { x: number; y: number; width: number; height: number }) => {
+  const target = createCanvas(bounds.width, bounds.height);
+  getContext(target).drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return target;
+};
+
+// Copia a imagem limitando o lado maior a MAX_SIDE
+const drawScaled = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const ratio = Math.min(1, MAX_SIDE / Math.max(width, height));
+  const canvas = createCanvas(width * ratio, height * ratio);
+  const context = getContext(canvas);
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Prepara uma página fotografada ou digitalizada para a leitura:
+ * reduz, converte para cinza com contraste ajustado, endireita e recorta as bordas.
+ */
+export const preprocessScan = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const scaled = drawScaled(source, width, height);
+  const gray = toStretchedGray(scaled);
+  const straightened = rotate(scaled, estimateSkew(gray, scaled.width, scaled.height));
+  const straightenedGray = straightened === scaled ? gray : toStretchedGray(straightened);
+  return crop(straightened, findContentBounds(straightenedGray, straightened.width, straightened.height));
+};
+
+const isHeic = (file: File) => /\.(heic|heif)$/i.test(file.name) || /image\/hei[cf]/i.test(file.type);
+
+// Decodifica a foto respeitando a orientação gravada pela câmera (EXIF)
+const loadPhoto = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(isHeic(file)
+      ? `Este navegador não abre fotos HEIC (${file.name}). Exporte a foto como JPEG ou use o Safari.`
+      : `Não foi possível abrir a imagem ${file.name}.`);
+  }
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Não foi possível converter a imagem."));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+// Adiciona a imagem como página inteira, no tamanho físico equivalente a SCAN_DPI
+export const addImagePage = async (pdfDoc: PDFDocument, canvas: HTMLCanvasElement): Promise<PDFPage> => {
+  const image = await pdfDoc.embedJpg(await canvasToJpeg(canvas));
+  const width = (canvas.width * 72) / SCAN_DPI;
+  const height = (canvas.height * 72) / SCAN_DPI;
+  const page = pdfDoc.addPage([width, height]);
+  page.drawImage(image, { x: 0, y: 0, width, height });
+  return page;
+};
+
+/**
+ * Junta as fotos de um extrato, na ordem escolhida, em um PDF de uma página por foto.
+ * O tratamento da imagem fica para a extração, que o aplica a toda página sem texto.
+ */
+export const buildStatementFromPhotos = async (photos: File[], fileName: string): Promise<File> => {
+  const pdfDoc = await PDFDocument.create();
+  for (const photo of photos) {
+    const bitmap = await loadPhoto(photo);
+    try {
+      await addImagePage(pdfDoc, drawScaled(bitmap, bitmap.width, bitmap.height));
+    } finally {
+      bitmap.close();
+    }
+  }
+  // slice() garante um ArrayBuffer próprio, como o File exige
+  return new File([(await pdfDoc.save()).slice()], fileName, { type: 'application/pdf' });
+};
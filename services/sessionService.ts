@@ -0,0 +1,145 @@
+import { AnalysisSession, DashboardState, SessionFile } from "../types";
+import { createId } from "../utils/id";
+
+// Tudo fica no IndexedDB do próprio navegador: nenhuma análise sai da máquina do usuário
+const DB_NAME = 'extratoai';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+// Arquivos originais do lote, por hash, para consultar a origem de cada transação
+const FILES_STORE = 'files';
+
+interface StoredFile {
+  hash: string;
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Este navegador não suporta armazenamento local (IndexedDB)."));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE, { keyPath: 'hash' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Permite nova tentativa se a abertura falhar (ex: modo privado)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SESSIONS_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const computeFileHash = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const describeFiles = (files: { id: string; file: File }[]): Promise<SessionFile[]> =>
+  Promise.all(files.map(async ({ id, file }) => ({ id, name: file.name, size: file.size, hash: await computeFileHash(file) })));
+
+// Mais recentes primeiro
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const sessions = await runRequest<AnalysisSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getSession = (id: string): Promise<AnalysisSession | undefined> =>
+  runRequest<AnalysisSession | undefined>('readonly', store => store.get(id));
+
+export const saveSession = async (session: AnalysisSession): Promise<AnalysisSession> => {
+  const updated = { ...session, updatedAt: new Date().toISOString() };
+  await runRequest('readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const createSession = (name: string, files: SessionFile[], data: AnalysisSession['data']): Promise<AnalysisSession> => {
+  const now = new Date().toISOString();
+  return saveSession({ id: createId(), name, createdAt: now, updatedAt: now, files, data });
+};
+
+// Análise restaurada de um arquivo exportado, com o estado do Dashboard já aplicado
+export const buildImportedSession = (
+  name: string,
+  files: SessionFile[],
+  data: AnalysisSession['data'],
+  dashboardState: DashboardState
+): AnalysisSession => {
+  const now = new Date().toISOString();
+  return { id: createId(), name, createdAt: now, updatedAt: now, files, data, dashboardState };
+};
+
+export const renameSession = async (id: string, name: string): Promise<AnalysisSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error("Análise não encontrada.");
+  return saveSession({ ...session, name });
+};
+
+export const duplicateSession = async (id: string): Promise<AnalysisSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error("Análise não encontrada.");
+  const now = new Date().toISOString();
+  return saveSession({ ...session, id: createId(), name: `${session.name} (cópia)`, createdAt: now, updatedAt: now });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  await pruneSourceFiles();
+};
+
+// --- Arquivos de origem ---
+
+// O mesmo arquivo (mesmo hash) é gravado uma única vez, mesmo se usado em várias análises
+export const saveSourceFiles = async (files: File[], described: SessionFile[]): Promise<void> => {
+  await Promise.all(files.map((file, idx) =>
+    runRequest('readwrite', store => store.put({
+      hash: described[idx].hash,
+      name: file.name,
+      type: file.type,
+      blob: file
+    } as StoredFile), FILES_STORE)
+  ));
+};
+
+export const getSourceFile = async (hash: string): Promise<Blob | undefined> => {
+  const stored = await runRequest<StoredFile | undefined>('readonly', store => store.get(hash), FILES_STORE);
+  return stored?.blob;
+};
+
+// Remove arquivos que nenhuma análise salva referencia mais
+const pruneSourceFiles = async (): Promise<void> => {
+  const sessions = await listSessions();
+  const referenced = new Set(sessions.flatMap(s => s.files.map(f => f.hash)));
+  const hashes = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys(), FILES_STORE);
+  await Promise.all(hashes
+    .filter(hash => !referenced.has(String(hash)))
+    .map(hash => runRequest('readwrite', store => store.delete(hash), FILES_STORE)));
+};
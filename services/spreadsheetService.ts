@@ -0,0 +1,274 @@
+import * as XLSX from "xlsx";
+import { ColumnMapping, SpreadsheetCell, SpreadsheetData, Transaction } from "../types";
+import { normalizeText } from "../utils/text";
+
+const MAPPINGS_STORAGE_KEY = 'extratoai:column-mappings';
+
+// Linhas iniciais em que procuramos o cabeçalho (exportações de internet banking costumam ter um preâmbulo)
+const HEADER_SEARCH_ROWS = 20;
+
+export const normalizeHeader = normalizeText;
+
+const cellToString = (cell: SpreadsheetCell | undefined) =>
+  cell === undefined || cell === null ? '' : String(cell).trim();
+
+// --- Leitura ---
+
+// Detecta o separador pela linha com mais ocorrências (Excel em pt-BR exporta com ';')
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, current) =>
+    sample.split(current).length > sample.split(best).length ? current : best
+  );
+};
+
+const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// CSVs gerados no Windows costumam vir em 1252; o caractere de substituição indica UTF-8 inválido
+const decodeText = (buffer: ArrayBuffer): string => {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  return utf8.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : utf8.replace(/^\uFEFF/, '');
+};
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const readWorkbook = (buffer: ArrayBuffer): SpreadsheetCell[][] => {
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  return rows.map(row =>
+    row.map(cell => {
+      if (cell instanceof Date) return toIsoDate(cell);
+      if (typeof cell === 'number') return cell;
+      return cellToString(cell as SpreadsheetCell);
+    })
+  );
+};
+
+// O cabeçalho é a primeira linha só com textos seguida de uma linha com dados
+const findHeaderRow = (rows: SpreadsheetCell[][]): number => {
+  const limit = Math.min(rows.length - 1, HEADER_SEARCH_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const filled = rows[i].filter(cell => cellToString(cell) !== '');
+    const nextFilled = rows[i + 1].filter(cell => cellToString(cell) !== '');
+    const allText = filled.every(cell => typeof cell === 'string' && isNaN(parseBrazilianNumber(cell)));
+    if (filled.length >= 2 && nextFilled.length >= 2 && allText) return i;
+  }
+  return 0;
+};
+
+export const readSpreadsheet = async (file: File, format: 'csv' | 'xlsx'): Promise<SpreadsheetData> => {
+  const buffer = await file.arrayBuffer();
+  const rawRows = format === 'csv' ? parseCsv(decodeText(buffer)) : readWorkbook(buffer);
+  const rows = rawRows.filter(row => row.some(cell => cellToString(cell) !== ''));
+
+  if (rows.length < 2) {
+    throw new Error(`A planilha ${file.name} não contém linhas de dados.`);
+  }
+
+  const headerIndex = findHeaderRow(rows);
+  const width = Math.max(...rows.map(r => r.length));
+  const headers = Array.from({ length: width }, (_, i) => cellToString(rows[headerIndex][i]) || `Coluna ${i + 1}`);
+
+  return { headers, rows: rows.slice(headerIndex + 1) };
+};
+
+// --- Conversões em formato brasileiro ---
+
+/**
+ * Aceita "1.234,56", "-1.234,56", "+R$ 1.234,56", "R$ 1.234,56", "(1.234,56)", "1234.56" e "1.234,56 D".
+ * Quando há apenas pontos, "1.234" é tratado como milhar e "12.34" como decimal.
+ */
+export const parseBrazilianNumber = (value: SpreadsheetCell): number => {
+  if (typeof value === 'number') return value;
+
+  let text = value.replace(/R\$|\s/gi, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/[dD-]$/.test(text) && !/^-/.test(text)) {
+    negative = true;
+    text = text.replace(/[dD-]$/, '');
+  }
+  text = text.replace(/[cC+]$/, '').replace(/^\+/, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return NaN;
+  const parsed = parseFloat(text);
+  return negative ? -parsed : parsed;
+};
+
+// Aceita dd/mm/yyyy, dd/mm/yy, dd-mm-yyyy, dd.mm.yyyy e yyyy-mm-dd (com ou sem horário)
+export const parseBrazilianDate = (value: SpreadsheetCell): string | undefined => {
+  const text = cellToString(value);
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const br = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (br) {
+    const year = br[3].length === 2 ? `20${br[3]}` : br[3];
+    return `${year}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  }
+
+  return undefined;
+};
+
+// --- Mapeamento de colunas ---
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  date: -1,
+  description: -1,
+  amount: -1,
+  debit: -1,
+  credit: -1,
+  category: -1,
+  signConvention: 'signed'
+};
+
+const findColumn = (headers: string[], patterns: RegExp[], used: number[]) =>
+  headers.findIndex((h, idx) => !used.includes(idx) && patterns.some(p => p.test(normalizeHeader(h))));
+
+// Sugestão inicial a partir dos nomes de coluna mais comuns nos bancos brasileiros.
+// Cada coluna é atribuída a um único campo ("Data Lançamento" não pode virar a descrição).
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { ...EMPTY_MAPPING };
+  const used: number[] = [];
+  const assign = (key: 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'category', patterns: RegExp[]) => {
+    mapping[key] = findColumn(headers, patterns, used);
+    if (mapping[key] >= 0) used.push(mapping[key]);
+  };
+
+  assign('date', [/^data/, /date/]);
+  assign('debit', [/debito/, /saida/]);
+  assign('credit', [/credito/, /entrada/]);
+  assign('amount', [/^valor/, /amount/, /quantia/]);
+  assign('description', [/descri/, /historico/, /lancamento/, /title/, /estabelecimento/]);
+  assign('category', [/categoria/, /category/, /tipo/]);
+
+  return mapping;
+};
+
+export const isMappingComplete = (mapping: ColumnMapping) =>
+  mapping.date >= 0 &&
+  mapping.description >= 0 &&
+  (mapping.amount >= 0 || mapping.debit >= 0 || mapping.credit >= 0);
+
+export const applyColumnMapping = (sheet: SpreadsheetData, mapping: ColumnMapping, fileName = ''): Transaction[] => {
+  const transactions: Transaction[] = [];
+
+  sheet.rows.forEach(row => {
+    const date = parseBrazilianDate(row[mapping.date] ?? '');
+    const description = cellToString(row[mapping.description]);
+    if (!date || !description) return;
+
+    let amount: number;
+    if (mapping.amount >= 0) {
+      amount = parseBrazilianNumber(row[mapping.amount] ?? '');
+      if (mapping.signConvention === 'inverted') amount = -amount;
+    } else {
+      // Colunas separadas: débito sempre sai negativo e crédito positivo, independente do sinal impresso
+      const debit = mapping.debit >= 0 ? parseBrazilianNumber(row[mapping.debit] ?? '') : NaN;
+      const credit = mapping.credit >= 0 ? parseBrazilianNumber(row[mapping.credit] ?? '') : NaN;
+      amount = (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+    }
+
+    if (isNaN(amount) || amount === 0) return;
+
+    transactions.push({
+      date,
+      description,
+      amount,
+      category: (mapping.category >= 0 && cellToString(row[mapping.category])) || 'Geral',
+      source: { fileName, rawText: row.map(cellToString).join(' | ') }
+    });
+  });
+
+  return transactions;
+};
+
+// --- Mapeamentos salvos ---
+
+// Identifica o layout de exportação de um banco pelo conjunto de colunas
+export const getHeaderSignature = (headers: string[]) =>
+  headers.map(normalizeHeader).join('|');
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (signature: string): ColumnMapping | undefined =>
+  readSavedMappings()[signature];
+
+export const saveMapping = (signature: string, mapping: ColumnMapping) => {
+  const saved = readSavedMappings();
+  saved[signature] = mapping;
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(saved));
+};
@@ -0,0 +1,226 @@
+import { PDFDocument } from "pdf-lib";
+import { BalanceCheckpoint, ExtractedData, Transaction } from "../types";
+import { findBankParser, parseWithBankParser } from "./bankParsers";
+import { ChunkResult, DEFAULT_QUEUE_OPTIONS, runChunkQueue } from "./chunkQueue";
+import { ChunkPayload, ExtractionProvider } from "./extractionProvider";
+import { ExtractionEventListener } from "./extractionProgress";
+import { PageTextLine, rasterizePdfPages, readPdfTextLines } from "./pdfSourceService";
+import { addImagePage, preprocessScan, SCAN_RENDER_SCALE } from "./scanService";
+import { findStatementYear, getPagesText, looksLikeStatementRows } from "./textStatementParser";
+
+export const UNKNOWN_HOLDER = "Titular não identificado";
+
+// Agrupa páginas (1-based, em ordem) em intervalos contíguos de até `size` páginas
+const groupIntoRanges = (pages: number[], size: number): [number, number][] => {
+  const ranges: [number, number][] = [];
+  pages.forEach(page => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === page - 1 && last[1] - last[0] + 1 < size) {
+      last[1] = page;
+    } else {
+      ranges.push([page, page]);
+    }
+  });
+  return ranges;
+};
+
+/**
+ * PDF contendo apenas as páginas do intervalo (o próprio arquivo, se for inteiro e todo digital).
+ * Páginas digitalizadas ou fotografadas são rasterizadas e tratadas antes do envio.
+ */
+const extractPageRange = async (
+  pdfDoc: PDFDocument,
+  bytes: Uint8Array,
+  pageStart: number,
+  pageEnd: number,
+  scannedPages: Set<number>
+): Promise<Uint8Array> => {
+  const pageNumbers = Array.from({ length: pageEnd - pageStart + 1 }, (_, i) => pageStart + i);
+  const scannedInRange = pageNumbers.filter(page => scannedPages.has(page));
+  if (scannedInRange.length === 0 && pageStart === 1 && pageEnd === pdfDoc.getPageCount()) return pdfDoc.save();
+
+  const rasterized = await rasterizePdfPages(bytes, scannedInRange, SCAN_RENDER_SCALE);
+  const subDoc = await PDFDocument.create();
+  for (const pageNumber of pageNumbers) {
+    const scannedIndex = scannedInRange.indexOf(pageNumber);
+    if (scannedIndex >= 0) {
+      const canvas = rasterized[scannedIndex];
+      await addImagePage(subDoc, preprocessScan(canvas, canvas.width, canvas.height));
+    } else {
+      const [copied] = await subDoc.copyPages(pdfDoc, [pageNumber - 1]);
+      subDoc.addPage(copied);
+    }
+  }
+  return subDoc.save();
+};
+
+/**
+ * Páginas que o parser do banco reconhece são lidas localmente, uma a uma.
+ * Páginas sem texto, ou com lançamentos que o parser não conseguiu ler, ficam para o provedor.
+ */
+const readRecognizedPages = (pages: PageTextLine[][]): ChunkResult[] => {
+  const parser = findBankParser(pages);
+  if (!parser) return [];
+
+  const year = findStatementYear(getPagesText(pages));
+  const textPages = pages.map((_, idx) => idx + 1).filter(pageNumber => pages[pageNumber - 1].length > 0);
+
+  return parseWithBankParser(parser, pages, textPages)
+    .map((payload, idx) => ({ pageStart: textPages[idx], pageEnd: textPages[idx], payload }))
+    .filter(r => r.payload.tx.length > 0 || !looksLikeStatementRows(pages[r.pageStart - 1], year))
+    // Cada resultado cobre uma única página
+    .map(r => ({ ...r, payload: { ...r.payload, tx: r.payload.tx.map(t => ({ ...t, p: 1 })) } }));
+};
+
+// Páginas que o parser do banco lê sem o provedor (usado na pré-análise do upload)
+export const findLocallyReadablePages = (pages: PageTextLine[][]): number[] =>
+  readRecognizedPages(pages).map(r => r.pageStart);
+
+// Chamadas ao provedor para as páginas selecionadas, sem contar novas tentativas e divisões
+export const estimateProviderCalls = (selectedPages: number[], localPages: number[], pagesPerChunk: number) =>
+  groupIntoRanges(selectedPages.filter(page => !localPages.includes(page)), pagesPerChunk).length;
+
+const toTransactions = (
+  data: ChunkPayload,
+  fileName: string,
+  pageStart: number,
+  pageEnd: number,
+  chunkIndex?: number
+): Transaction[] => (data.tx ?? []).map(item => {
+  // O provedor numera as páginas dentro do bloco; convertemos para a numeração do arquivo
+  const page = typeof item.p === 'number' ? pageStart + item.p - 1 : undefined;
+  return {
+    date: item.d,
+    description: item.t,
+    amount: item.v,
+    category: item.c,
+    source: {
+      fileName,
+      chunkIndex,
+      pageStart,
+      pageEnd,
+      page: page !== undefined && page >= pageStart && page <= pageEnd ? page : undefined,
+      rawText: item.r || undefined,
+      confidence: typeof item.q === 'number' ? item.q : undefined
+    }
+  };
+});
+
+export interface AnalyzeOptions {
+  pageNumbers?: number[]; // Lê apenas estas páginas (nova tentativa)
+  signal?: AbortSignal;
+  onEvent?: ExtractionEventListener;
+}
+
+/**
+ * Extrai as transações do PDF, emitindo o progresso página a página.
+ * Blocos que falham ou são cancelados não interrompem a leitura: voltam em `failedPages` com o motivo.
+ */
+export const analyzeBankStatement = async (
+  file: File,
+  provider: ExtractionProvider,
+  { pageNumbers, signal, onEvent }: AnalyzeOptions = {}
+): Promise<ExtractedData> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const pdfDoc = await PDFDocument.load(bytes);
+    const totalPages = pdfDoc.getPageCount();
+    const selectedPages = pageNumbers ?? Array.from({ length: totalPages }, (_, i) => i + 1);
+
+    // Sem camada de texto legível, todas as páginas seguem para o provedor
+    const textPages = await readPdfTextLines(bytes).catch(() => [] as PageTextLine[][]);
+    const localResults = readRecognizedPages(textPages).filter(r => selectedPages.includes(r.pageStart));
+    const recognized = new Set(localResults.map(r => r.pageStart));
+    const pendingPages = selectedPages.filter(page => !recognized.has(page));
+    // Sem camada de texto: digitalização ou foto (com a leitura do texto falhando, nada é tratado)
+    const scannedPages = new Set(pendingPages.filter(page => textPages[page - 1]?.length === 0));
+
+    const emitRead = ({ pageStart, pageEnd, payload }: ChunkResult) =>
+      onEvent?.({ type: 'pages-read', fileName: file.name, pageStart, pageEnd, transactions: toTransactions(payload, file.name, pageStart, pageEnd) });
+    onEvent?.({ type: 'pages-queued', fileName: file.name, pagesTotal: selectedPages.length });
+    localResults.forEach(emitRead);
+
+    // Remaining chunks go through the queue (bounded concurrency, retries, splitting)
+    let chunkCount = 0;
+    const { results: providerResults, failures } = await runChunkQueue(
+      groupIntoRanges(pendingPages, provider.pagesPerChunk),
+      async (pageStart, pageEnd, chunkSignal) => provider.extractChunk({
+        fileName: file.name,
+        chunkIndex: chunkCount++,
+        pageStart,
+        pageEnd,
+        data: await extractPageRange(pdfDoc, bytes, pageStart, pageEnd, scannedPages)
+      }, chunkSignal),
+      DEFAULT_QUEUE_OPTIONS,
+      {
+        signal,
+        onResult: emitRead,
+        onFailure: failure => onEvent?.({ type: 'pages-failed', fileName: file.name, ...failure })
+      }
+    );
+
+    const results = [...localResults, ...providerResults].sort((a, b) => a.pageStart - b.pageStart);
+    const localPages = new Set(localResults);
+
+    let allTransactions: Transaction[] = [];
+    let bankName = "";
+    let accountHolder = "";
+    let holderDocument = "";
+    let accountNumber = "";
+    let openingBalance: number | undefined;
+    let closingBalance: number | undefined;
+    const dailyBalances = new Map<string, number>();
+
+    // Merge results
+    // Só blocos lidos pelo provedor recebem índice: a deduplicação trata linhas iguais em blocos vizinhos
+    // como repetição da borda. Páginas lidas pelo parser do banco não repetem linhas, mas ocupam a posição
+    // para que os blocos antes e depois delas não pareçam vizinhos.
+    results.forEach((result, position) => {
+        const { pageStart, pageEnd, payload: data } = result;
+        if (data.tx && Array.isArray(data.tx)) {
+            const chunkIndex = localPages.has(result) ? undefined : position;
+            const mappedTransactions = toTransactions(data, file.name, pageStart, pageEnd, chunkIndex);
+            allTransactions = [...allTransactions, ...mappedTransactions];
+        }
+
+        // Capture metadata from the first chunk that has it
+        if (!bankName && data.b) bankName = data.b;
+        if (!accountHolder && data.h) accountHolder = data.h;
+        if (!holderDocument && data.hd) holderDocument = data.hd;
+        if (!accountNumber && data.ac) accountNumber = data.ac;
+
+        // Opening balance comes from the first chunk that prints it, closing from the last one
+        if (openingBalance === undefined && typeof data.so === 'number') openingBalance = data.so;
+        if (typeof data.sc === 'number') closingBalance = data.sc;
+
+        // Chunks are ordered by page, so a later chunk wins for a repeated date
+        if (data.sd && Array.isArray(data.sd)) {
+            data.sd.forEach(item => {
+                if (item.d && typeof item.s === 'number') dailyBalances.set(item.d, item.s);
+            });
+        }
+    });
+
+    const sortedDailyBalances: BalanceCheckpoint[] = Array.from(dailyBalances.entries())
+        .map(([date, balance]) => ({ date, balance }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+        bankName: bankName || "Banco não identificado",
+        accountHolder: accountHolder || UNKNOWN_HOLDER,
+        holderDocument: holderDocument || undefined,
+        accountNumber: accountNumber || undefined,
+        transactions: allTransactions,
+        openingBalance,
+        closingBalance,
+        dailyBalances: sortedDailyBalances,
+        failedPages: failures.length > 0 ? failures.map(f => ({ fileName: file.name, ...f })) : undefined
+    };
+
+  } catch (e: any) {
+    console.error("Erro na análise do extrato:", e);
+    // Repassa a mensagem de erro se for específica (ex: chave api), senão genérica
+    const message = e.message || "Falha ao processar o arquivo. Verifique se é um PDF válido e tente novamente.";
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,231 @@
+import { SavedView, SortField, TableFilters, TableSort, Transaction } from "../types";
+import { createId } from "../utils/id";
+import { normalizeText } from "../utils/text";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import { needsReadingReview } from "./auditService";
+import { parseBrazilianNumber } from "./spreadsheetService";
+
+const VIEWS_STORAGE_KEY = 'extratoai:saved-views';
+
+export const DEFAULT_TABLE_FILTERS: TableFilters = {
+  searchTerm: '',
+  categoryFilter: 'Todas',
+  showReadingReview: false
+};
+
+export const QUERY_SYNTAX_HELP =
+  'Termos soltos buscam na descrição (sem diferenciar acentos). ' +
+  'Use -termo para excluir, "frase entre aspas", categoria:Pix, banco:Inter, titular:, conta:, arquivo:, ' +
+  'tipo:entrada ou tipo:saida, valor>1000 (também >=, <, <=, =; valor absoluto) e data>=2024-03 ou data:03/2024.';
+
+// --- Sintaxe de consulta da busca ---
+
+type Comparison = '>' | '>=' | '<' | '<=' | '=';
+type TextField = 'description' | 'category' | 'bank' | 'holder' | 'account' | 'file';
+
+type QueryCondition =
+  | { kind: 'text'; field: TextField; value: string; negated: boolean }
+  | { kind: 'amount'; comparison: Comparison; value: number; negated: boolean }
+  | { kind: 'date'; comparison: Comparison; value: string; negated: boolean }
+  | { kind: 'sign'; positive: boolean; negated: boolean };
+
+// Nomes aceitos antes de ":" (já normalizados, sem acento)
+const TEXT_FIELDS: Record<string, TextField> = {
+  descricao: 'description',
+  desc: 'description',
+  categoria: 'category',
+  cat: 'category',
+  banco: 'bank',
+  titular: 'holder',
+  conta: 'account',
+  arquivo: 'file'
+};
+
+const getTextField = (t: Transaction, field: TextField) => {
+  switch (field) {
+    case 'description': return t.description;
+    case 'category': return t.category;
+    case 'bank': return t.source?.bankName ?? '';
+    case 'holder': return t.source?.accountHolder ?? '';
+    case 'account': return t.source?.accountNumber ?? '';
+    case 'file': return t.source?.fileName ?? '';
+  }
+};
+
+// Aceita 2024-03-15, 2024-03, 15/03/2024 e 03/2024; devolve o prefixo ISO correspondente
+const parseQueryDate = (value: string): string | null => {
+  if (/^\d{4}-\d{2}(-\d{2})?$/.test(value)) return value;
+  const full = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (full) return `${full[3]}-${full[2].padStart(2, '0')}-${full[1].padStart(2, '0')}`;
+  const month = value.match(/^(\d{1,2})\/(\d{4})$/);
+  if (month) return `${month[2]}-${month[1].padStart(2, '0')}`;
+  return null;
+};
+
+const compare = (a: number | string, b: number | string, comparison: Comparison) => {
+  switch (comparison) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '=': return a === b;
+  }
+};
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+const parseToken = (token: string): QueryCondition | null => {
+  const negated = token.length > 1 && token.startsWith('-');
+  const body = negated ? token.slice(1) : token;
+  const match = body.match(/^([^\s:<>="]+)(>=|<=|>|<|=|:)(.+)$/);
+
+  if (match) {
+    const field = normalizeText(match[1]);
+    const comparison: Comparison = match[2] === ':' ? '=' : match[2] as Comparison;
+    const value = unquote(match[3]);
+
+    if (field === 'valor') {
+      const amount = Math.abs(parseBrazilianNumber(value));
+      if (Number.isFinite(amount)) return { kind: 'amount', comparison, value: amount, negated };
+    } else if (field === 'data') {
+      const date = parseQueryDate(value);
+      if (date) return { kind: 'date', comparison, value: date, negated };
+    } else if (field === 'tipo' && match[2] === ':') {
+      const type = normalizeText(value);
+      if (type === 'entrada' || type === 'saida') return { kind: 'sign', positive: type === 'entrada', negated };
+    } else if (TEXT_FIELDS[field] && match[2] === ':') {
+      return { kind: 'text', field: TEXT_FIELDS[field], value: normalizeText(value), negated };
+    }
+  }
+
+  // Campo desconhecido ou valor inválido: o token inteiro vira texto livre (ex: "PIX:JOAO")
+  const text = normalizeText(unquote(body));
+  return text ? { kind: 'text', field: 'description', value: text, negated } : null;
+};
+
+export const parseQuery = (query: string): QueryCondition[] =>
+  (query.match(/-?[^\s"]*"[^"]*"?|\S+/g) ?? [])
+    .map(parseToken)
+    .filter((c): c is QueryCondition => c !== null);
+
+const matchesCondition = (t: Transaction, condition: QueryCondition) => {
+  switch (condition.kind) {
+    case 'text': return normalizeText(getTextField(t, condition.field)).includes(condition.value);
+    case 'amount': return compare(Math.abs(t.amount), condition.value, condition.comparison);
+    // Datas parciais (ano-mês) comparam só o prefixo: data<=2024-03 inclui todo o mês de março
+    case 'date': return compare(t.date.slice(0, condition.value.length), condition.value, condition.comparison);
+    case 'sign': return condition.positive ? t.amount > 0 : t.amount < 0;
+  }
+};
+
+export const matchesQuery = (t: Transaction, conditions: QueryCondition[]) =>
+  conditions.every(c => matchesCondition(t, c) !== c.negated);
+
+// --- Filtros e ordenação da tabela ---
+
+const matchesFilters = (t: Transaction, filters: TableFilters) => {
+  const absolute = Math.abs(t.amount);
+  if (filters.categoryFilter !== 'Todas' && t.category !== filters.categoryFilter) return false;
+  if (filters.showReadingReview && !needsReadingReview(t)) return false;
+  if (filters.amountMin !== undefined && absolute < filters.amountMin) return false;
+  if (filters.amountMax !== undefined && absolute > filters.amountMax) return false;
+  if (filters.dateFrom && t.date < filters.dateFrom) return false;
+  if (filters.dateTo && t.date > filters.dateTo) return false;
+  if (filters.sign === 'positive' && t.amount <= 0) return false;
+  if (filters.sign === 'negative' && t.amount >= 0) return false;
+  return true;
+};
+
+const COMPARATORS: Record<SortField, (a: Transaction, b: Transaction) => number> = {
+  date: (a, b) => a.date.localeCompare(b.date),
+  description: (a, b) => a.description.localeCompare(b.description, 'pt-BR', { sensitivity: 'base' }),
+  category: (a, b) => a.category.localeCompare(b.category, 'pt-BR', { sensitivity: 'base' }),
+  amount: (a, b) => a.amount - b.amount
+};
+
+export const sortTransactions = (transactions: Transaction[], sort: TableSort) => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...transactions].sort((a, b) => COMPARATORS[sort.field](a, b) * direction);
+};
+
+// Datas e valores começam do maior; textos em ordem alfabética
+const FIRST_DIRECTION: Record<SortField, TableSort['direction']> = {
+  date: 'desc',
+  amount: 'desc',
+  description: 'asc',
+  category: 'asc'
+};
+
+// Clique no cabeçalho: primeira direção, a inversa e de volta à ordem da análise
+export const nextSort = (current: TableSort | undefined, field: SortField): TableSort | undefined => {
+  if (current?.field !== field) return { field, direction: FIRST_DIRECTION[field] };
+  if (current.direction === FIRST_DIRECTION[field]) return { field, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  return undefined;
+};
+
+export const filterTransactions = (transactions: Transaction[], filters: TableFilters) => {
+  const conditions = parseQuery(filters.searchTerm);
+  const filtered = transactions.filter(t => matchesFilters(t, filters) && matchesQuery(t, conditions));
+  return filters.sort ? sortTransactions(filtered, filters.sort) : filtered;
+};
+
+// Filtros do painel avançado (valor, data e tipo) em uso; a busca e a categoria ficam visíveis na barra
+export const countAdvancedFilters = (filters: TableFilters) =>
+  [filters.amountMin, filters.amountMax, filters.dateFrom, filters.dateTo].filter(v => v !== undefined).length +
+  (filters.sign && filters.sign !== 'any' ? 1 : 0);
+
+const SORT_LABELS: Record<SortField, string> = {
+  date: 'data',
+  description: 'descrição',
+  category: 'categoria',
+  amount: 'valor'
+};
+
+// Descrição legível dos filtros, usada no PDF
+export const describeFilters = (filters: TableFilters): string[] => {
+  const { amountMin, amountMax, dateFrom, dateTo } = filters;
+  return [
+    filters.searchTerm.trim() && `busca "${filters.searchTerm.trim()}"`,
+    filters.categoryFilter !== 'Todas' && `categoria ${filters.categoryFilter}`,
+    filters.showReadingReview && 'só leituras incertas',
+    filters.sign === 'positive' && 'só entradas',
+    filters.sign === 'negative' && 'só saídas',
+    amountMin !== undefined && amountMax !== undefined && `valor de ${formatCurrency(amountMin)} a ${formatCurrency(amountMax)}`,
+    amountMin !== undefined && amountMax === undefined && `valor a partir de ${formatCurrency(amountMin)}`,
+    amountMin === undefined && amountMax !== undefined && `valor até ${formatCurrency(amountMax)}`,
+    dateFrom && dateTo && `datas de ${formatDate(dateFrom)} a ${formatDate(dateTo)}`,
+    dateFrom && !dateTo && `datas a partir de ${formatDate(dateFrom)}`,
+    !dateFrom && dateTo && `datas até ${formatDate(dateTo)}`,
+    filters.sort && `ordenado por ${SORT_LABELS[filters.sort.field]} (${filters.sort.direction === 'asc' ? 'crescente' : 'decrescente'})`
+  ].filter((d): d is string => Boolean(d));
+};
+
+// --- Visões salvas (globais, como as regras de categoria) ---
+
+export const loadSavedViews = (): SavedView[] => {
+  try {
+    return JSON.parse(localStorage.getItem(VIEWS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedViews = (views: SavedView[]) => {
+  localStorage.setItem(VIEWS_STORAGE_KEY, JSON.stringify(views));
+};
+
+// Um nome já usado substitui a visão anterior
+export const upsertView = (views: SavedView[], name: string, filters: TableFilters): SavedView[] => {
+  const existing = views.find(v => normalizeText(v.name) === normalizeText(name));
+  const view: SavedView = { id: existing?.id ?? createId(), name: name.trim(), filters };
+  return existing ? views.map(v => (v.id === existing.id ? view : v)) : [...views, view];
+};
+
+const viewKey = (f: TableFilters) => JSON.stringify([
+  f.searchTerm.trim(), f.categoryFilter, f.showReadingReview, f.amountMin, f.amountMax,
+  f.dateFrom, f.dateTo, f.sign ?? 'any', f.sort?.field, f.sort?.direction
+]);
+
+// Visão cujos filtros são exatamente os da tabela no momento
+export const findActiveView = (views: SavedView[], filters: TableFilters) =>
+  views.find(v => viewKey(v.filters) === viewKey(filters));
@@ -0,0 +1,261 @@
+import { ChunkPayload } from "./extractionProvider";
+import { PageTextLine } from "./pdfSourceService";
+import { parseBrazilianNumber } from "./spreadsheetService";
+import { normalizeText } from "../utils/text";
+
+// Mesmas regras de sinal da instrução enviada à IA, aplicadas à descrição normalizada
+const POSITIVE_KEYWORDS = ['credito', 'entrada', 'recebimento', 'recebido', 'recebida', 'estorno', 'deposito', 'ganhos', 'rendimento'];
+const NEGATIVE_KEYWORDS = ['debito', 'saida', 'envio', 'enviado', 'enviada', 'pagamento', 'compra', 'tarifa', 'retirada', 'saque'];
+
+// Linhas que nunca são transações
+const SKIP_KEYWORDS = ['saldo', 'total', 'subtotal', 'a aplicar'];
+
+const CATEGORY_KEYWORDS: [RegExp, string][] = [
+  [/\bpix\b/, 'Pix'],
+  [/\bboleto\b/, 'Boleto'],
+  [/\b(ted|doc|transferencia)\b/, 'Transferência'],
+  [/\b(tarifa|taxa|iof)\b/, 'Tarifa'],
+  [/\bsalario\b/, 'Salário'],
+  [/\b(rendimento|resgate|aplicacao)\b/, 'Investimentos'],
+  [/\bsaque\b/, 'Saque'],
+  [/\b(cartao|compra)\b/, 'Cartão']
+];
+
+const MONTHS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+// Valor em reais com sinal antes, depois ou marcado com D/C (ex: "-R$ 1.234,56", "150,00 D")
+const AMOUNT_PATTERN = /(?:[-+]\s?)?(?:R\$\s?)?[-+]?\d{1,3}(?:\.\d{3})*,\d{2}(?:\s?[DC](?![\p{L}\d])|-(?!\d))?/giu;
+
+const LONG_MONTHS = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+const NUMERIC_DATE = /^(\d{2})\/(\d{2})(?:\/(\d{4}|\d{2}))?(?!\d)/;
+const LONG_DATE = /^(\d{1,2}) de ([a-z]+) de (\d{4})/;
+const TEXT_DATE = /^(\d{2})\s(jan|fev|mar|abr|mai|jun|jul|ago|set|out|nov|dez)[a-z]*\.?(?:\s(\d{4}))?(?![a-z])/i;
+
+export interface LineAmount {
+  value: number;
+  start: number;
+  explicitSign: boolean; // O documento marcou o sinal (-, +, D ou C)
+}
+
+// Primeiro ano completo impresso no texto (período do extrato); usado quando a linha traz só dia/mês
+export const findStatementYear = (text: string): number => {
+  const match = text.match(/\b\d{2}\/\d{2}\/(\d{4})\b/) || text.match(/\b(20\d{2})\b/);
+  return match ? parseInt(match[1], 10) : new Date().getFullYear();
+};
+
+export const parseLineDate = (text: string, fallbackYear: number): { date: string; length: number } | undefined => {
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const year = numeric[3] ? (numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : String(fallbackYear);
+    return { date: `${year}-${numeric[2]}-${numeric[1]}`, length: numeric[0].length };
+  }
+  const written = text.match(TEXT_DATE);
+  if (written) {
+    const month = String(MONTHS.indexOf(written[2].toLowerCase()) + 1).padStart(2, '0');
+    return { date: `${written[3] || fallbackYear}-${month}-${written[1]}`, length: written[0].length };
+  }
+  // Normalizar não muda o tamanho do texto (acentos compostos viram uma letra só)
+  const long = normalizeText(text).match(LONG_DATE);
+  if (long && LONG_MONTHS.includes(long[2])) {
+    const month = String(LONG_MONTHS.indexOf(long[2]) + 1).padStart(2, '0');
+    return { date: `${long[3]}-${month}-${long[1].padStart(2, '0')}`, length: long[0].length };
+  }
+  return undefined;
+};
+
+// Valores monetários da linha, da esquerda para a direita; o que não vira número não é valor
+export const parseLineAmounts = (text: string): LineAmount[] =>
+  Array.from(text.matchAll(AMOUNT_PATTERN))
+    .map(match => ({
+      value: parseBrazilianNumber(match[0]),
+      start: match.index ?? 0,
+      explicitSign: /[-+DC]/i.test(match[0].replace(/R\$/i, ''))
+    }))
+    .filter(amount => Number.isFinite(amount.value));
+
+// Sem sinal impresso, a descrição decide; entradas têm preferência ("Estorno de compra" é entrada)
+export const inferSign = (description: string): 1 | -1 => {
+  const normalized = normalizeText(description);
+  const words = normalized.split(/[^a-z0-9]+/);
+  if (POSITIVE_KEYWORDS.some(k => words.includes(k))) return 1;
+  if (NEGATIVE_KEYWORDS.some(k => words.includes(k))) return -1;
+  return 1;
+};
+
+export const guessCategory = (description: string): string => {
+  const normalized = normalizeText(description);
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(normalized))?.[1] || 'Outros';
+};
+
+export const isSkippedLine = (description: string) => {
+  const words = normalizeText(description);
+  return SKIP_KEYWORDS.some(k => new RegExp(`\\b${k}\\b`).test(words));
+};
+
+export const findHolderDocument = (text: string) =>
+  text.match(/\bCPF[:\s]*(\d{3}\.?\d{3}\.?\d{3}-?\d{2})\b/i)?.[1]
+  || text.match(/\bCNPJ[:\s]*(\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2})\b/i)?.[1];
+
+// Agência e conta do cabeçalho ("Agência: 0001 Conta: 12345-6"), quando impressas
+export const findAccountNumber = (text: string) => {
+  const account = text.match(/\b(?:conta(?: corrente)?|c\/c|cc)\s*(?:n[º°o.]*)?[:\s]\s*(\d[\d.]{2,12}-?[\dxX])\b/i)?.[1];
+  if (!account) return undefined;
+  const agency = text.match(/\bag(?:[êe]ncia|\.)?\s*(?:n[º°o.]*)?[:\s]\s*(\d{3,5}(?:-\d)?)\b/i)?.[1];
+  return agency ? `${agency}/${account}` : account;
+};
+
+// Regras de um layout de extrato; o layout genérico usa apenas as regras comuns a todos os bancos
+export interface StatementLayout {
+  // Seções que definem o sinal das linhas seguintes (ex: "Total de entradas" / "Total de saídas")
+  sectionSigns?: [RegExp, 1 | -1][];
+  // Colunas separadas de débito e crédito, localizadas pelo cabeçalho da página
+  debitCreditColumns?: boolean;
+}
+
+export interface StatementPage {
+  pageNumber: number; // Numeração usada em `p` das transações
+  lines: PageTextLine[];
+}
+
+type ColumnKind = 'debit' | 'credit' | 'balance';
+
+interface Column {
+  kind: ColumnKind;
+  center: number;
+}
+
+const findColumns = (line: PageTextLine): Column[] | undefined => {
+  const columns: Column[] = [];
+  line.pieces.forEach(piece => {
+    const text = normalizeText(piece.text);
+    const kind: ColumnKind | undefined = /\bdebito/.test(text) ? 'debit'
+      : /\bcredito/.test(text) ? 'credit'
+      : /\bsaldo/.test(text) ? 'balance'
+      : undefined;
+    if (kind) columns.push({ kind, center: piece.x + piece.width / 2 });
+  });
+  return columns.some(c => c.kind === 'debit') && columns.some(c => c.kind === 'credit') ? columns : undefined;
+};
+
+// Coluna mais próxima do trecho onde o valor foi impresso
+const getAmountColumn = (line: PageTextLine, amount: LineAmount, columns: Column[]): ColumnKind => {
+  let offset = 0;
+  const piece = line.pieces.find(p => {
+    const end = offset + p.text.length;
+    const contains = amount.start >= offset && amount.start <= end;
+    offset = end + 1;
+    return contains;
+  }) ?? line.pieces[line.pieces.length - 1];
+  const center = piece.x + piece.width / 2;
+  return columns.reduce((best, c) => (Math.abs(c.center - center) < Math.abs(best.center - center) ? c : best)).kind;
+};
+
+// Página com linhas de data + valor, isto é, com cara de lista de lançamentos
+export const looksLikeStatementRows = (lines: PageTextLine[], year: number) =>
+  lines.some(line => parseLineDate(line.text, year) && parseLineAmounts(line.text).length > 0);
+
+/**
+ * Lê linhas no formato "data descrição valor [saldo]" seguindo as regras do layout,
+ * devolvendo um resultado por página. Data e seção continuam de uma página para a outra.
+ * Linhas sem data herdam a última data vista (extratos agrupados por dia).
+ * Sem colunas identificadas, quando a linha termina com dois valores o último é o saldo.
+ * O sinal vem, nesta ordem: coluna de débito/crédito, sinal impresso, seção da página, palavras da descrição.
+ */
+export const readStatementPages = (pages: StatementPage[], layout: StatementLayout, year: number): ChunkPayload[] => {
+  let currentDate: string | undefined;
+  let sectionSign: 1 | -1 | undefined;
+
+  return pages.map(({ pageNumber, lines }) => {
+    const payload: ChunkPayload = { tx: [], sd: [] };
+    const dailyBalances = payload.sd!;
+    let columns: Column[] | undefined;
+
+    lines.forEach(line => {
+      if (layout.debitCreditColumns && !columns) {
+        columns = findColumns(line);
+        if (columns) return;
+      }
+
+      const parsedDate = parseLineDate(line.text, year);
+      if (parsedDate) currentDate = parsedDate.date;
+
+      const normalizedLine = normalizeText(line.text);
+      const section = layout.sectionSigns?.find(([pattern]) => pattern.test(normalizedLine));
+      if (section) {
+        sectionSign = section[1];
+        return;
+      }
+
+      const amounts = parseLineAmounts(line.text);
+      if (amounts.length === 0 || !currentDate) return;
+
+      const body = line.text.slice(parsedDate?.length ?? 0, amounts[0].start).trim();
+      const normalized = normalizeText(body);
+      const last = amounts[amounts.length - 1];
+
+      // Saldos alimentam a conciliação, nunca a lista de transações
+      if (/saldo (anterior|inicial)/.test(normalized)) {
+        if (payload.so == null) payload.so = last.value;
+        return;
+      }
+      if (/saldo final/.test(normalized)) {
+        payload.sc = last.value;
+        return;
+      }
+      if (/saldo do dia/.test(normalized)) {
+        dailyBalances.push({ d: currentDate, s: last.value });
+        return;
+      }
+      if (!body || isSkippedLine(body)) return;
+
+      let value: number;
+      if (columns) {
+        const located = amounts.map(a => ({ amount: a, kind: getAmountColumn(line, a, columns!) }));
+        const balance = located.find(l => l.kind === 'balance');
+        if (balance) dailyBalances.push({ d: currentDate, s: balance.amount.value });
+        const movement = located.find(l => l.kind !== 'balance');
+        if (!movement) return;
+        value = Math.abs(movement.amount.value) * (movement.kind === 'debit' ? -1 : 1);
+      } else {
+        const amount = amounts.length >= 2 ? amounts[amounts.length - 2] : amounts[0];
+        if (amounts.length >= 2) dailyBalances.push({ d: currentDate, s: last.value });
+        value = amount.explicitSign ? amount.value : Math.abs(amount.value) * (sectionSign ?? inferSign(body));
+      }
+      if (!Number.isFinite(value)) return;
+
+      payload.tx.push({
+        d: currentDate,
+        t: body,
+        v: value,
+        c: guessCategory(body),
+        p: pageNumber,
+        r: line.text
+      });
+    });
+
+    return payload;
+  });
+};
+
+// Junta resultados em ordem de página: saldo inicial do primeiro que o tiver, final do último
+export const mergePayloads = (payloads: ChunkPayload[]): ChunkPayload => ({
+  so: payloads.find(p => p.so != null)?.so,
+  sc: [...payloads].reverse().find(p => p.sc != null)?.sc,
+  sd: payloads.flatMap(p => p.sd ?? []),
+  tx: payloads.flatMap(p => p.tx)
+});
+
+export const getPagesText = (pages: PageTextLine[][]) =>
+  pages.flat().map(l => l.text).join('\n');
+
+// Leitor para extratos digitais de layout desconhecido
+export const parseGenericStatement = (pages: PageTextLine[][]): ChunkPayload => {
+  const fullText = getPagesText(pages);
+  const payloads = readStatementPages(
+    pages.map((lines, idx) => ({ pageNumber: idx + 1, lines })),
+    {},
+    findStatementYear(fullText)
+  );
+  return { ...mergePayloads(payloads), hd: findHolderDocument(fullText), ac: findAccountNumber(fullText) };
+};
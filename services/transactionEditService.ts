@@ -0,0 +1,54 @@
+import { EditableField, Transaction } from "../types";
+import { createId } from "../utils/id";
+import { needsReadingReview, recordEdits } from "./auditService";
+
+// Sessões salvas antes dos ids (ou importadas de arquivos antigos) recebem um id na primeira carga
+export const ensureTransactionIds = (transactions: Transaction[]): Transaction[] =>
+  transactions.some(t => !t.id) ? transactions.map(t => (t.id ? t : { ...t, id: createId() })) : transactions;
+
+const updateSelected = (transactions: Transaction[], ids: Set<string>, update: (t: Transaction) => Transaction) =>
+  transactions.map(t => (t.id && ids.has(t.id) ? update(t) : t));
+
+/**
+ * Aplica uma edição como as do formulário: o histórico de auditoria registra o campo alterado,
+ * a categoria escolhida à mão fica protegida das regras e editar uma leitura incerta a dá por conferida.
+ */
+export const applyEdit = (previous: Transaction, changes: Partial<Transaction>, author?: string): Transaction => {
+  const next: Transaction = {
+    ...previous,
+    ...changes,
+    manualCategory: previous.manualCategory || (changes.category !== undefined && changes.category !== previous.category) || undefined,
+    reviewed: needsReadingReview(previous) ? true : previous.reviewed
+  };
+  return recordEdits(previous, next, author);
+};
+
+export const editField = (
+  transactions: Transaction[],
+  id: string,
+  field: EditableField,
+  value: string | number,
+  author?: string
+) => transactions.map(t => (t.id === id && t[field] !== value ? applyEdit(t, { [field]: value }, author) : t));
+
+export const recategorize = (transactions: Transaction[], ids: Set<string>, category: string, author?: string) =>
+  updateSelected(transactions, ids, t => (t.category === category ? t : applyEdit(t, { category }, author)));
+
+export const removeTransactions = (transactions: Transaction[], ids: Set<string>) =>
+  transactions.filter(t => !t.id || !ids.has(t.id));
+
+// Só entradas fazem parte da renda; saídas selecionadas junto ficam como estão
+export const excludeFromIncome = (transactions: Transaction[], ids: Set<string>) =>
+  updateSelected(transactions, ids, t => (t.amount > 0 ? { ...t, excludedFromIncome: true } : t));
+
+export const markAsTransfer = (transactions: Transaction[], ids: Set<string>) =>
+  updateSelected(transactions, ids, t => ({ ...t, markedAsTransfer: true }));
+
+// Desfaz as marcações manuais (exclusão da renda e transferência) de todas as transações
+export const clearManualMarks = (transactions: Transaction[]) =>
+  transactions.map(t => (t.excludedFromIncome || t.markedAsTransfer
+    ? { ...t, excludedFromIncome: undefined, markedAsTransfer: undefined }
+    : t));
+
+export const confirmReadings = (transactions: Transaction[], ids: Set<string>) =>
+  updateSelected(transactions, ids, t => ({ ...t, reviewed: true }));
@@ -0,0 +1,115 @@
+import { Transaction } from "../types";
+import { getSourceFileKey, getTransactionKey } from "./deduplicationService";
+import { normalizeText } from "../utils/text";
+
+export const INTERNAL_TRANSFER_LABEL = 'Transferência entre contas próprias';
+
+export type TransferReason = 'cross-account' | 'holder-name' | 'holder-document';
+
+export interface TransferMatch {
+  key: string;
+  // Saída e entrada correspondentes, ou um único lançamento que cita o próprio titular
+  transactions: Transaction[];
+  reasons: TransferReason[];
+}
+
+export interface HolderIdentity {
+  names: string[];
+  documents: string[]; // CPF/CNPJ como impressos no extrato
+}
+
+export interface TransferOptions {
+  dateToleranceDays: number;
+}
+
+// Pix e TED entre bancos costumam compensar no mesmo dia ou no dia útil seguinte
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = {
+  dateToleranceDays: 2
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NAME_PARTICLES = ['de', 'da', 'do', 'das', 'dos', 'e'];
+
+const daysBetween = (a: string, b: string) =>
+  Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS);
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Primeiro e último nome precisam aparecer como palavras: extratos abreviam o meio do nome
+const mentionsName = (description: string, name: string) => {
+  const parts = normalizeText(name).split(/\s+/).filter(p => p.length >= 2 && !NAME_PARTICLES.includes(p));
+  if (parts.length < 2) return false;
+  const words = new Set(normalizeText(description).split(/[^a-z0-9]+/));
+  return words.has(parts[0]) && words.has(parts[parts.length - 1]);
+};
+
+// Aceita o documento completo ou o CPF mascarado que os bancos imprimem (***.456.789-**)
+const mentionsDocument = (description: string, document: string) => {
+  const digits = onlyDigits(document);
+  if (digits.length !== 11 && digits.length !== 14) return false;
+  if (onlyDigits(description).includes(digits)) return true;
+  if (digits.length !== 11) return false;
+  const masked = description.match(/\*{3}\.?(\d{3})\.?(\d{3})-?\*{2}/);
+  return !!masked && `${masked[1]}${masked[2]}` === digits.slice(3, 9);
+};
+
+export const getHolderReasons = (t: Transaction, identity: HolderIdentity): TransferReason[] => {
+  const reasons: TransferReason[] = [];
+  if (identity.names.some(name => mentionsName(t.description, name))) reasons.push('holder-name');
+  if (identity.documents.some(doc => mentionsDocument(t.description, doc))) reasons.push('holder-document');
+  return reasons;
+};
+
+export const getTransferKey = (transactions: Transaction[]) =>
+  transactions.map(getTransactionKey).sort().join('~~');
+
+/**
+ * Sugere transferências entre contas do próprio titular:
+ * 1. Pares de sinais opostos, mesmo valor e datas próximas em arquivos diferentes
+ *    (os que citam o titular têm preferência, depois os de datas mais próximas).
+ * 2. Lançamentos avulsos cuja descrição cita o nome ou o CPF/CNPJ do titular,
+ *    para quando o extrato da outra conta não foi enviado.
+ * Cada transação participa de no máximo uma sugestão.
+ */
+export const findInternalTransfers = (
+  transactions: Transaction[],
+  identity: HolderIdentity,
+  options: TransferOptions = DEFAULT_TRANSFER_OPTIONS
+): TransferMatch[] => {
+  const holderReasons = new Map(transactions.map(t => [t, getHolderReasons(t, identity)]));
+  const incomingByAmount = new Map<string, Transaction[]>();
+  transactions.filter(t => t.amount > 0).forEach(t => {
+    const amountKey = t.amount.toFixed(2);
+    incomingByAmount.set(amountKey, [...(incomingByAmount.get(amountKey) ?? []), t]);
+  });
+
+  const candidates: { pair: [Transaction, Transaction]; days: number; mentions: number }[] = [];
+  transactions.filter(t => t.amount < 0).forEach(out => {
+    (incomingByAmount.get((-out.amount).toFixed(2)) ?? []).forEach(inc => {
+      if (!out.source || !inc.source || getSourceFileKey(out.source) === getSourceFileKey(inc.source)) return;
+      const days = daysBetween(out.date, inc.date);
+      if (days > options.dateToleranceDays) return;
+      const mentions = holderReasons.get(out)!.length + holderReasons.get(inc)!.length;
+      candidates.push({ pair: [out, inc], days, mentions });
+    });
+  });
+  candidates.sort((a, b) => b.mentions - a.mentions || a.days - b.days);
+
+  const used = new Set<Transaction>();
+  const matches: TransferMatch[] = [];
+
+  candidates.forEach(({ pair }) => {
+    if (pair.some(t => used.has(t))) return;
+    pair.forEach(t => used.add(t));
+    const reasons = new Set<TransferReason>(['cross-account', ...pair.flatMap(t => holderReasons.get(t)!)]);
+    matches.push({ key: getTransferKey(pair), transactions: pair, reasons: Array.from(reasons) });
+  });
+
+  transactions.forEach(t => {
+    const reasons = holderReasons.get(t)!;
+    if (used.has(t) || reasons.length === 0) return;
+    matches.push({ key: getTransferKey([t]), transactions: [t], reasons });
+  });
+
+  return matches.sort((a, b) => b.transactions[0].date.localeCompare(a.transactions[0].date));
+};
@@ -1,14 +1,156 @@
+// Origem da transação dentro do lote enviado
+export interface TransactionSource {
+  fileName: string;
+  fileId?: string;     // Arquivo no lote; nomes podem se repetir (ausente em análises antigas)
+  bankName?: string;
+  chunkIndex?: number; // Bloco de páginas enviado à IA
+  pageStart?: number;  // Páginas (1-based) cobertas pelo bloco
+  pageEnd?: number;
+  page?: number;       // Página exata (1-based) onde a linha foi impressa, quando conhecida
+  rawText?: string;    // Linha como aparece no documento (PDF, bloco OFX ou linha da planilha)
+  confidence?: number; // Legibilidade informada pelo extrator (0 a 1), em páginas fotografadas ou digitalizadas
+  // Conta de origem no lote (titular e agência/conta, quando identificados)
+  accountHolder?: string;
+  accountNumber?: string;
+}
+
+// O que identifica o arquivo original de uma transação ou de uma falha de leitura
+export type SourceFileRef = Pick<TransactionSource, 'fileName' | 'fileId'>;
+
+// Campos editáveis pelo usuário e registrados no histórico de auditoria
+export type EditableField = 'date' | 'description' | 'amount' | 'category';
+
+export type TransactionSnapshot = Pick<Transaction, EditableField>;
+
+export interface TransactionEdit {
+  at: string;      // ISO
+  author?: string;
+  field: EditableField;
+  from: string | number;
+  to: string | number;
+}
+
 export interface Transaction {
+  // Identificador estável (seleção, edição e desfazer); sessões antigas o recebem ao abrir
+  id?: string;
   date: string;
   description: string;
   amount: number;
   category: string;
+  source?: TransactionSource;
+  // Categorização por regras: categoria original da IA, regra aplicada e etiqueta de pagador
+  originalCategory?: string;
+  ruleId?: string;
+  payerTag?: string;
+  // Categoria definida manualmente pelo usuário; regras não a sobrescrevem
+  manualCategory?: boolean;
+  // Valores como saíram da extração, preservados após edições manuais
+  original?: TransactionSnapshot;
+  edits?: TransactionEdit[];
+  // Leitura de baixa confiança conferida pelo usuário
+  reviewed?: boolean;
+  // Marcações manuais da tabela: fora da apuração de renda e transferência entre contas próprias
+  excludedFromIncome?: boolean;
+  markedAsTransfer?: boolean;
+}
+
+export type AmountSign = 'any' | 'positive' | 'negative';
+
+export interface CategoryRuleMatch {
+  descriptionText?: string;  // Trecho contido na descrição (sem diferenciar maiúsculas/acentos)
+  descriptionRegex?: string; // Expressão regular aplicada à descrição original
+  minAmount?: number;        // Limites em valor absoluto
+  maxAmount?: number;
+  sign: AmountSign;
+  bank?: string;
+  dateFrom?: string;         // YYYY-MM-DD
+  dateTo?: string;
+}
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  priority: number; // 1 = avaliada primeiro
+  enabled: boolean;
+  match: CategoryRuleMatch;
+  category: string;
+  payerTag?: string;
+}
+
+export interface BalanceCheckpoint {
+  date: string; // YYYY-MM-DD
+  balance: number;
+}
+
+export type ReconciliationStatus = 'ok' | 'mismatch' | 'unavailable';
+
+export interface ReconciliationResult {
+  fileName: string;
+  bankName?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  computedClosingBalance?: number;
+  difference?: number;
+  status: ReconciliationStatus;
+  // Primeiro intervalo em que o saldo corrente deixa de bater com o impresso
+  firstDivergence?: {
+    from: string;
+    to: string;
+    expectedBalance: number;
+    computedBalance: number;
+  };
 }
 
 export interface ExtractedData {
   transactions: Transaction[];
   bankName?: string;
   accountHolder?: string;
+  // Todos os titulares e CPF/CNPJ encontrados no lote, usados para achar transferências entre contas próprias
+  accountHolders?: string[];
+  holderDocument?: string;
+  holderDocuments?: string[];
+  accountNumber?: string; // Agência/conta, quando o extrato as traz
+  openingBalance?: number;
+  closingBalance?: number;
+  dailyBalances?: BalanceCheckpoint[];
+  reconciliations?: ReconciliationResult[];
+  // Páginas que a extração não conseguiu ler, para nova tentativa
+  failedPages?: FailedPageRange[];
+}
+
+// Trecho não lido de um arquivo; sem intervalo de páginas, o arquivo inteiro falhou
+export interface FailedPageRange {
+  fileName: string;
+  fileId?: string;
+  pageStart?: number;
+  pageEnd?: number;
+  reason: string;
+}
+
+export type SpreadsheetCell = string | number;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetCell[][];
+}
+
+// Como os sinais são representados na planilha quando há uma única coluna de valor
+// - signed: negativo = saída (padrão de conta corrente)
+// - inverted: positivo = saída (padrão de fatura de cartão)
+export type SignConvention = 'signed' | 'inverted';
+
+// Índices das colunas da planilha (-1 = coluna não usada)
+export interface ColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  debit: number;
+  credit: number;
+  category: number;
+  signConvention: SignConvention;
+  bankName?: string;
 }
 
 export interface MonthlyStats {
@@ -16,14 +158,144 @@ export interface MonthlyStats {
   income: number;
   expense: number;
   balance: number;
+  // Receita do mês fora do padrão do período (cercas de Tukey)
+  incomeOutlier?: boolean;
+  // Fração do mês coberta pelo período quando o mês foi proporcionalizado
+  coverage?: number;
 }
 
 export interface GlobalStats {
   totalIncome: number;
   totalExpense: number;
+  // Médias sobre todos os meses do período, inclusive os sem movimento
   averageMonthlyIncome: number;
   averageMonthlyExpense: number;
   netBalance: number;
+  monthCount: number;
+  medianMonthlyIncome: number;
+  trimmedMeanMonthlyIncome: number;
+  averageMonthlyIncomeWithoutOutliers: number;
+  incomeStandardDeviation: number;
+  outlierMonths: string[]; // YYYY-MM
+}
+
+// Métrica usada como "Renda Apurada" nos indicadores e relatórios
+export type IncomeMetric = 'mean' | 'median' | 'trimmedMean' | 'meanWithoutOutliers';
+
+// Receitas (comprovação de renda), Despesas (orçamento) ou Fluxo completo
+export type AnalysisMode = 'income' | 'expense' | 'full';
+
+// Intervalo de datas analisado (YYYY-MM-DD, inclusivo)
+export interface AnalysisPeriod {
+  from: string;
+  to: string;
+}
+
+// Mês da borda do período sem cobertura completa (extrato começa ou termina no meio do mês)
+export interface PartialMonth {
+  month: string; // YYYY-MM
+  coveredDays: number;
+  totalDays: number;
+}
+
+// Meses parciais: entram como estão, ficam de fora ou são projetados para o mês inteiro
+export type PartialMonthHandling = 'include' | 'exclude' | 'prorate';
+
+export type PeriodPreset = 'all' | 'last3' | 'last6' | 'last12' | 'year' | 'custom';
+
+export interface PeriodSelection {
+  preset: PeriodPreset;
+  year?: number; // Ano-calendário, com o preset 'year'
+  from?: string; // Datas do preset 'custom'
+  to?: string;
+  partialMonths: PartialMonthHandling;
+}
+
+export type TextMatchMode = 'contains' | 'word' | 'regex';
+export type AmountOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+// Condições de exclusão; negate inverte a condição (NÃO)
+export type ExclusionCondition =
+  | { type: 'text'; mode: TextMatchMode; value: string; negate?: boolean }
+  | { type: 'amount'; operator: AmountOperator; value: number; negate?: boolean }
+  | { type: 'category'; value: string; negate?: boolean };
+
+// Uma regra exclui a transação quando TODAS as condições são verdadeiras (E);
+// alternativas (OU) são expressas com regras separadas
+export interface ExclusionRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: ExclusionCondition[];
+  presetId?: string;
+}
+
+// Estado editável do Dashboard que sobrevive entre sessões
+export type TransferDecision = 'confirmed' | 'rejected';
+
+// Busca e filtros da tabela de transações
+export type SortField = 'date' | 'description' | 'category' | 'amount';
+
+export interface TableSort {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+// Filtros da tabela de transações; ausentes = sem limite
+export interface TableFilters {
+  searchTerm: string; // Aceita a sintaxe de consulta (ex: valor>1000 categoria:Pix -tarifa)
+  categoryFilter: string;
+  showReadingReview: boolean;
+  amountMin?: number; // Limites em valor absoluto
+  amountMax?: number;
+  dateFrom?: string;  // YYYY-MM-DD, inclusivo
+  dateTo?: string;
+  sign?: AmountSign;
+  sort?: TableSort;   // Ausente = ordem da análise (mais recentes primeiro)
+}
+
+export interface DashboardFilters extends TableFilters {
+  accountKey?: string; // Conta de origem selecionada; ausente = todas
+}
+
+// Combinação de filtros salva com nome; vale para qualquer extrato
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: TableFilters;
+}
+
+export interface DashboardState {
+  transactions: Transaction[];
+  exclusionRules?: ExclusionRule[];
+  // Lista de termos do formato antigo; convertida em regras ao reabrir a sessão
+  ignoredTerms?: string[];
+  keptDuplicateGroups: string[];
+  analysisMode?: AnalysisMode;
+  // Decisão do usuário sobre cada transferência entre contas próprias sugerida, por chave
+  transferDecisions?: Record<string, TransferDecision>;
+  // Páginas ainda não lidas (as que voltaram numa nova tentativa saem da lista)
+  failedPages?: FailedPageRange[];
+  filters?: DashboardFilters;
+  incomeMetric?: IncomeMetric;
+  period?: PeriodSelection;
+}
+
+export interface SessionFile {
+  id?: string; // Mesmo id de TransactionSource.fileId (ausente em análises antigas)
+  name: string;
+  size: number;
+  hash: string; // SHA-256 em hexadecimal
+}
+
+export interface AnalysisSession {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  files: SessionFile[];
+  data: ExtractedData;
+  dashboardState?: DashboardState;
 }
 
 export enum AppState {
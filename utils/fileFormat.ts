@@ -0,0 +1,36 @@
+import { isOfxContent } from '../services/ofxService';
+
+export type StatementFormat = 'pdf' | 'ofx' | 'csv' | 'xlsx' | 'image' | 'unknown';
+
+// Extensões aceitas pelo UploadZone (a detecção final é feita pelo conteúdo)
+export const ACCEPTED_EXTENSIONS = ['.pdf', '.ofx', '.qfx', '.csv', '.xlsx', '.xls', '.jpg', '.jpeg', '.png', '.heic', '.heif'];
+
+// Fotos do celular costumam chegar como JPEG ou HEIC (iPhone)
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+export const isAcceptedFile = (file: File): boolean =>
+  file.type === 'application/pdf' ||
+  file.type.startsWith('image/') ||
+  ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// Identifica o formato pelos primeiros bytes, já que a extensão e o MIME type nem sempre são confiáveis
+export const detectStatementFormat = async (file: File): Promise<StatementFormat> => {
+  const buffer = await file.slice(0, 2048).arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const head = new TextDecoder('utf-8').decode(buffer);
+
+  if (head.startsWith('%PDF')) return 'pdf';
+  if (isOfxContent(head)) return 'ofx';
+
+  // JPEG (FF D8 FF), PNG (89 "PNG") e HEIC/HEIF (caixa "ftyp" com a marca na posição 8)
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image';
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image';
+  if (head.slice(4, 8) === 'ftyp' && HEIC_BRANDS.includes(head.slice(8, 12))) return 'image';
+
+  // XLSX é um ZIP ("PK") e o XLS legado é um documento OLE (D0 CF 11 E0)
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'xlsx';
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) return 'xlsx';
+
+  if (/\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv') return 'csv';
+  return 'unknown';
+};
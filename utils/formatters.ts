@@ -0,0 +1,7 @@
+export const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+export const formatDate = (dateStr: string) => {
+  const [y, m, d] = dateStr.split('-');
+  return `${d}/${m}/${y}`;
+};
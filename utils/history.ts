@@ -0,0 +1,47 @@
+// Pilhas de desfazer/refazer com instantâneos imutáveis; cada passo guarda o rótulo da ação
+
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+}
+
+export interface UndoHistory<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+// Passos guardados; os mais antigos são descartados
+const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(): UndoHistory<T> => ({ past: [], future: [] });
+
+// Guarda o estado anterior a uma ação; uma ação nova apaga o que podia ser refeito
+export const recordChange = <T>(history: UndoHistory<T>, label: string, previous: T): UndoHistory<T> => ({
+  past: [...history.past, { label, snapshot: previous }].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+// Volta um passo: devolve o estado a restaurar e guarda o atual para refazer
+export const undoChange = <T>(history: UndoHistory<T>, current: T) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return undefined;
+  return {
+    snapshot: entry.snapshot,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { label: entry.label, snapshot: current }] }
+  };
+};
+
+export const redoChange = <T>(history: UndoHistory<T>, current: T) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return undefined;
+  return {
+    snapshot: entry.snapshot,
+    history: { past: [...history.past, { label: entry.label, snapshot: current }], future: history.future.slice(0, -1) }
+  };
+};
+
+// Aplica uma mudança que não deve ser desfeita (ex: dados lidos depois) a todos os instantâneos guardados
+export const mapHistory = <T>(history: UndoHistory<T>, update: (snapshot: T) => T): UndoHistory<T> => ({
+  past: history.past.map(entry => ({ ...entry, snapshot: update(entry.snapshot) })),
+  future: history.future.map(entry => ({ ...entry, snapshot: update(entry.snapshot) }))
+});
@@ -0,0 +1,28 @@
+// Leitura defensiva de JSON vindo de arquivos do usuário: campos de outro tipo são descartados
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+export const optionalNumber = (value: unknown) =>
+  (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+export const optionalBoolean = (value: unknown) => (typeof value === 'boolean' ? value : undefined);
+
+// Valor de uma união de literais (ex: 'income' | 'expense' | 'full')
+export const oneOf = <T extends string>(value: unknown, options: readonly T[]): T | undefined =>
+  options.find(option => option === value);
+
+export const stringList = (value: unknown) =>
+  (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined);
+
+// Lista de objetos; os itens que a leitura recusa ficam de fora
+export const listOf = <T>(value: unknown, read: (item: JsonRecord) => T | undefined): T[] | undefined =>
+  Array.isArray(value)
+    ? value.flatMap(item => {
+      const parsed = isRecord(item) ? read(item) : undefined;
+      return parsed === undefined ? [] : [parsed];
+    })
+    : undefined;
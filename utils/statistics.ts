@@ -0,0 +1,54 @@
+// Estatística descritiva simples para séries mensais (listas vazias resultam em 0)
+
+export const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+export const mean = (values: number[]) => (values.length > 0 ? sum(values) / values.length : 0);
+
+// Quantil com interpolação linear entre as posições vizinhas
+export const quantile = (values: number[], q: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const median = (values: number[]) => quantile(values, 0.5);
+
+export const standardDeviation = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+};
+
+// Desvio padrão relativo à média: quanto menor, mais estável a série
+export const coefficientOfVariation = (values: number[]) => {
+  const avg = mean(values);
+  return avg > 0 ? standardDeviation(values) / avg : 0;
+};
+
+// Abaixo disso os quartis não dizem nada sobre a série
+const MIN_VALUES_FOR_OUTLIERS = 4;
+
+// Média sem a fração `fraction` dos menores e dos maiores valores (0,2 = corta 20% de cada ponta)
+export const trimmedMean = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const cut = Math.floor(sorted.length * fraction);
+  return mean(sorted.slice(cut, sorted.length - cut));
+};
+
+// Cercas de Tukey (1,5 × intervalo interquartil); séries curtas não têm cercas
+export const getTukeyFences = (values: number[]): { lower: number; upper: number } | undefined => {
+  if (values.length < MIN_VALUES_FOR_OUTLIERS) return undefined;
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  return { lower: q1 - fence, upper: q3 + fence };
+};
+
+// Índices dos valores fora das cercas de Tukey. Séries curtas não têm outliers.
+export const findOutlierIndexes = (values: number[]): number[] => {
+  const fences = getTukeyFences(values);
+  if (!fences) return [];
+  return values.flatMap((v, idx) => (v < fences.lower || v > fences.upper ? [idx] : []));
+};
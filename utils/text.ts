@@ -0,0 +1,8 @@
+// Minúsculas, sem acentos e com espaços colapsados: base para comparações tolerantes
+export const normalizeText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
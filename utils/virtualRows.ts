@@ -0,0 +1,49 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Abaixo deste número de linhas a tabela é renderizada inteira
+export const VIRTUALIZE_AFTER = 200;
+
+export interface VirtualWindow {
+  virtualized: boolean;
+  start: number; // Primeira linha renderizada
+  end: number;   // Posição após a última linha renderizada
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Janela de linhas visíveis num contêiner com rolagem própria. A altura estimada é fixa:
+ * linhas um pouco mais altas (selos, descrições longas) só deslocam as margens, que a folga absorve.
+ */
+export const useVirtualRows = (
+  containerRef: RefObject<HTMLElement>,
+  count: number,
+  rowHeight: number,
+  overscan = 15
+): VirtualWindow => {
+  const virtualized = count > VIRTUALIZE_AFTER;
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !virtualized) return;
+    const update = () => {
+      setScrollTop(container.scrollTop);
+      setViewportHeight(container.clientHeight);
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      container.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [containerRef, virtualized]);
+
+  if (!virtualized) return { virtualized, start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { virtualized, start, end, paddingTop: start * rowHeight, paddingBottom: (count - end) * rowHeight };
+};